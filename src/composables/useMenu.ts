@@ -37,7 +37,8 @@ export function useMenu(): UseMenu {
   const store = useMenuDataStore();
 
   // Computed properties
-  const menuItems = computed(() => store.menuItems);
+  // Customer menu: follows menu schedules at the café's current time
+  const menuItems = computed(() => store.scheduledMenuItems);
   const loading = computed(() => store.loading);
   const error = computed(() => store.error);
 
@@ -49,8 +50,8 @@ export function useMenu(): UseMenu {
 
   const bestSellerItems = computed(() => store.getBestSellerItems());
   const availableCategories = computed(() => store.getAvailableCategories());
-  const totalItems = computed(() => store.menuItems.length);
-  const hasItems = computed(() => store.menuItems.length > 0);
+  const totalItems = computed(() => store.scheduledMenuItems.length);
+  const hasItems = computed(() => store.scheduledMenuItems.length > 0);
 
   // Actions
   const fetchMenuItems = async (forceRefresh = false): Promise<void> => {
@@ -0,0 +1,155 @@
+/**
+ * Online Payment
+ *
+ * Pays for an order from the customer's phone through the branch's payment
+ * provider. The provider's webhook settles the intent server-side; this polls
+ * the intent, backing off between attempts, until it succeeds, fails or runs
+ * out of time.
+ */
+
+import { ref, computed, onUnmounted } from "vue";
+import {
+  getPaymentProvider,
+  isFinalIntentStatus,
+  type PaymentIntent,
+} from "@/lib/paymentGateway";
+import { paymentSimulator } from "@/lib/paymentSimulator";
+import { usePaymentGatewayDataStore } from "@/stores/paymentGatewayData";
+import {
+  getTableSessionKey,
+  TableSessionError,
+} from "@/pages/admin/composables/useTableContext";
+
+const POLL_MIN_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 8000;
+
+export const useOnlinePayment = () => {
+  const gatewayStore = usePaymentGatewayDataStore();
+
+  const intent = ref<PaymentIntent | null>(null);
+  const starting = ref(false);
+  const error = ref<string | null>(null);
+
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollDelay = POLL_MIN_DELAY_MS;
+
+  const status = computed(() => intent.value?.status ?? null);
+  const isWaiting = computed(() => status.value === "requires_payment");
+  const isPaid = computed(() => status.value === "succeeded");
+  // The simulated checkout lets the tester pick the outcome
+  const isSimulated = computed(() => intent.value?.provider === paymentSimulator.id);
+
+  const requireSessionKey = (): string => {
+    const sessionKey = getTableSessionKey();
+    if (!sessionKey) {
+      throw new TableSessionError(
+        "SESSION_EXPIRED",
+        "Your table session has ended. Please scan your table QR code again."
+      );
+    }
+    return sessionKey;
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = null;
+    }
+    pollDelay = POLL_MIN_DELAY_MS;
+  };
+
+  const poll = () => {
+    if (pollTimer || !intent.value || isFinalIntentStatus(intent.value.status)) {
+      return;
+    }
+
+    pollTimer = setTimeout(async () => {
+      pollTimer = null;
+      if (!intent.value) return;
+
+      try {
+        intent.value = await getPaymentProvider(intent.value.provider).getIntent(
+          intent.value.id,
+          requireSessionKey()
+        );
+      } catch (err) {
+        console.error("Error checking payment:", err);
+      }
+
+      pollDelay = Math.min(pollDelay * 2, POLL_MAX_DELAY_MS);
+      poll();
+    }, pollDelay);
+  };
+
+  /**
+   * Start paying what is still due on an order
+   */
+  const pay = async (orderId: number): Promise<void> => {
+    try {
+      starting.value = true;
+      error.value = null;
+      stopPolling();
+
+      await gatewayStore.fetchSettings();
+      const provider = getPaymentProvider(gatewayStore.settings.provider);
+
+      intent.value = await provider.createIntent({
+        orderId,
+        sessionKey: requireSessionKey(),
+      });
+
+      if (intent.value.checkout_url) {
+        window.open(intent.value.checkout_url, "_blank");
+      }
+      poll();
+    } catch (err) {
+      console.error("Error starting payment:", err);
+      error.value =
+        err instanceof Error ? err.message : "Could not start the payment";
+      throw err;
+    } finally {
+      starting.value = false;
+    }
+  };
+
+  /**
+   * Answer the simulated checkout as the customer would
+   */
+  const simulate = async (outcome: "succeed" | "fail"): Promise<void> => {
+    if (!intent.value || !isSimulated.value) return;
+
+    try {
+      error.value = null;
+      intent.value = await paymentSimulator.simulate(
+        intent.value.id,
+        requireSessionKey(),
+        outcome
+      );
+    } catch (err) {
+      console.error("Error simulating payment:", err);
+      error.value =
+        err instanceof Error ? err.message : "The simulator could not answer";
+    }
+  };
+
+  const reset = () => {
+    stopPolling();
+    intent.value = null;
+    error.value = null;
+  };
+
+  onUnmounted(stopPolling);
+
+  return {
+    intent,
+    starting,
+    error,
+    status,
+    isWaiting,
+    isPaid,
+    isSimulated,
+    pay,
+    simulate,
+    reset,
+  };
+};
@@ -0,0 +1,161 @@
+/**
+ * Order Status Feed
+ *
+ * Keeps a set of orders up to date while a customer waits. Status changes
+ * arrive over a realtime channel filtered to those order ids; while the
+ * channel is down, the orders are polled instead, backing off between
+ * attempts until the channel reconnects.
+ */
+
+import { ref, computed, onUnmounted } from "vue";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { useOrderDataStore, type OrderWithMeals } from "@/stores/orderData";
+
+const POLL_MIN_DELAY_MS = 2000;
+const POLL_MAX_DELAY_MS = 30000;
+
+export const useOrderStatusFeed = () => {
+  const orderDataStore = useOrderDataStore();
+
+  const orders = ref<OrderWithMeals[]>([]);
+  const orderIds = ref<number[]>([]);
+  const loading = ref(false);
+  const connected = ref(false);
+
+  let channel: RealtimeChannel | null = null;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollDelay = POLL_MIN_DELAY_MS;
+  // Set by stop(); nothing is polled or resubscribed until the next follow()
+  let stopped = false;
+
+  const hasOrders = computed(() => orders.value.length > 0);
+
+  const refresh = async () => {
+    if (orderIds.value.length === 0) {
+      orders.value = [];
+      return;
+    }
+
+    try {
+      loading.value = true;
+      orders.value = await orderDataStore.getOrdersWithMealsByIds(
+        orderIds.value
+      );
+    } catch (error) {
+      console.error("Error fetching order status:", error);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  // Apply a status change pushed over the channel, keeping the loaded items
+  const applyUpdate = (updated: Partial<OrderWithMeals> & { id: number }) => {
+    orders.value = orders.value.map((order) =>
+      order.id === updated.id ? { ...order, ...updated } : order
+    );
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = null;
+    }
+    pollDelay = POLL_MIN_DELAY_MS;
+  };
+
+  const schedulePoll = () => {
+    if (stopped || pollTimer || connected.value) return;
+
+    pollTimer = setTimeout(async () => {
+      pollTimer = null;
+      if (stopped || connected.value) return;
+
+      await refresh();
+      pollDelay = Math.min(pollDelay * 2, POLL_MAX_DELAY_MS);
+      schedulePoll();
+    }, pollDelay);
+  };
+
+  const unsubscribe = () => {
+    // Forget the channel first: removing it reports CLOSED to its callback
+    const closing = channel;
+    channel = null;
+    connected.value = false;
+    if (closing) {
+      supabase.removeChannel(closing);
+    }
+  };
+
+  const subscribe = () => {
+    unsubscribe();
+    if (orderIds.value.length === 0) return;
+
+    const current = supabase
+      .channel(`order_status_${orderIds.value.join("_")}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "orders",
+          filter: `id=in.(${orderIds.value.join(",")})`,
+        },
+        (payload) => {
+          applyUpdate(payload.new as OrderWithMeals & { id: number });
+        }
+      );
+    channel = current;
+
+    current.subscribe((status) => {
+      // A channel we closed ourselves, on stop() or when following others
+      if (channel !== current) return;
+
+      if (status === "SUBSCRIBED") {
+        connected.value = true;
+        stopPolling();
+        // Catch up on anything missed while disconnected
+        refresh();
+      } else {
+        // CHANNEL_ERROR, TIMED_OUT or an unexpected CLOSED: poll until
+        // it rejoins
+        connected.value = false;
+        schedulePoll();
+      }
+    });
+  };
+
+  /**
+   * Start following these orders, replacing any previously followed
+   */
+  const follow = async (ids: number[]) => {
+    stopped = false;
+    stopPolling();
+    orderIds.value = [...ids];
+    await refresh();
+    // Stopped while loading, e.g. the page was left
+    if (stopped) return;
+    subscribe();
+    // Poll until the channel confirms it has joined
+    schedulePoll();
+  };
+
+  const stop = () => {
+    stopped = true;
+    stopPolling();
+    unsubscribe();
+  };
+
+  onUnmounted(stop);
+
+  return {
+    orders,
+    orderIds,
+    loading,
+    connected,
+    hasOrders,
+    follow,
+    refresh,
+    stop,
+  };
+};
@@ -1,55 +1,60 @@
 /**
  * Review Order Composable
  *
- * Handles cart data loading, order fetching, and order processing logic
- * for the ReviewOrder page to reduce component complexity
+ * Handles order fetching and order processing logic for the ReviewOrder
+ * page to reduce component complexity. The cart itself lives in the cart store.
  */
 
 import { ref, computed } from "vue";
-import { useRoute } from "vue-router";
-import { useTableContext } from "@/pages/admin/composables/useTableContext"; 
+import {
+  useTableContext,
+  getTableSessionId,
+  getTableSessionKey,
+  TableSessionError,
+} from "@/pages/admin/composables/useTableContext";
 import { useOrderDataStore, type OrderWithMeals } from "@/stores/orderData";
-import type { MenuItem } from "@/stores/menuData";
+import { useCartDataStore } from "@/stores/cartData";
+import { usePricingDataStore } from "@/stores/pricingData";
+import { priceOrder } from "@/utils/pricing";
+import type { CartLine } from "@/utils/modifiers";
+import { rememberPlacedOrder } from "@/utils/placedOrders";
 
 export function useReviewOrder() {
-  const route = useRoute();
   const { tableId: contextTableId, getCurrentTableId } = useTableContext(); // ← Use table context
   const orderDataStore = useOrderDataStore();
+  const cartStore = useCartDataStore();
+  const pricingStore = usePricingDataStore();
 
   // Reactive data
   const loading = ref(false);
   const loadingOrders = ref(false);
-  const cartItems = ref<MenuItem[]>([]);
   const ordersWithMeals = ref<OrderWithMeals[]>([]);
 
   // Computed properties
-  const tableId = computed(() => {
-    return contextTableId.value || 1; // Default to table 1 if no table ID is set
-  });
-
-  const groupedCartItems = computed(() => {
-    const grouped: { [key: number]: { item: MenuItem; quantity: number } } = {};
-
-    cartItems.value.forEach((item) => {
-      if (grouped[item.id]) {
-        grouped[item.id].quantity += 1;
-      } else {
-        grouped[item.id] = { item, quantity: 1 };
-      }
-    });
+  // No fallback table: orders are only placed through a table session
+  const tableId = computed(() => contextTableId.value);
 
-    return Object.values(grouped);
-  });
+  // Cart lines: units with the same options and instructions share a line
+  const groupedCartItems = computed(() => cartStore.lines);
+  const hasCartItems = computed(() => !cartStore.isEmpty);
 
   const groupedOrderItems = computed(() => {
-    const grouped: { [key: number]: { item: MenuItem; quantity: number } } = {};
+    const grouped: { [key: string]: CartLine } = {};
 
     ordersWithMeals.value.forEach((order) => {
       if (order.meal) {
-        if (grouped[order.meal.id]) {
-          grouped[order.meal.id].quantity += 1;
+        // Lines sold under the same name and price share a row, whether or
+        // not the item is still on the menu
+        const key = `${order.meal.name}|${order.total_amount}`;
+        if (grouped[key]) {
+          grouped[key].quantity += 1;
         } else {
-          grouped[order.meal.id] = { item: order.meal, quantity: 1 };
+          grouped[key] = {
+            key,
+            item: order.meal,
+            quantity: 1,
+            unitPrice: order.total_amount,
+          };
         }
       }
     });
@@ -59,17 +64,16 @@ export function useReviewOrder() {
 
   const displayItems = computed(() => {
     // Show cart items if available (new order), otherwise show database orders
-    const hasCartItems = cartItems.value.length > 0;
     const hasOrderItems = groupedOrderItems.value.length > 0;
 
     console.log(
       "Display items - Cart items:",
-      cartItems.value.length,
+      cartStore.itemCount,
       "Order items:",
       groupedOrderItems.value.length
     );
 
-    if (hasCartItems) {
+    if (hasCartItems.value) {
       console.log("Displaying cart items:", groupedCartItems.value);
       return groupedCartItems.value;
     } else if (hasOrderItems) {
@@ -88,92 +92,46 @@ export function useReviewOrder() {
     );
   });
 
-  const cartTotal = computed(() => {
-    return cartItems.value.reduce(
-      (total: number, item: MenuItem) => total + item.price,
-      0
-    );
-  });
+  // VAT and service charge as the server will price the cart; senior
+  // citizen / PWD discounts are applied by the cashier
+  const cartPricing = computed(() =>
+    priceOrder(
+      cartStore.lines.map((line) => ({
+        amount: line.unitPrice * line.quantity,
+        vat_exempt: line.item.vat_exempt,
+      })),
+      pricingStore.settings
+    )
+  );
+
+  const cartTotal = computed(() => cartPricing.value.total);
 
   const displayTotal = computed(() => {
-    return cartItems.value.length > 0 ? cartTotal.value : orderTotal.value;
+    return hasCartItems.value ? cartTotal.value : orderTotal.value;
   });
 
   const itemCount = computed(() => {
-    return cartItems.value.length > 0
-      ? cartItems.value.length
+    return hasCartItems.value
+      ? cartStore.itemCount
       : ordersWithMeals.value.length;
   });
 
   // Methods
   const initializeTableId = () => {
-    // Table context handles initialization automatically
-    // This method kept for backward compatibility
+    // Table context handles initialization; the cart follows the session
     console.log("Current table ID for orders:", tableId.value);
-  };
-
-  const loadCartData = () => {
-    console.log("=== Loading cart data ===");
-    console.log("Route query:", route.query);
-    console.log("Route meta:", route.meta);
-    console.log("History state:", history.state);
-
-    // Try multiple methods to get cart items
-    let cartDataLoaded = false;
-
-    // Method 1: Check sessionStorage for reviewOrderCartItems (primary)
-    const storedCartItems = sessionStorage.getItem("reviewOrderCartItems");
-    if (storedCartItems) {
-      try {
-        const parsed = JSON.parse(storedCartItems);
-        console.log("Found cart data in reviewOrderCartItems:", parsed);
-        cartItems.value = parsed;
-        cartDataLoaded = true;
-        // Clear from sessionStorage after use
-        sessionStorage.removeItem("reviewOrderCartItems");
-      } catch (error) {
-        console.error("Error parsing reviewOrderCartItems:", error);
-      }
-    }
-
-    // Method 2: Check sessionStorage for general cartItems (backup)
-    if (!cartDataLoaded) {
-      const generalCartItems = sessionStorage.getItem("cartItems");
-      if (generalCartItems) {
-        try {
-          const parsed = JSON.parse(generalCartItems);
-          console.log("Found cart data in cartItems:", parsed);
-          cartItems.value = parsed;
-          cartDataLoaded = true;
-          // Don't clear this one as it might be used elsewhere
-        } catch (error) {
-          console.error("Error parsing cartItems:", error);
-        }
-      }
-    }
-
-    // Method 3: Check route meta (fallback)
-    if (!cartDataLoaded && route.meta?.cartItems) {
-      console.log("Found cart data in route meta:", route.meta.cartItems);
-      cartItems.value = route.meta.cartItems as MenuItem[];
-      cartDataLoaded = true;
-    }
-
-    // Method 4: Check history state (fallback)
-    if (!cartDataLoaded && history.state?.cartItems) {
-      console.log("Found cart data in history state:", history.state.cartItems);
-      cartItems.value = history.state.cartItems;
-      cartDataLoaded = true;
-    }
-
-    console.log("Final cart items loaded:", cartItems.value);
-    console.log("Cart data loaded successfully:", cartDataLoaded);
+    getCurrentTableId();
+    cartStore.bindSession(getTableSessionId());
   };
 
   const fetchOrdersForTable = async () => {
     try {
       loadingOrders.value = true;
       const currentTableId = tableId.value;
+      if (!currentTableId) {
+        ordersWithMeals.value = [];
+        return;
+      }
       console.log("Fetching orders for table:", currentTableId);
       const orders = await orderDataStore.getOrdersByTableWithMeals(
         currentTableId
@@ -187,33 +145,45 @@ export function useReviewOrder() {
   };
 
   const createOrder = async () => {
-    if (cartItems.value.length === 0) {
+    if (cartStore.isEmpty) {
       return null;
     }
 
+    // The server places the order for the table of this session
+    const sessionKey = getTableSessionKey();
+    if (!sessionKey) {
+      throw new TableSessionError(
+        "SESSION_EXPIRED",
+        "Your table session has ended. Please scan your table QR code again."
+      );
+    }
+
     // 🔥 CRITICAL FIX: Get the actual table ID from context
     const actualTableId = getCurrentTableId();
     
     console.log("📝 Creating order for table:", actualTableId);
-    console.log("📦 Cart items:", cartItems.value);
 
     // Store item count for the waiting page
     sessionStorage.setItem(
       "lastOrderItemCount",
-      cartItems.value.length.toString()
+      cartStore.itemCount.toString()
     );
 
-    // Create single order with order_items table - pass the ACTUAL table ID
     const order = await orderDataStore.createOrderWithItems(
-      cartItems.value,
-      actualTableId  // ← Use the actual table ID from context!
+      cartStore.lines,
+      sessionKey
     );
     
     console.log("✅ Order created successfully:", order);
     console.log("✅ Order table_id:", order?.table_id);
 
-    // Clear cart items after successful order creation
-    cartItems.value = [];
+    // The waiting page follows the orders placed from this device
+    if (order?.id) {
+      rememberPlacedOrder(actualTableId, order.id);
+    }
+
+    // Clear the cart after successful order creation
+    cartStore.clear();
 
     // Refresh the orders list to show the new orders
     await fetchOrdersForTable();
@@ -222,29 +192,29 @@ export function useReviewOrder() {
   };
 
   const clearCart = () => {
-    cartItems.value = [];
+    cartStore.clear();
   };
 
   return {
     // State
     loading,
     loadingOrders,
-    cartItems,
     ordersWithMeals,
 
     // Computed
     tableId,
     groupedCartItems,
+    hasCartItems,
     groupedOrderItems,
     displayItems,
     orderTotal,
+    cartPricing,
     cartTotal,
     displayTotal,
     itemCount,
 
     // Methods
     initializeTableId,
-    loadCartData,
     fetchOrdersForTable,
     createOrder,
     clearCart,
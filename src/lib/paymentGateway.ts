@@ -0,0 +1,138 @@
+/**
+ * Payment Gateway
+ *
+ * The interface every online payment provider (e-wallet / QR) implements, and
+ * the registry the app picks the branch's provider from. Intents live in the
+ * `payment_intents` table: a provider creates one for an order, the customer
+ * pays on the provider's checkout, and the provider's webhook confirms it
+ * server-side while the phone polls for the result.
+ */
+
+export type PaymentIntentStatus =
+  | "requires_payment"
+  | "succeeded"
+  | "failed"
+  | "expired"
+  | "refunded";
+
+export interface PaymentIntent {
+  id: string;
+  order_id: number;
+  provider: string;
+  provider_ref: string | null;
+  amount: number;
+  status: PaymentIntentStatus;
+  checkout_url: string | null;
+  failure_reason: string | null;
+  expires_at: string;
+  confirmed_at: string | null;
+  refunded_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A `payment_intents` row as returned by Supabase, before its amount is
+ * converted
+ */
+export interface PaymentIntentRow extends Omit<PaymentIntent, "amount"> {
+  amount: number | string;
+}
+
+export interface CreateIntentRequest {
+  orderId: number;
+  // Table session the order was placed through
+  sessionKey: string;
+}
+
+export interface PaymentProvider {
+  readonly id: string;
+  readonly label: string;
+  // Shown to admins next to the provider, e.g. "For development only"
+  readonly description: string;
+  /**
+   * Start a payment for what is still due on an order
+   */
+  createIntent(request: CreateIntentRequest): Promise<PaymentIntent>;
+  /**
+   * Current state of an intent, for polling until the webhook lands
+   */
+  getIntent(intentId: string, sessionKey: string): Promise<PaymentIntent>;
+  /**
+   * Give a successful payment back; staff only
+   */
+  refund(intentId: string): Promise<PaymentIntent>;
+}
+
+export class PaymentGatewayError extends Error {
+  readonly code: "PROVIDER_UNAVAILABLE" | "PAYMENT_FAILED";
+
+  constructor(code: PaymentGatewayError["code"], message: string) {
+    super(message);
+    this.name = "PaymentGatewayError";
+    this.code = code;
+  }
+}
+
+export const FINAL_INTENT_STATUSES: PaymentIntentStatus[] = [
+  "succeeded",
+  "failed",
+  "expired",
+  "refunded",
+];
+
+export const INTENT_STATUSES: Record<
+  PaymentIntentStatus,
+  { label: string; color: string; icon: string }
+> = {
+  requires_payment: { label: "Waiting for payment", color: "warning", icon: "mdi-timer-sand" },
+  succeeded: { label: "Paid", color: "success", icon: "mdi-check-circle" },
+  failed: { label: "Failed", color: "error", icon: "mdi-close-circle" },
+  expired: { label: "Timed out", color: "grey", icon: "mdi-timer-off-outline" },
+  refunded: { label: "Refunded", color: "info", icon: "mdi-cash-refund" },
+};
+
+export function isFinalIntentStatus(status: PaymentIntentStatus): boolean {
+  return FINAL_INTENT_STATUSES.includes(status);
+}
+
+/**
+ * Whether a pay-first order is still waiting to be paid before it can go to
+ * the kitchen
+ */
+export function isAwaitingOnlinePayment(order: {
+  status: string;
+  payment_required?: boolean;
+}): boolean {
+  return !!order.payment_required && order.status === "pending";
+}
+
+/**
+ * A `payment_intents` row with its amount as a number
+ */
+export function toPaymentIntent(row: PaymentIntentRow): PaymentIntent {
+  return { ...row, amount: Number(row.amount) };
+}
+
+// Provider setting of a branch that takes no online payments
+export const NO_PAYMENT_PROVIDER = "none";
+
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getPaymentProviders(): PaymentProvider[] {
+  return [...providers.values()];
+}
+
+export function getPaymentProvider(id: string): PaymentProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new PaymentGatewayError(
+      "PROVIDER_UNAVAILABLE",
+      "Online payment is not available right now. Please pay at the counter."
+    );
+  }
+  return provider;
+}
@@ -0,0 +1,127 @@
+/**
+ * Payment Simulator
+ *
+ * A payment provider for development and tests that never moves money. It
+ * can be told to succeed, fail or time out on its own after a short delay,
+ * or left on "manual" so whoever is testing picks the outcome on the
+ * simulated checkout. The database only accepts its results from a
+ * signed-in tester while the branch is set to use the simulator, and the
+ * app only offers it in development and test builds (see plugins/payments).
+ */
+
+import { supabase } from "@/lib/supabase";
+import {
+  PaymentGatewayError,
+  toPaymentIntent,
+  type CreateIntentRequest,
+  type PaymentIntent,
+  type PaymentProvider,
+} from "@/lib/paymentGateway";
+
+export type SimulatorOutcome = "succeed" | "fail" | "timeout" | "manual";
+
+export interface SimulatorOptions {
+  outcome: SimulatorOutcome;
+  // How long the simulated customer takes to pay
+  delayMs: number;
+  // Lifetime of intents when the outcome is "timeout"
+  timeoutSeconds: number;
+}
+
+export const SIMULATOR_OUTCOMES: { value: SimulatorOutcome; label: string }[] = [
+  { value: "manual", label: "Ask on checkout" },
+  { value: "succeed", label: "Always succeed" },
+  { value: "fail", label: "Always fail" },
+  { value: "timeout", label: "Always time out" },
+];
+
+const envOutcome = import.meta.env.VITE_PAYMENT_SIMULATOR_OUTCOME;
+
+const options: SimulatorOptions = {
+  outcome: SIMULATOR_OUTCOMES.some((option) => option.value === envOutcome)
+    ? (envOutcome as SimulatorOutcome)
+    : "manual",
+  delayMs: 1500,
+  timeoutSeconds: 30,
+};
+
+/**
+ * Change how the simulator answers from now on
+ */
+export function configurePaymentSimulator(overrides: Partial<SimulatorOptions>): void {
+  Object.assign(options, overrides);
+}
+
+export function getPaymentSimulatorOptions(): SimulatorOptions {
+  return { ...options };
+}
+
+const callIntentRpc = async (
+  fn: string,
+  params: Record<string, unknown>
+): Promise<PaymentIntent> => {
+  const { data, error } = await supabase.rpc(fn, params);
+
+  if (error) {
+    throw new PaymentGatewayError(
+      error.hint === "PROVIDER_UNAVAILABLE" ? "PROVIDER_UNAVAILABLE" : "PAYMENT_FAILED",
+      error.message
+    );
+  }
+
+  return toPaymentIntent(data);
+};
+
+/**
+ * Answer for the simulated customer, as the provider's webhook would
+ */
+const simulate = (
+  intentId: string,
+  sessionKey: string,
+  outcome: "succeed" | "fail"
+): Promise<PaymentIntent> =>
+  callIntentRpc("simulate_payment_result", {
+    p_session_key: sessionKey,
+    p_intent_id: intentId,
+    p_outcome: outcome,
+  });
+
+export const paymentSimulator: PaymentProvider & { simulate: typeof simulate } = {
+  id: "simulator",
+  label: "Payment simulator",
+  description: "For development and testing; no money is taken.",
+
+  async createIntent({ orderId, sessionKey }: CreateIntentRequest) {
+    const intent = await callIntentRpc("create_payment_intent", {
+      p_session_key: sessionKey,
+      p_order_id: orderId,
+      p_provider: "simulator",
+      p_expires_in_seconds:
+        options.outcome === "timeout" ? options.timeoutSeconds : 900,
+    });
+
+    const outcome = options.outcome;
+    if (outcome === "succeed" || outcome === "fail") {
+      setTimeout(() => {
+        simulate(intent.id, sessionKey, outcome).catch((error) =>
+          console.error("Payment simulator could not answer:", error)
+        );
+      }, options.delayMs);
+    }
+
+    return intent;
+  },
+
+  getIntent(intentId: string, sessionKey: string) {
+    return callIntentRpc("get_payment_intent", {
+      p_session_key: sessionKey,
+      p_intent_id: intentId,
+    });
+  },
+
+  refund(intentId: string) {
+    return callIntentRpc("refund_payment_intent", { p_intent_id: intentId });
+  },
+
+  simulate,
+};
@@ -2,7 +2,9 @@
  * Table Context Composable
  * 
  * Manages the table context throughout the customer ordering flow.
- * Captures table ID from URL query parameter and persists it in sessionStorage.
+ * The table comes from a table session, opened by scanning the signed QR
+ * code on the table, and is persisted in sessionStorage. There is no default
+ * table: without a session the customer is asked to scan their table's QR.
  * 
  * Usage:
  * import { useTableContext } from '@/composables/useTableContext';
@@ -11,18 +13,138 @@
  */
 
 import { ref, computed, onMounted } from 'vue';
-import { useRoute } from 'vue-router';
+import { supabase } from '@/lib/supabase';
 
-const STORAGE_KEY = 'customer_table_id';
-const DEFAULT_TABLE = 1;
+const STORAGE_KEY = 'customer_table_session';
+// Table id before sessions, only cleaned up now
+const LEGACY_STORAGE_KEY = 'customer_table_id';
+const NO_TABLE = 0;
+
+export interface TableSession {
+  tableId: number;
+  // Sessions stored before the id was returned have none
+  sessionId?: number;
+  sessionKey: string;
+  expiresAt: string;
+}
+
+/**
+ * Raised when a QR token is forged or rotated, or a session has ended
+ */
+export class TableSessionError extends Error {
+  readonly code: 'INVALID_TABLE_TOKEN' | 'SESSION_EXPIRED';
+
+  constructor(code: TableSessionError['code'], message: string) {
+    super(message);
+    this.name = 'TableSessionError';
+    this.code = code;
+  }
+}
 
 // Shared state across all instances
-const currentTableId = ref<number>(DEFAULT_TABLE);
+const currentTableId = ref<number>(NO_TABLE);
 const isInitialized = ref<boolean>(false);
 
-export const useTableContext = () => {
-  const route = useRoute();
+/**
+ * Load the table session from sessionStorage, dropping it once expired
+ */
+const loadSession = (): TableSession | null => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const session: TableSession = JSON.parse(stored);
+      if (new Date(session.expiresAt).getTime() > Date.now()) {
+        return session;
+      }
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error loading table session:', error);
+  }
+  return null;
+};
+
+/**
+ * Whether this device has a live table session
+ */
+export const hasTableSession = (): boolean => loadSession() !== null;
+
+/**
+ * Key the server checks before accepting an order, or null without a session
+ */
+export const getTableSessionKey = (): string | null =>
+  loadSession()?.sessionKey ?? null;
+
+/**
+ * Id of this device's table session, or null without one; the cart is saved
+ * under it
+ */
+export const getTableSessionId = (): number | null =>
+  loadSession()?.sessionId ?? null;
+
+/**
+ * Open (or join) a table's session from the token in its QR code
+ */
+export const openTableSession = async (
+  tableId: number,
+  token: string
+): Promise<TableSession> => {
+  const { data, error } = await supabase.rpc('open_table_session', {
+    p_table_number: tableId,
+    p_token: token,
+  });
+
+  if (error) {
+    if (error.hint === 'INVALID_TABLE_TOKEN') {
+      throw new TableSessionError('INVALID_TABLE_TOKEN', error.message);
+    }
+    throw new Error(error.message || 'Failed to open table session');
+  }
+
+  const session: TableSession = {
+    tableId: data.table_number,
+    sessionId: data.session_id,
+    sessionKey: data.session_key,
+    expiresAt: data.expires_at,
+  };
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  sessionStorage.removeItem(LEGACY_STORAGE_KEY);
+  currentTableId.value = session.tableId;
+  isInitialized.value = true;
+  console.log('✅ Table session opened for table:', session.tableId);
+  return session;
+};
+
+/**
+ * Keep the stored session until the server's new expiry, which placing an
+ * order pushes back
+ */
+export const extendTableSession = (expiresAt: string): void => {
+  const session = loadSession();
+  if (!session || !expiresAt) return;
+
+  sessionStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({ ...session, expiresAt })
+  );
+};
+
+/**
+ * Forget the table session, e.g. once the server reports it has ended
+ */
+export const clearTableSession = (): void => {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+    sessionStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing table session:', error);
+  }
+  currentTableId.value = NO_TABLE;
+  isInitialized.value = false;
+  console.log('🗑️ Table session cleared');
+};
 
+export const useTableContext = () => {
   /**
    * Check if we have a valid table context
    */
@@ -36,59 +158,7 @@ export const useTableContext = () => {
   const tableId = computed(() => currentTableId.value);
 
   /**
-   * Load table ID from sessionStorage
-   */
-  const loadFromStorage = (): number | null => {
-    try {
-      const stored = sessionStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = parseInt(stored, 10);
-        if (!isNaN(parsed) && parsed > 0) {
-          console.log('📍 Loaded table from storage:', parsed);
-          return parsed;
-        }
-      }
-    } catch (error) {
-      console.error('Error loading table from storage:', error);
-    }
-    return null;
-  };
-
-  /**
-   * Save table ID to sessionStorage
-   */
-  const saveToStorage = (tableId: number): void => {
-    try {
-      sessionStorage.setItem(STORAGE_KEY, tableId.toString());
-      console.log('💾 Saved table to storage:', tableId);
-    } catch (error) {
-      console.error('Error saving table to storage:', error);
-    }
-  };
-
-  /**
-   * Parse table ID from URL query parameter
-   */
-  const parseFromUrl = (): number | null => {
-    const tableParam = route.query.table;
-    
-    if (tableParam) {
-      const parsed = parseInt(tableParam as string, 10);
-      
-      if (!isNaN(parsed) && parsed > 0) {
-        console.log('🔗 Parsed table from URL:', parsed);
-        return parsed;
-      } else {
-        console.warn('⚠️ Invalid table parameter in URL:', tableParam);
-      }
-    }
-    
-    return null;
-  };
-
-  /**
-   * Initialize table context
-   * Priority: URL parameter > sessionStorage > default
+   * Initialize table context from the stored table session
    */
   const initializeTable = (): void => {
     if (isInitialized.value) {
@@ -96,65 +166,32 @@ export const useTableContext = () => {
       return;
     }
 
-    // Try to get from URL first
-    let tableFromUrl = parseFromUrl();
-    
-    if (tableFromUrl) {
-      currentTableId.value = tableFromUrl;
-      saveToStorage(tableFromUrl);
-      isInitialized.value = true;
-      console.log('✅ Table initialized from URL:', currentTableId.value);
-      return;
-    }
-
-    // Try to get from storage
-    let tableFromStorage = loadFromStorage();
-    
-    if (tableFromStorage) {
-      currentTableId.value = tableFromStorage;
+    const session = loadSession();
+    if (session) {
+      currentTableId.value = session.tableId;
       isInitialized.value = true;
-      console.log('✅ Table initialized from storage:', currentTableId.value);
+      console.log('✅ Table initialized from session:', currentTableId.value);
       return;
     }
 
-    // Use default
-    currentTableId.value = DEFAULT_TABLE;
-    saveToStorage(DEFAULT_TABLE);
-    isInitialized.value = true;
-    console.warn('⚠️ No table parameter found, using default:', DEFAULT_TABLE);
-  };
-
-  /**
-   * Set table ID manually
-   */
-  const setTableId = (newTableId: number): void => {
-    if (newTableId > 0) {
-      currentTableId.value = newTableId;
-      saveToStorage(newTableId);
-      console.log('📝 Table ID set manually:', newTableId);
-    } else {
-      console.error('❌ Invalid table ID:', newTableId);
-    }
+    currentTableId.value = NO_TABLE;
+    console.warn('⚠️ No table session found; the table QR must be scanned');
   };
 
   /**
    * Clear table context (after order completion)
    */
   const clearTable = (): void => {
-    try {
-      sessionStorage.removeItem(STORAGE_KEY);
-      currentTableId.value = DEFAULT_TABLE;
-      isInitialized.value = false;
-      console.log('🗑️ Table context cleared');
-    } catch (error) {
-      console.error('Error clearing table context:', error);
-    }
+    clearTableSession();
   };
 
   /**
    * Get current table ID (non-reactive)
    */
   const getCurrentTableId = (): number => {
+    if (!isInitialized.value) {
+      initializeTable();
+    }
     return currentTableId.value;
   };
 
@@ -172,7 +209,6 @@ export const useTableContext = () => {
     
     // Methods
     initializeTable,
-    setTableId,
     clearTable,
     getCurrentTableId,
   };
@@ -183,16 +219,5 @@ export const useTableContext = () => {
  * Useful for stores or utilities that can't use composables
  */
 export const getGlobalTableId = (): number => {
-  try {
-    const stored = sessionStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const parsed = parseInt(stored, 10);
-      if (!isNaN(parsed) && parsed > 0) {
-        return parsed;
-      }
-    }
-  } catch (error) {
-    console.error('Error getting global table ID:', error);
-  }
-  return DEFAULT_TABLE;
-};
\ No newline at end of file
+  return loadSession()?.tableId ?? NO_TABLE;
+};
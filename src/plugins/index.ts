@@ -9,6 +9,7 @@ import vuetify, { initializeDynamicThemes } from './vuetify'
 import pinia from '../stores'
 import router from '../router'
 import toast from './toast'
+import payments from './payments'
 
 // Types
 import type { App } from 'vue'
@@ -20,6 +21,7 @@ export function registerPlugins (app: App) {
     .use(pinia)
 
   toast(app)
+  payments()
 
   // Initialize dynamic themes after vuetify is registered
   initializeDynamicThemes().catch(error => {
@@ -0,0 +1,18 @@
+/**
+ * plugins/payments.ts
+ *
+ * Registers the online payment providers the branch can choose from. A new
+ * provider also needs its webhook and its id added to the
+ * payment_settings_provider_check constraint.
+ */
+
+import { registerPaymentProvider } from '@/lib/paymentGateway'
+import { paymentSimulator } from '@/lib/paymentSimulator'
+
+export default function () {
+  // The simulator takes no money, so it is only offered in development builds
+  // or where VITE_ENABLE_PAYMENT_SIMULATOR is set, e.g. for tests
+  if (import.meta.env.DEV || import.meta.env.VITE_ENABLE_PAYMENT_SIMULATOR === 'true') {
+    registerPaymentProvider(paymentSimulator)
+  }
+}
@@ -1,6 +1,11 @@
 import { useToast } from "vue-toastification";
 import { useAuthUserStore } from "@/stores/authUser";
 import { useUserPagesStore } from "@/stores/pages";
+import {
+  hasTableSession,
+  openTableSession,
+  TableSessionError,
+} from "@/pages/admin/composables/useTableContext";
 import type {
   RouteLocationNormalized,
   NavigationGuardNext,
@@ -96,6 +101,42 @@ export const authGuard = async (
   next();
 };
 
+/**
+ * Customer pages need a table session, opened by scanning the signed QR code
+ * on the table (`?table=5&t=<token>`). Without one, customers are sent to the
+ * scan screen instead of ordering to a default table.
+ */
+export const tableSessionGuard = async (
+  to: RouteLocationNormalized,
+  from: RouteLocationNormalized,
+  next: NavigationGuardNext
+) => {
+  if (!to.path.startsWith("/customer/") || to.path === "/customer/scan") {
+    return next();
+  }
+
+  const { t: token, ...query } = to.query;
+  const table = to.query.table;
+
+  if (typeof table === "string" && typeof token === "string") {
+    try {
+      await openTableSession(parseInt(table, 10), token);
+      // Keep the token out of the address bar and shared links
+      return next({ path: to.path, query, hash: to.hash, replace: true });
+    } catch (error) {
+      console.error("Error opening table session:", error);
+      const reason = error instanceof TableSessionError ? "invalid" : "error";
+      return next({ path: "/customer/scan", query: { reason } });
+    }
+  }
+
+  if (hasTableSession()) {
+    return next();
+  }
+
+  return next({ path: "/customer/scan", query: { reason: "missing" } });
+};
+
 /**
  * Error handler for router errors, particularly dynamic import failures
  */
@@ -117,8 +158,9 @@ export const errorHandler = (err: any, to: RouteLocationNormalized) => {
  * Setup guards for the router instance
  */
 export const setupGuards = (router: Router) => {
-  // Setup navigation guard
+  // Setup navigation guards
   router.beforeEach(authGuard);
+  router.beforeEach(tableSessionGuard);
 
   // Setup error handler
   router.onError(errorHandler);
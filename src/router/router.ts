@@ -10,6 +10,12 @@ import ForbiddenView from "@/pages/ForbiddenView.vue";
 import AdminUserRolesView from "@/pages/admin/AdminUserRolesView.vue";
 import UserManagementView from "@/pages/admin/UserManagementView.vue";
 import InventoryView from "@/pages/admin/InventoryView.vue";
+import IngredientsView from "@/pages/admin/IngredientsView.vue";
+import BundlesView from "@/pages/admin/BundlesView.vue";
+import MenuSchedulesView from "@/pages/admin/MenuSchedulesView.vue";
+import TablesView from "@/pages/admin/TablesView.vue";
+import FloorPlanView from "@/pages/admin/FloorPlanView.vue";
+import PaymentSettingsView from "@/pages/admin/PaymentSettingsView.vue";
 import TableQRCodeGenerator from "@/pages/admin/components/TableQRCodeGenerator.vue";
 
 import LandingPage from "@/pages/customer/LandingPage.vue";
@@ -20,9 +26,11 @@ import WaitingPage from "@/pages/customer/WaitingPage.vue";
 // Cashier imports
 import CashierOrdersView from "@/pages/cashier/CashierOrdersView.vue";
 import CashierHistoryView from "@/pages/cashier/CashierHistoryView.vue";
+import FloorView from "@/pages/cashier/FloorView.vue";
 
 // Server imports
 import KitchenOrdersView from "@/pages/kitchen/KitchenOrdersView.vue";
+import PrepListView from "@/pages/kitchen/PrepListView.vue";
 
 // Sales imports
 import SalesView from "@/pages/sales/SalesView.vue";
@@ -64,6 +72,10 @@ const routes = setupLayouts([
     path: "/customer/menu",
     component: Menu,
   },
+  {
+    path: "/customer/scan",
+    component: () => import("@/pages/customer/ScanTablePage.vue"),
+  },
 
   // Account routes
   {
@@ -78,12 +90,42 @@ const routes = setupLayouts([
     component: InventoryView,
     meta: { requiresAuth: true },
   },
+  {
+    path: "/admin/ingredients",
+    component: IngredientsView,
+    meta: { requiresAuth: true },
+  },
+  {
+    path: "/admin/bundles",
+    component: BundlesView,
+    meta: { requiresAuth: true },
+  },
+  {
+    path: "/admin/menu-schedules",
+    component: MenuSchedulesView,
+    meta: { requiresAuth: true },
+  },
+  {
+    path: "/admin/tables",
+    component: TablesView,
+    meta: { requiresAuth: true },
+  },
+  {
+    path: "/admin/floor-plan",
+    component: FloorPlanView,
+    meta: { requiresAuth: true },
+  },
   {
     path: "/admin/qr-generator",
     name: "QRCodeGenerator",
     component: TableQRCodeGenerator,
     meta: { requiresAuth: true },
   },
+  {
+    path: "/admin/payment-settings",
+    component: PaymentSettingsView,
+    meta: { requiresAuth: true },
+  },
   {
     path: "/admin/user-roles",
     component: AdminUserRolesView,
@@ -116,6 +158,16 @@ const routes = setupLayouts([
       title: "Cashier - Order History",
     },
   },
+  {
+    path: "/cashier/floor",
+    name: "FloorView",
+    component: FloorView,
+    meta: {
+      requiresAuth: true,
+      allowedRoles: [1, 3, 4], // Admin, Cashier and Server Staff
+      title: "Floor - Live Tables",
+    },
+  },
 
   // Server routes
   {
@@ -128,6 +180,16 @@ const routes = setupLayouts([
       title: "Server - Order Management",
     },
   },
+  {
+    path: "/server/prep-list",
+    name: "PrepList",
+    component: PrepListView,
+    meta: {
+      requiresAuth: true,
+      allowedRoles: [1, 2, 4], // Admin, Sales Dashboard users and Server Staff
+      title: "Server - Prep List",
+    },
+  },
 
   // Sales routes
   {
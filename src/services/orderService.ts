@@ -11,6 +11,9 @@
 
 import { supabase } from "@/lib/supabase";
 import type { MenuItem } from "@/stores/menuData";
+import type { OrderStatus } from "@/utils/orderLifecycle";
+import type { OrderLineModifier } from "@/utils/modifiers";
+import type { OrderBundle } from "@/utils/bundles";
 
 export interface OrderItem {
   id: number;
@@ -26,19 +29,20 @@ export interface OrderItemDB {
   order_id: number;
   meal_id: number;
   quantity: number;
+  // Options chosen for this line, snapshotted when the order was placed
+  modifiers?: OrderLineModifier[];
+  special_instructions?: string | null;
+  // Set on the components of a bundle, with their share of its price
+  order_bundle_id?: number | null;
+  allocated_amount?: number | null;
+  order_bundle?: OrderBundle | null;
   created_at?: string;
 }
 
 export interface Order {
   id?: number;
   created_at?: string;
-  status:
-    | "pending"
-    | "confirmed"
-    | "preparing"
-    | "ready"
-    | "completed"
-    | "cancelled";
+  status: OrderStatus;
   total_amount: number;
   table_id: number;
   meal_id?: number; // Back to single ID for main order
@@ -258,32 +262,9 @@ export const getOrderWithMeals = async (
 // NOTE: getLatestOrderByTableWithMeals has been moved to stores/orderData.ts
 // Use useOrderDataStore().getLatestOrderByTableWithMeals() instead
 
-/**
- * Update order status
- */
-export const updateOrderStatus = async (
-  orderId: number,
-  status: Order["status"]
-): Promise<Order | null> => {
-  try {
-    const { data, error } = await supabase
-      .from("orders")
-      .update({ status })
-      .eq("id", orderId)
-      .select()
-      .single();
-
-    if (error) {
-      console.error("Error updating order status:", error);
-      throw new Error(`Failed to update order status: ${error.message}`);
-    }
-
-    return data;
-  } catch (error) {
-    console.error("Update order status error:", error);
-    throw error;
-  }
-};
+// NOTE: updateOrderStatus has been moved to stores/orderData.ts, where every
+// status change goes through transitionOrder
+// Use useOrderDataStore().updateOrderStatus() instead
 
 /**
  * Get all orders for a specific table
@@ -308,11 +289,7 @@ export const getOrdersByTable = async (tableId: number): Promise<Order[]> => {
   }
 };
 
-/**
- * Cancel an order
- */
-export const cancelOrder = async (orderId: number): Promise<Order | null> => {
-  return updateOrderStatus(orderId, "cancelled");
-};
+// NOTE: cancelOrder has been moved to stores/orderData.ts
+// Use useOrderDataStore().cancelOrder() instead
 
 // NOTE: Utility functions have been moved to stores/orderData.ts
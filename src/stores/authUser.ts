@@ -13,6 +13,9 @@ interface UserData {
   role_id?: number;
 }
 
+// Branch used until the user is assigned to one
+const DEFAULT_BRANCH_ID = 1;
+
 interface SessionUser {
   id: string;
   email?: string;
@@ -33,6 +36,7 @@ export const useAuthUserStore = defineStore("authUser", () => {
   const userEmail = computed(() => userData.value?.email || null);
   const userName = computed(() => userData.value?.user_metadata?.full_name || userData.value?.email || null);
   const userRole = computed(() => userData.value?.user_metadata?.role || null);
+  const currentBranchId = computed(() => authBranchIds.value[0] ?? DEFAULT_BRANCH_ID);
 
  async function registerUser(
     email: string,
@@ -358,6 +362,7 @@ export const useAuthUserStore = defineStore("authUser", () => {
     userEmail,
     userName,
     userRole,
+    currentBranchId,
 
     // Actions
     registerUser,
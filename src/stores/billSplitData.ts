@@ -0,0 +1,159 @@
+/**
+ * Bill Split Data Store
+ *
+ * Manages the payer shares of an order whose bill is split by item, by seat
+ * or evenly. Each share is paid on its own (see the payment data store) and
+ * gets its own receipt; the order itself can only be completed once every
+ * share is paid.
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import { supabase } from "@/lib/supabase";
+import type {
+  BillShare,
+  BillShareDraft,
+  SplitMethod,
+} from "@/utils/billSplit";
+
+export const useBillSplitDataStore = defineStore("billSplitData", () => {
+  // State
+  const orderId = ref<number | null>(null);
+  const shares = ref<BillShare[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Getters
+  const isSplit = computed(() => shares.value.length > 0);
+
+  const paidCount = computed(
+    () => shares.value.filter((share) => share.paid_at).length
+  );
+
+  const allPaid = computed(
+    () => isSplit.value && paidCount.value === shares.value.length
+  );
+
+  const outstandingAmount = computed(() =>
+    shares.value
+      .filter((share) => !share.paid_at)
+      .reduce((total, share) => total + Number(share.amount), 0)
+  );
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch the shares of an order, with the order lines each one pays for
+   */
+  const fetchShares = async (id: number): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+      orderId.value = id;
+
+      const { data, error: fetchError } = await supabase
+        .from("bill_shares")
+        .select("*, items:bill_share_items(order_item_id, quantity)")
+        .eq("order_id", id)
+        .order("payer_no");
+
+      if (fetchError) throw fetchError;
+
+      shares.value = (data || []).map((share) => ({
+        ...share,
+        amount: Number(share.amount),
+      }));
+    } catch (err) {
+      console.error("Error fetching bill shares:", err);
+      error.value = "Failed to load the split bill";
+      shares.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Replace the order's split; fails once any share has been paid
+   */
+  const saveSplit = async (
+    id: number,
+    method: SplitMethod,
+    drafts: BillShareDraft[]
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: splitError } = await supabase.rpc("split_order_bill", {
+        p_order_id: id,
+        p_method: method,
+        p_shares: drafts,
+      });
+
+      if (splitError) {
+        throw new Error(splitError.message);
+      }
+
+      await fetchShares(id);
+    } catch (err) {
+      console.error("Error in saveSplit:", err);
+      error.value = err instanceof Error ? err.message : "Failed to split bill";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Go back to a single bill for the order
+   */
+  const clearSplit = async (id: number): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: clearError } = await supabase.rpc(
+        "clear_order_bill_split",
+        { p_order_id: id }
+      );
+
+      if (clearError) {
+        throw new Error(clearError.message);
+      }
+
+      shares.value = [];
+    } catch (err) {
+      console.error("Error in clearSplit:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to merge the bill";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    orderId,
+    shares,
+    loading,
+    saving,
+    error,
+
+    // Getters
+    isSplit,
+    paidCount,
+    allPaid,
+    outstandingAmount,
+
+    // Actions
+    clearError,
+    fetchShares,
+    saveSplit,
+    clearSplit,
+  };
+});
@@ -0,0 +1,264 @@
+/**
+ * Bundle Data Store
+ *
+ * Manages combo meals and bundles: the bundle itself, its slots (fixed dishes
+ * or choices such as "any beverage") and how many can still be sold. Slots are
+ * replaced as a whole through the `set_bundle_slots` RPC.
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import { supabase } from "@/lib/supabase";
+import { sortBundleSlots, type Bundle } from "@/utils/bundles";
+
+export interface BundleFormData {
+  name: string;
+  description: string;
+  price: number;
+  is_active: boolean;
+}
+
+export interface BundleSlotDraft {
+  name: string;
+  quantity: number;
+  category: string | null;
+  meal_ids: number[];
+}
+
+/**
+ * Editable copy of a bundle's saved slots
+ */
+export function toBundleSlotDrafts(bundle: Bundle): BundleSlotDraft[] {
+  return sortBundleSlots(bundle.bundle_slots).map((slot) => ({
+    name: slot.name,
+    quantity: slot.quantity,
+    category: slot.category,
+    meal_ids: slot.bundle_slot_items.map((item) => item.meal_id),
+  }));
+}
+
+/**
+ * Returns an error message for the first invalid slot, or null
+ */
+export function validateBundleSlotDrafts(
+  drafts: BundleSlotDraft[]
+): string | null {
+  if (drafts.length === 0) return "A bundle needs at least one item";
+  for (const slot of drafts) {
+    if (!slot.name.trim()) return "Every bundle item needs a name";
+    if (!slot.quantity || slot.quantity < 1) {
+      return `"${slot.name}" needs a quantity of at least 1`;
+    }
+    if (!slot.category && slot.meal_ids.length === 0) {
+      return `Choose at least one menu item or a category for "${slot.name}"`;
+    }
+  }
+  return null;
+}
+
+export const useBundleDataStore = defineStore("bundleData", () => {
+  // State
+  const bundles = ref<Bundle[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Getters
+  const activeBundles = computed(() =>
+    bundles.value.filter((bundle) => bundle.is_active)
+  );
+
+  const getBundleById = (id: number): Bundle | undefined => {
+    return bundles.value.find((bundle) => bundle.id === id);
+  };
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch bundles with their slots and how many can still be sold
+   */
+  const fetchBundles = async (): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      const [bundleResult, availabilityResult] = await Promise.all([
+        supabase
+          .from("bundles")
+          .select("*, bundle_slots(*, bundle_slot_items(*))")
+          .order("name"),
+        supabase.from("bundle_availability").select("bundle_id, available"),
+      ]);
+
+      if (bundleResult.error) throw bundleResult.error;
+      if (availabilityResult.error) throw availabilityResult.error;
+
+      const availableByBundle = new Map<number, number>(
+        (availabilityResult.data || []).map((row) => [
+          row.bundle_id,
+          row.available,
+        ])
+      );
+
+      bundles.value = (bundleResult.data || []).map((bundle) => ({
+        ...bundle,
+        price: Number(bundle.price),
+        bundle_slots: sortBundleSlots(bundle.bundle_slots || []),
+        available: availableByBundle.get(bundle.id) ?? 0,
+      }));
+    } catch (err) {
+      console.error("Error fetching bundles:", err);
+      error.value = "Failed to load bundles. Please try again later.";
+      bundles.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const saveSlots = async (
+    bundleId: number,
+    slots: BundleSlotDraft[]
+  ): Promise<void> => {
+    const { error: rpcError } = await supabase.rpc("set_bundle_slots", {
+      p_bundle_id: bundleId,
+      p_slots: slots.map((slot) => ({
+        ...slot,
+        name: slot.name.trim(),
+        category: slot.category || null,
+      })),
+    });
+
+    if (rpcError) {
+      throw new Error(`Error saving bundle items: ${rpcError.message}`);
+    }
+  };
+
+  /**
+   * Create a bundle with its slots. The bundle is removed again if its
+   * slots cannot be saved, so no empty bundle is left behind.
+   */
+  const addBundle = async (
+    data: BundleFormData,
+    slots: BundleSlotDraft[]
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const validationError = validateBundleSlotDrafts(slots);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { data: inserted, error: insertError } = await supabase
+        .from("bundles")
+        .insert([{ ...data, name: data.name.trim() }])
+        .select("id")
+        .single();
+
+      if (insertError) {
+        throw new Error(`Error adding bundle: ${insertError.message}`);
+      }
+
+      try {
+        await saveSlots(inserted.id, slots);
+      } catch (slotError) {
+        await supabase.from("bundles").delete().eq("id", inserted.id);
+        throw slotError;
+      }
+
+      await fetchBundles();
+    } catch (err) {
+      console.error("Error in addBundle:", err);
+      error.value = err instanceof Error ? err.message : "Failed to add bundle";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const updateBundle = async (
+    bundleId: number,
+    data: BundleFormData,
+    slots: BundleSlotDraft[]
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const validationError = validateBundleSlotDrafts(slots);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { error: updateError } = await supabase
+        .from("bundles")
+        .update({ ...data, name: data.name.trim() })
+        .eq("id", bundleId);
+
+      if (updateError) {
+        throw new Error(`Error updating bundle: ${updateError.message}`);
+      }
+
+      await saveSlots(bundleId, slots);
+      await fetchBundles();
+    } catch (err) {
+      console.error("Error in updateBundle:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to update bundle";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Delete a bundle. Past orders keep their bundle name and price.
+   */
+  const deleteBundle = async (bundleId: number): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: deleteError } = await supabase
+        .from("bundles")
+        .delete()
+        .eq("id", bundleId);
+
+      if (deleteError) {
+        throw new Error(`Error deleting bundle: ${deleteError.message}`);
+      }
+
+      await fetchBundles();
+    } catch (err) {
+      console.error("Error in deleteBundle:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to delete bundle";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    bundles,
+    loading,
+    saving,
+    error,
+
+    // Getters
+    activeBundles,
+    getBundleById,
+
+    // Actions
+    clearError,
+    fetchBundles,
+    addBundle,
+    updateBundle,
+    deleteBundle,
+  };
+});
@@ -0,0 +1,282 @@
+/**
+ * Cart Data Store
+ *
+ * Single source of truth for the customer's cart. The cart is a list of line
+ * items: one per menu item with the same options and instructions (or per
+ * bundle with the same components), each with a quantity. It is saved per
+ * table session, so a refresh keeps it while the next party at the same
+ * table starts empty, and it is re-checked against stock and menu schedules whenever menu data
+ * refreshes.
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed, watch } from "vue";
+import { useMenuDataStore } from "@/stores/menuData";
+import {
+  getCartItemUnitPrice,
+  getCartLineKey,
+  groupCartLines,
+  type CartItem,
+  type CartLine,
+} from "@/utils/modifiers";
+import { getCartMealQuantity, getCartStockWarning } from "@/utils/bundles";
+
+const STORAGE_PREFIX = "cart:session:";
+// Carts saved per table, which the next party at the table inherited
+const TABLE_STORAGE_PREFIX = "cart:table:";
+// Carts saved before line items, as a flat list of units
+const LEGACY_STORAGE_KEY = "cartItems";
+// A cart left this long is dropped instead of restored
+const CART_TTL_MS = 4 * 60 * 60 * 1000;
+
+interface StoredCart {
+  lines: CartLine[];
+  savedAt: number;
+}
+
+export const useCartDataStore = defineStore("cartData", () => {
+  const menuStore = useMenuDataStore();
+
+  // State
+  const lines = ref<CartLine[]>([]);
+  // Table session the cart is saved under
+  const sessionId = ref<number | null>(null);
+  // What changed the last time the cart was re-checked, for the customer
+  const adjustments = ref<string[]>([]);
+
+  // Getters
+  const itemCount = computed(() =>
+    lines.value.reduce((total, line) => total + line.quantity, 0)
+  );
+
+  const total = computed(() =>
+    lines.value.reduce(
+      (sum, line) => sum + line.unitPrice * line.quantity,
+      0
+    )
+  );
+
+  const isEmpty = computed(() => lines.value.length === 0);
+
+  const getLine = (key: string): CartLine | undefined => {
+    return lines.value.find((line) => line.key === key);
+  };
+
+  // Units of a menu item in the cart, on their own or inside bundles
+  const getMealQuantity = (mealId: number): number => {
+    return getCartMealQuantity(lines.value, mealId);
+  };
+
+  const warningFor = (
+    currentLines: CartLine[],
+    unit: CartItem
+  ): string | null => {
+    const menuLoaded = menuStore.menuItems.length > 0;
+    if (
+      menuLoaded &&
+      !unit.bundle &&
+      !menuStore.getScheduledItemById(unit.id)
+    ) {
+      return `Sorry, "${unit.name}" is no longer on the menu.`;
+    }
+    return getCartStockWarning(
+      currentLines,
+      unit,
+      menuStore.getScheduledItemById
+    );
+  };
+
+  /**
+   * Warning to show when one more unit would exceed stock or is not being
+   * served right now, or null when it can be added
+   */
+  const getStockWarning = (unit: CartItem): string | null => {
+    return warningFor(lines.value, unit);
+  };
+
+  // Persistence
+  const storageKey = (id: number) => `${STORAGE_PREFIX}${id}`;
+
+  const persist = (): void => {
+    if (sessionId.value === null) return;
+    try {
+      if (lines.value.length === 0) {
+        localStorage.removeItem(storageKey(sessionId.value));
+        return;
+      }
+      const cart: StoredCart = { lines: lines.value, savedAt: Date.now() };
+      localStorage.setItem(storageKey(sessionId.value), JSON.stringify(cart));
+    } catch (err) {
+      console.error("Error saving cart:", err);
+    }
+  };
+
+  const restore = (id: number): CartLine[] => {
+    try {
+      const stored = localStorage.getItem(storageKey(id));
+      if (stored) {
+        const cart: StoredCart = JSON.parse(stored);
+        if (Date.now() - cart.savedAt < CART_TTL_MS) return cart.lines;
+        localStorage.removeItem(storageKey(id));
+      }
+
+      const legacy = sessionStorage.getItem(LEGACY_STORAGE_KEY);
+      if (legacy) return groupCartLines(JSON.parse(legacy));
+    } catch (err) {
+      console.error("Error restoring cart:", err);
+    }
+    return [];
+  };
+
+  // Actions
+
+  /**
+   * Re-check the cart against current stock and menu schedules, trimming
+   * lines that no longer fit. Returns what changed.
+   */
+  const revalidate = (): string[] => {
+    if (menuStore.menuItems.length === 0 || lines.value.length === 0) {
+      return [];
+    }
+
+    const checked: CartLine[] = [];
+    const changes: string[] = [];
+
+    for (const line of lines.value) {
+      const kept: CartLine = { ...line, quantity: 0 };
+      checked.push(kept);
+      while (
+        kept.quantity < line.quantity &&
+        !warningFor(checked, line.item)
+      ) {
+        kept.quantity += 1;
+      }
+
+      if (kept.quantity === 0) {
+        changes.push(
+          `"${line.item.name}" was removed from your order because it is no longer available.`
+        );
+      } else if (kept.quantity < line.quantity) {
+        changes.push(
+          `Only ${kept.quantity} "${line.item.name}" left, so your order was updated.`
+        );
+      }
+    }
+
+    if (changes.length > 0) {
+      lines.value = checked.filter((line) => line.quantity > 0);
+      adjustments.value = changes;
+    }
+    return changes;
+  };
+
+  /**
+   * Switch to the cart saved for a table session. Lines added before the
+   * cart was bound are kept when the session has none saved.
+   */
+  const bindSession = (id: number | null): void => {
+    if (sessionId.value === id) return;
+
+    const unbound = sessionId.value === null ? lines.value : [];
+    sessionId.value = id;
+    if (id !== null) {
+      const saved = restore(id);
+      lines.value = saved.length > 0 ? saved : unbound;
+    }
+    sessionStorage.removeItem(LEGACY_STORAGE_KEY);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(TABLE_STORAGE_PREFIX))
+      .forEach((key) => localStorage.removeItem(key));
+    revalidate();
+  };
+
+  /**
+   * Add one unit with its chosen options. Returns a warning instead of
+   * adding it when stock or the menu schedule does not allow it.
+   */
+  const addItem = (unit: CartItem): string | null => {
+    const warning = getStockWarning(unit);
+    if (warning) return warning;
+
+    const key = getCartLineKey(unit);
+    const line = getLine(key);
+    if (line) {
+      line.quantity += 1;
+    } else {
+      lines.value.push({
+        key,
+        item: unit,
+        quantity: 1,
+        unitPrice: getCartItemUnitPrice(unit),
+      });
+    }
+    return null;
+  };
+
+  /**
+   * One more unit of a line, with the same options
+   */
+  const increment = (key: string): string | null => {
+    const line = getLine(key);
+    return line ? addItem(line.item) : null;
+  };
+
+  /**
+   * One unit fewer; the line is removed at zero
+   */
+  const decrement = (key: string): void => {
+    const line = getLine(key);
+    if (!line) return;
+    if (line.quantity > 1) {
+      line.quantity -= 1;
+    } else {
+      removeLine(key);
+    }
+  };
+
+  const removeLine = (key: string): void => {
+    lines.value = lines.value.filter((line) => line.key !== key);
+  };
+
+  const clear = (): void => {
+    lines.value = [];
+  };
+
+  const clearAdjustments = (): void => {
+    adjustments.value = [];
+  };
+
+  // Stock and schedules change while the customer browses
+  watch(
+    () => menuStore.scheduledMenuItems,
+    () => revalidate()
+  );
+
+  watch(lines, persist, { deep: true });
+
+  return {
+    // State
+    lines,
+    sessionId,
+    adjustments,
+
+    // Getters
+    itemCount,
+    total,
+    isEmpty,
+    getLine,
+    getMealQuantity,
+    getStockWarning,
+
+    // Actions
+    bindSession,
+    addItem,
+    increment,
+    decrement,
+    removeLine,
+    clear,
+    revalidate,
+    clearAdjustments,
+  };
+});
@@ -12,11 +12,24 @@ import { defineStore } from "pinia";
 import { ref, computed } from "vue";
 import { supabase } from "@/lib/supabase";
 import type { MenuItem } from "@/stores/menuData";
-import type { OrderWithMeals } from "@/stores/orderData";
+import { useOrderDataStore, type OrderWithMeals } from "@/stores/orderData";
+import type { OrderStatus } from "@/utils/orderLifecycle";
+import { getOrderLineName, getOrderLineUnitPrice } from "@/utils/modifiers";
+import {
+  getPaymentMethodLabel,
+  toOrderPayment,
+  totalsByMethod,
+  type OrderPayment,
+} from "@/utils/payments";
+import {
+  getDiscountTypeLabel,
+  toOrderDiscount,
+  type OrderDiscount,
+} from "@/utils/pricing";
 
 export interface CashierOrderFilters {
   status: string;
-  tableNumber: string;
+  tableId: number | null;
   dateFrom: string | null;
   dateTo: string | null;
   searchQuery: string;
@@ -26,18 +39,26 @@ export interface OrderHistoryItem extends OrderWithMeals {
   table_number?: number;
   itemCount?: number;
   processedAt?: string;
+  // Tenders the order was paid with
+  payments?: OrderPayment[];
+  // Senior citizen / PWD discounts with the holders' ID numbers
+  discounts?: OrderDiscount[];
 }
 
 export const useCashierDataStore = defineStore("cashierData", () => {
+  const orderDataStore = useOrderDataStore();
+
   // State
   const pendingOrders = ref<OrderWithMeals[]>([]);
   const orderHistory = ref<OrderHistoryItem[]>([]);
   const selectedOrder = ref<OrderWithMeals | null>(null);
+  // Open orders of the table picked on the floor view
+  const tableOrders = ref<OrderWithMeals[]>([]);
   const loading = ref(false);
   const error = ref<string | null>(null);
   const filters = ref<CashierOrderFilters>({
     status: "all",
-    tableNumber: "",
+    tableId: null,
     dateFrom: null,
     dateTo: null,
     searchQuery: "",
@@ -57,10 +78,11 @@ export const useCashierDataStore = defineStore("cashierData", () => {
       filtered = filtered.filter((order) => order.status === filters.value.status);
     }
 
-    // Filter by table number
-    if (filters.value.tableNumber) {
-      const tableNum = parseInt(filters.value.tableNumber);
-      filtered = filtered.filter((order) => order.table_id === tableNum);
+    // Filter by table
+    if (filters.value.tableId) {
+      filtered = filtered.filter(
+        (order) => order.table_id === filters.value.tableId
+      );
     }
 
     // Filter by date range
@@ -87,7 +109,7 @@ export const useCashierDataStore = defineStore("cashierData", () => {
       filtered = filtered.filter((order) => {
         const orderItems = order.order_items_db || [];
         const itemNames = orderItems
-          .map((item) => item.meal?.name || "")
+          .map((item) => getOrderLineName(item))
           .join(" ")
           .toLowerCase();
         
@@ -129,6 +151,13 @@ export const useCashierDataStore = defineStore("cashierData", () => {
       .reduce((total, order) => total + (order.total_amount || 0), 0);
   });
 
+  // Takings of the filtered orders by payment method
+  const paymentMethodTotals = computed(() =>
+    totalsByMethod(
+      filteredOrderHistory.value.flatMap((order) => order.payments || [])
+    )
+  );
+
   // Actions
   const clearError = (): void => {
     error.value = null;
@@ -141,7 +170,7 @@ export const useCashierDataStore = defineStore("cashierData", () => {
   const resetFilters = (): void => {
     filters.value = {
       status: "all",
-      tableNumber: "",
+      tableId: null,
       dateFrom: null,
       dateTo: null,
       searchQuery: "",
@@ -149,7 +178,9 @@ export const useCashierDataStore = defineStore("cashierData", () => {
   };
 
   /**
-   * Fetch all pending orders awaiting cashier approval
+   * Fetch all pending orders awaiting cashier approval. Pay-first orders not
+   * yet paid are included so the cashier can cancel abandoned ones, which
+   * gives their stock back.
    */
   const fetchPendingOrders = async (): Promise<void> => {
     try {
@@ -173,7 +204,7 @@ export const useCashierDataStore = defineStore("cashierData", () => {
       const orderIds = ordersData.map((order) => order.id);
       const { data: orderItems, error: itemsError } = await supabase
         .from("order_items")
-        .select(`*, meal:menu(*)`)
+        .select(`*, meal:menu(*), order_bundle:order_bundles(*)`)
         .in("order_id", orderIds);
 
       if (itemsError) throw itemsError;
@@ -222,11 +253,27 @@ export const useCashierDataStore = defineStore("cashierData", () => {
       const orderIds = ordersData.map((order) => order.id);
       const { data: orderItems, error: itemsError } = await supabase
         .from("order_items")
-        .select(`*, meal:menu(*)`)
+        .select(`*, meal:menu(*), order_bundle:order_bundles(*)`)
         .in("order_id", orderIds);
 
       if (itemsError) throw itemsError;
 
+      const { data: payments, error: paymentsError } = await supabase
+        .from("order_payments")
+        .select("*")
+        .in("order_id", orderIds)
+        .order("created_at");
+
+      if (paymentsError) throw paymentsError;
+
+      const { data: discounts, error: discountsError } = await supabase
+        .from("order_discounts")
+        .select("*")
+        .in("order_id", orderIds)
+        .order("id");
+
+      if (discountsError) throw discountsError;
+
       // Map orders with their items and additional info
       orderHistory.value = ordersData.map((order) => {
         const items = orderItems?.filter((item) => item.order_id === order.id) || [];
@@ -238,6 +285,12 @@ export const useCashierDataStore = defineStore("cashierData", () => {
           itemCount,
           table_number: order.table_id,
           processedAt: order.created_at,
+          payments: (payments || [])
+            .filter((payment) => payment.order_id === order.id)
+            .map(toOrderPayment),
+          discounts: (discounts || [])
+            .filter((discount) => discount.order_id === order.id)
+            .map(toOrderDiscount),
         };
       });
 
@@ -251,6 +304,52 @@ export const useCashierDataStore = defineStore("cashierData", () => {
     }
   };
 
+  /**
+   * Fetch a table's open orders (not yet completed, cancelled or voided)
+   * Orders older than 12 hours are left out, as in the `table_status` view
+   */
+  const fetchTableOrders = async (tableId: number): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      const since = new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString();
+      const { data: ordersData, error: ordersError } = await supabase
+        .from("orders")
+        .select("*")
+        .eq("table_id", tableId)
+        .in("status", ["pending", "confirmed", "preparing", "ready"])
+        .gt("created_at", since)
+        .order("created_at", { ascending: true });
+
+      if (ordersError) throw ordersError;
+
+      if (!ordersData || ordersData.length === 0) {
+        tableOrders.value = [];
+        return;
+      }
+
+      const orderIds = ordersData.map((order) => order.id);
+      const { data: orderItems, error: itemsError } = await supabase
+        .from("order_items")
+        .select(`*, meal:menu(*), order_bundle:order_bundles(*)`)
+        .in("order_id", orderIds);
+
+      if (itemsError) throw itemsError;
+
+      tableOrders.value = ordersData.map((order) => ({
+        ...order,
+        order_items_db: orderItems?.filter((item) => item.order_id === order.id) || [],
+      }));
+    } catch (err) {
+      console.error(`Error fetching orders for table ${tableId}:`, err);
+      error.value = "Failed to load the table's orders";
+      tableOrders.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
   /**
    * Get order details with items summary
    */
@@ -268,11 +367,12 @@ export const useCashierDataStore = defineStore("cashierData", () => {
 
   /**
    * Update order status
-   * Generic method to update any order to any status
+   * Moves an order through the order lifecycle; illegal transitions are rejected
    */
   const updateOrderStatus = async (
     orderId: number,
-    status: string
+    status: OrderStatus,
+    reason?: string
   ): Promise<boolean> => {
     try {
       loading.value = true;
@@ -280,16 +380,9 @@ export const useCashierDataStore = defineStore("cashierData", () => {
 
       console.log(`Updating order ${orderId} to status: ${status}`);
 
-      const { data, error: updateError } = await supabase
-        .from("orders")
-        .update({ status })
-        .eq("id", orderId)
-        .select()
-        .single();
-
-      if (updateError) throw updateError;
-
-      console.log(`Order ${orderId} updated to ${status}`);
+      const data = await orderDataStore.transitionOrder(orderId, status, {
+        reason,
+      });
 
       // Update local state
       // Remove from pending if status changed from pending
@@ -309,7 +402,10 @@ export const useCashierDataStore = defineStore("cashierData", () => {
       return true;
     } catch (err) {
       console.error(`Error updating order ${orderId} status:`, err);
-      error.value = `Failed to update order status to ${status}`;
+      error.value =
+        err instanceof Error
+          ? err.message
+          : `Failed to update order status to ${status}`;
       throw err;
     } finally {
       loading.value = false;
@@ -325,61 +421,59 @@ export const useCashierDataStore = defineStore("cashierData", () => {
 
   /**
    * Reject/Cancel order
+   * Cancelling releases the order's stock reservation back to the menu
    */
   const rejectOrder = async (orderId: number, reason?: string): Promise<boolean> => {
     try {
-      loading.value = true;
-      error.value = null;
-
-      const updateData: any = { status: "cancelled" };
-      if (reason) {
-        updateData.cancellation_reason = reason;
-      }
-
-      const { data, error: updateError } = await supabase
-        .from("orders")
-        .update(updateData)
-        .eq("id", orderId)
-        .select()
-        .single();
-
-      if (updateError) throw updateError;
-
-      // Remove from pending orders
-      pendingOrders.value = pendingOrders.value.filter((o) => o.id !== orderId);
+      await updateOrderStatus(orderId, "cancelled", reason);
 
       console.log(`Order ${orderId} rejected/cancelled`);
       return true;
     } catch (err) {
       console.error("Error rejecting order:", err);
-      error.value = "Failed to reject order";
       return false;
-    } finally {
-      loading.value = false;
     }
   };
 
   /**
    * Approve multiple orders at once
+   * Each order is transitioned on its own so one stale order does not block the rest
    */
   const approveMultipleOrders = async (orderIds: number[]): Promise<boolean> => {
     try {
       loading.value = true;
       error.value = null;
 
-      const { error: updateError } = await supabase
-        .from("orders")
-        .update({ status: "confirmed" })
-        .in("id", orderIds);
+      const results = await Promise.allSettled(
+        orderIds.map((orderId) =>
+          orderDataStore.transitionOrder(orderId, "preparing", {
+            expectedFrom: "pending",
+          })
+        )
+      );
 
-      if (updateError) throw updateError;
+      const approvedIds = orderIds.filter(
+        (_, index) => results[index].status === "fulfilled"
+      );
+      const failures = results.filter(
+        (result): result is PromiseRejectedResult => result.status === "rejected"
+      );
 
       // Remove from pending orders
       pendingOrders.value = pendingOrders.value.filter(
-        (o) => !orderIds.includes(o.id!)
+        (o) => !approvedIds.includes(o.id!)
       );
 
-      console.log(`${orderIds.length} orders approved`);
+      console.log(`${approvedIds.length} of ${orderIds.length} orders approved`);
+
+      if (failures.length > 0) {
+        const reason = failures[0].reason;
+        error.value = `Failed to approve ${failures.length} order(s): ${
+          reason instanceof Error ? reason.message : "Unknown error"
+        }`;
+        return false;
+      }
+
       return true;
     } catch (err) {
       console.error("Error approving multiple orders:", err);
@@ -450,11 +544,22 @@ export const useCashierDataStore = defineStore("cashierData", () => {
       return { items: [], total: 0, itemCount: 0 };
     }
 
-    const items = order.order_items_db.map((item) => ({
-      meal: item.meal,
-      quantity: item.quantity,
-      subtotal: item.meal.price * item.quantity,
-    }));
+    const items = order.order_items_db.map((item) => {
+      // Base price plus the chosen options, or the share of a bundle price
+      const unitPrice = getOrderLineUnitPrice(item);
+      return {
+        meal: item.meal,
+        // As sold; the menu item may since have been renamed or deleted
+        name: getOrderLineName(item),
+        quantity: item.quantity,
+        unitPrice,
+        modifiers: item.modifiers || [],
+        special_instructions: item.special_instructions || null,
+        // Bundle this dish was ordered in, if any
+        order_bundle: item.order_bundle || null,
+        subtotal: unitPrice * item.quantity,
+      };
+    });
 
     const total = items.reduce((sum, item) => sum + item.subtotal, 0);
     const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
@@ -466,11 +571,30 @@ export const useCashierDataStore = defineStore("cashierData", () => {
    * Export order history to CSV
    */
   const exportOrderHistory = (): string => {
-    const headers = ["Order ID", "Table", "Status", "Items", "Total", "Date"];
+    const headers = [
+      "Order ID",
+      "Table",
+      "Status",
+      "Items",
+      "Subtotal",
+      "VATable Sales",
+      "VAT",
+      "VAT-Exempt Sales",
+      "SC/PWD Discount",
+      "SC/PWD IDs",
+      "Service Charge",
+      "Total",
+      "Payment",
+      "Date",
+    ];
     const rows = filteredOrderHistory.value.map((order) => {
       const summary = getOrderSummary(order);
       const itemsList = summary.items
-        .map((item) => `${item.meal.name} x${item.quantity}`)
+        .map((item) => {
+          const options = item.modifiers.map((modifier) => modifier.name).join(" / ");
+          const bundle = item.order_bundle ? ` [${item.order_bundle.name}]` : "";
+          return `${item.name}${options ? ` (${options})` : ""}${bundle} x${item.quantity}`;
+        })
         .join("; ");
       
       return [
@@ -478,7 +602,26 @@ export const useCashierDataStore = defineStore("cashierData", () => {
         order.table_id,
         order.status,
         itemsList,
+        order.subtotal ?? order.total_amount,
+        order.vatable_sales ?? 0,
+        order.vat_amount ?? 0,
+        order.vat_exempt_sales ?? 0,
+        order.discount_amount ?? 0,
+        (order.discounts || [])
+          .map(
+            (discount) =>
+              `${getDiscountTypeLabel(discount.discount_type)} ${discount.id_number}`
+          )
+          .join("; "),
+        order.service_charge ?? 0,
         order.total_amount,
+        (order.payments || [])
+          .map((payment) =>
+            [getPaymentMethodLabel(payment.method), payment.amount, payment.reference]
+              .filter(Boolean)
+              .join(" ")
+          )
+          .join("; "),
         new Date(order.created_at || "").toLocaleString(),
       ].join(",");
     });
@@ -491,6 +634,7 @@ export const useCashierDataStore = defineStore("cashierData", () => {
     pendingOrders,
     orderHistory,
     selectedOrder,
+    tableOrders,
     loading,
     error,
     filters,
@@ -501,6 +645,7 @@ export const useCashierDataStore = defineStore("cashierData", () => {
     ordersByStatus,
     todayOrdersCount,
     todayRevenue,
+    paymentMethodTotals,
 
     // Actions
     clearError,
@@ -508,6 +653,7 @@ export const useCashierDataStore = defineStore("cashierData", () => {
     resetFilters,
     fetchPendingOrders,
     fetchOrderHistory,
+    fetchTableOrders,
     getOrderDetails,
     updateOrderStatus, // ← NEW METHOD ADDED
     approveOrder,
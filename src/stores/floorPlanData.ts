@@ -0,0 +1,145 @@
+/**
+ * Floor Plan Data Store
+ *
+ * Loads and saves the floor plan of the current branch: the plan's size and
+ * where each table sits on it. The admin editor edits a working copy and
+ * saves it in one go through the `save_floor_plan` RPC; the live floor view
+ * only reads it.
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import { supabase } from "@/lib/supabase";
+import { useAuthUserStore } from "@/stores/authUser";
+import {
+  DEFAULT_PLAN_SIZE,
+  type FloorPlan,
+  type TablePlacement,
+} from "@/utils/floorPlan";
+
+export const useFloorPlanDataStore = defineStore("floorPlanData", () => {
+  const authStore = useAuthUserStore();
+
+  // State
+  const plan = ref<FloorPlan | null>(null);
+  const placements = ref<TablePlacement[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Getters
+  const branchId = computed(() => authStore.currentBranchId);
+
+  const planSize = computed(() => ({
+    width: plan.value?.width ?? DEFAULT_PLAN_SIZE.width,
+    height: plan.value?.height ?? DEFAULT_PLAN_SIZE.height,
+  }));
+
+  const getPlacement = (tableId: number): TablePlacement | undefined => {
+    return placements.value.find((entry) => entry.table_id === tableId);
+  };
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch the branch's floor plan; a branch without one gets an empty plan
+   */
+  const fetchFloorPlan = async (): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      const { data: planData, error: planError } = await supabase
+        .from("floor_plans")
+        .select("*")
+        .eq("branch_id", branchId.value)
+        .maybeSingle();
+
+      if (planError) throw planError;
+
+      plan.value = planData;
+
+      if (!planData) {
+        placements.value = [];
+        return;
+      }
+
+      const { data: tableData, error: tablesError } = await supabase
+        .from("floor_plan_tables")
+        .select("table_id, shape, x, y, width, height, rotation")
+        .eq("floor_plan_id", planData.id);
+
+      if (tablesError) throw tablesError;
+
+      placements.value = tableData || [];
+    } catch (err) {
+      console.error("Error fetching floor plan:", err);
+      error.value = "Failed to load the floor plan. Please try again later.";
+      placements.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Replace the branch's floor plan with the given size and placements
+   */
+  const saveFloorPlan = async (
+    size: { width: number; height: number },
+    nextPlacements: TablePlacement[]
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: saveError } = await supabase.rpc("save_floor_plan", {
+        p_branch_id: branchId.value,
+        p_width: Math.round(size.width),
+        p_height: Math.round(size.height),
+        p_tables: nextPlacements.map((placement) => ({
+          ...placement,
+          x: Math.round(placement.x),
+          y: Math.round(placement.y),
+          width: Math.round(placement.width),
+          height: Math.round(placement.height),
+          rotation: Math.round(placement.rotation),
+        })),
+      });
+
+      if (saveError) {
+        throw new Error(`Error saving floor plan: ${saveError.message}`);
+      }
+
+      await fetchFloorPlan();
+    } catch (err) {
+      console.error("Error in saveFloorPlan:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to save floor plan";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    plan,
+    placements,
+    loading,
+    saving,
+    error,
+
+    // Getters
+    branchId,
+    planSize,
+    getPlacement,
+
+    // Actions
+    clearError,
+    fetchFloorPlan,
+    saveFloorPlan,
+  };
+});
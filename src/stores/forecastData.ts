@@ -0,0 +1,154 @@
+/**
+ * Forecast Data Store
+ *
+ * Expected servings of each dish for a café day, worked out in the browser
+ * from the weeks before it (see utils/demandForecast), for the kitchen's prep
+ * list. Days that have started are also compared with what actually sold,
+ * and each dish is checked against what can still be made of it (see the
+ * `menu_availability` view).
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import { supabase } from "@/lib/supabase";
+import { getCafeClock } from "@/utils/menuSchedule";
+import { shiftDate } from "@/utils/salesPeriods";
+import {
+  FORECAST_WEEKS,
+  compareForecast,
+  forecastDemand,
+  getForecastAccuracy,
+  type ForecastComparison,
+  type ItemForecast,
+  type ItemHourSales,
+} from "@/utils/demandForecast";
+import type { MenuAvailability } from "@/stores/ingredientData";
+
+// Row of `sales_item_hours`
+interface ItemHourSalesRow {
+  // Null for dishes since deleted
+  meal_id: number | null;
+  name: string;
+  category: string;
+  // Café day, YYYY-MM-DD
+  day: string;
+  hour: number;
+  quantity: number;
+}
+
+export const useForecastDataStore = defineStore("forecastData", () => {
+  // State
+  // Café day forecast, YYYY-MM-DD
+  const forecastDate = ref<string>("");
+  const forecasts = ref<ItemForecast[]>([]);
+  // Against actual sales, once the day has started
+  const comparisons = ref<ForecastComparison[]>([]);
+  const availability = ref<MenuAvailability[]>([]);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  // Getters
+  const hasActuals = computed(
+    () => !!forecastDate.value && forecastDate.value <= getCafeClock().date
+  );
+
+  const accuracy = computed(() => getForecastAccuracy(comparisons.value));
+
+  const getAvailabilityForMeal = (
+    mealId: number | null
+  ): MenuAvailability | undefined => {
+    if (mealId === null) return undefined;
+    return availability.value.find((row) => row.meal_id === mealId);
+  };
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch servings sold per dish, café day and hour, `from` to `to` inclusive
+   */
+  const fetchItemSales = async (
+    from: string,
+    to: string
+  ): Promise<ItemHourSales[]> => {
+    const { data, error: salesError } = await supabase.rpc("sales_item_hours", {
+      p_from: from,
+      p_to: to,
+    });
+
+    if (salesError) throw salesError;
+
+    const rows: ItemHourSalesRow[] = data || [];
+    return rows.map((row) => ({
+      mealId: row.meal_id,
+      name: row.name,
+      category: row.category,
+      date: String(row.day),
+      hour: row.hour,
+      quantity: Number(row.quantity),
+    }));
+  };
+
+  /**
+   * Forecast a café day (YYYY-MM-DD) from the weeks before it and, when it
+   * has started, compare it with what sold
+   */
+  const fetchForecast = async (date: string): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+      forecastDate.value = date;
+
+      const from = shiftDate(date, { days: -7 * FORECAST_WEEKS });
+      const to = hasActuals.value ? date : shiftDate(date, { days: -1 });
+
+      const [sales, availabilityResult] = await Promise.all([
+        fetchItemSales(from, to),
+        supabase.from("menu_availability").select("*"),
+      ]);
+
+      if (availabilityResult.error) throw availabilityResult.error;
+
+      // Ignore a late response for a day that is no longer selected
+      if (forecastDate.value !== date) return;
+
+      const history = sales.filter((row) => row.date < date);
+      const actual = sales.filter((row) => row.date === date);
+
+      forecasts.value = forecastDemand(history, date);
+      comparisons.value = hasActuals.value
+        ? compareForecast(forecasts.value, actual)
+        : [];
+      availability.value = availabilityResult.data || [];
+    } catch (err) {
+      console.error("Error fetching demand forecast:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to load the forecast";
+      forecasts.value = [];
+      comparisons.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  return {
+    // State
+    forecastDate,
+    forecasts,
+    comparisons,
+    availability,
+    loading,
+    error,
+
+    // Getters
+    hasActuals,
+    accuracy,
+    getAvailabilityForMeal,
+
+    // Actions
+    clearError,
+    fetchForecast,
+  };
+});
@@ -0,0 +1,278 @@
+/**
+ * Ingredient Data Store
+ *
+ * Manages the ingredients catalogue and the recipes that map menu items to
+ * ingredient quantities. Completing an order deducts recipe ingredients in the
+ * database, and dishes with a recipe are only as available as their scarcest
+ * ingredient (see the `menu_availability` view).
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import { supabase } from "@/lib/supabase";
+
+export const INGREDIENT_UNITS = ["g", "kg", "ml", "l", "pcs", "pack"] as const;
+
+export type IngredientUnit = (typeof INGREDIENT_UNITS)[number];
+
+export interface Ingredient {
+  id: number;
+  name: string;
+  unit: IngredientUnit;
+  quantity: number;
+  reorder_level: number;
+  // Held by submitted orders that have not completed yet
+  committed_quantity: number;
+  free_quantity: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type IngredientFormData = Pick<
+  Ingredient,
+  "name" | "unit" | "quantity" | "reorder_level"
+>;
+
+export interface RecipeItem {
+  id: number;
+  meal_id: number;
+  ingredient_id: number;
+  quantity: number;
+}
+
+export interface RecipeLine {
+  ingredient_id: number;
+  quantity: number;
+}
+
+export interface MenuAvailability {
+  meal_id: number;
+  available: number;
+  limiting_ingredient_id: number | null;
+  limiting_ingredient_name: string | null;
+}
+
+export const useIngredientDataStore = defineStore("ingredientData", () => {
+  // State
+  const ingredients = ref<Ingredient[]>([]);
+  const recipeItems = ref<RecipeItem[]>([]);
+  const availability = ref<MenuAvailability[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Getters
+  const lowStockIngredients = computed(() =>
+    ingredients.value.filter(
+      (ingredient) => ingredient.quantity <= ingredient.reorder_level
+    )
+  );
+
+  const getIngredientById = (id: number): Ingredient | undefined => {
+    return ingredients.value.find((ingredient) => ingredient.id === id);
+  };
+
+  const getRecipeForMeal = (mealId: number): RecipeItem[] => {
+    return recipeItems.value.filter((item) => item.meal_id === mealId);
+  };
+
+  const getAvailabilityForMeal = (
+    mealId: number
+  ): MenuAvailability | undefined => {
+    return availability.value.find((row) => row.meal_id === mealId);
+  };
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch ingredients with their committed stock, all recipes and the
+   * resulting menu availability
+   */
+  const fetchAll = async (): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      const [stockResult, recipeResult, availabilityResult] =
+        await Promise.all([
+          supabase.from("ingredient_stock").select("*").order("name"),
+          supabase.from("recipe_items").select("*").order("id"),
+          supabase.from("menu_availability").select("*"),
+        ]);
+
+      if (stockResult.error) throw stockResult.error;
+      if (recipeResult.error) throw recipeResult.error;
+      if (availabilityResult.error) throw availabilityResult.error;
+
+      ingredients.value = (stockResult.data || []).map((row) => ({
+        id: row.ingredient_id,
+        name: row.name,
+        unit: row.unit,
+        quantity: Number(row.quantity),
+        reorder_level: Number(row.reorder_level),
+        committed_quantity: Number(row.committed_quantity),
+        free_quantity: Number(row.free_quantity),
+      }));
+      recipeItems.value = (recipeResult.data || []).map((row) => ({
+        ...row,
+        quantity: Number(row.quantity),
+      }));
+      availability.value = availabilityResult.data || [];
+    } catch (err) {
+      console.error("Error fetching ingredients:", err);
+      error.value = "Failed to load ingredients. Please try again later.";
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const addIngredient = async (data: IngredientFormData): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: insertError } = await supabase.from("ingredients").insert([
+        {
+          ...data,
+          name: data.name.trim(),
+        },
+      ]);
+
+      if (insertError) {
+        throw new Error(`Error adding ingredient: ${insertError.message}`);
+      }
+
+      await fetchAll();
+    } catch (err) {
+      console.error("Error in addIngredient:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to add ingredient";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const updateIngredient = async (
+    ingredientId: number,
+    data: IngredientFormData
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: updateError } = await supabase
+        .from("ingredients")
+        .update({
+          ...data,
+          name: data.name.trim(),
+        })
+        .eq("id", ingredientId);
+
+      if (updateError) {
+        throw new Error(`Error updating ingredient: ${updateError.message}`);
+      }
+
+      await fetchAll();
+    } catch (err) {
+      console.error("Error in updateIngredient:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to update ingredient";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Delete an ingredient. Ingredients still used in a recipe cannot be deleted.
+   */
+  const deleteIngredient = async (ingredientId: number): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      if (recipeItems.value.some((item) => item.ingredient_id === ingredientId)) {
+        throw new Error(
+          "This ingredient is used in a recipe. Remove it from those recipes first."
+        );
+      }
+
+      const { error: deleteError } = await supabase
+        .from("ingredients")
+        .delete()
+        .eq("id", ingredientId);
+
+      if (deleteError) {
+        throw new Error(`Error deleting ingredient: ${deleteError.message}`);
+      }
+
+      await fetchAll();
+    } catch (err) {
+      console.error("Error in deleteIngredient:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to delete ingredient";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Replace the recipe of a menu item. An empty list removes the recipe and
+   * the dish goes back to its own counted quantity.
+   */
+  const saveRecipe = async (
+    mealId: number,
+    lines: RecipeLine[]
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: rpcError } = await supabase.rpc("set_menu_recipe", {
+        p_meal_id: mealId,
+        p_items: lines,
+      });
+
+      if (rpcError) {
+        throw new Error(rpcError.message);
+      }
+
+      await fetchAll();
+    } catch (err) {
+      console.error("Error in saveRecipe:", err);
+      error.value = err instanceof Error ? err.message : "Failed to save recipe";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    ingredients,
+    recipeItems,
+    availability,
+    loading,
+    saving,
+    error,
+
+    // Getters
+    lowStockIngredients,
+    getIngredientById,
+    getRecipeForMeal,
+    getAvailabilityForMeal,
+
+    // Actions
+    clearError,
+    fetchAll,
+    addIngredient,
+    updateIngredient,
+    deleteIngredient,
+    saveRecipe,
+  };
+});
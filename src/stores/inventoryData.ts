@@ -15,13 +15,27 @@ export interface InventoryItem {
   name: string;
   description: string;
   price: number;
+  // What one serving costs to make; null until entered
+  cost: number | null;
   image: string;
   quantity: number;
+  // Held by submitted orders; maintained by the database
+  reserved_quantity?: number;
   sales: number;
   category?: string;
+  // What the dish contains and suits; see utils/dietary
+  allergens: string[];
+  dietary_tags: string[];
+  spice_level: number;
+  // Sold without VAT, e.g. unprocessed goods
+  vat_exempt: boolean;
   created_at: string;
 }
 
+// A cleared number field gives "", which means no cost
+const toCost = (cost: number | string | null | undefined): number | null =>
+  cost === "" || cost === null || cost === undefined ? null : Number(cost);
+
 export const useInventoryDataStore = defineStore("inventoryData", () => {
   // State
   const inventoryItems = ref<InventoryItem[]>([]);
@@ -77,6 +91,30 @@ export const useInventoryDataStore = defineStore("inventoryData", () => {
     }
   };
 
+  /**
+   * Append a movement to the stock ledger; menu.quantity follows from it
+   */
+  const recordStockMovement = async (
+    mealId: number,
+    type: "restock" | "count_correction",
+    quantity: number,
+    reason: string
+  ): Promise<void> => {
+    const { error: movementError } = await supabase.rpc(
+      "record_stock_movement",
+      {
+        p_meal_id: mealId,
+        p_movement_type: type,
+        p_quantity: quantity,
+        p_reason: reason,
+      }
+    );
+
+    if (movementError) {
+      throw new Error(`Error recording stock: ${movementError.message}`);
+    }
+  };
+
   const uploadImage = async (imageFile: File): Promise<string | null> => {
     if (!imageFile) return null;
 
@@ -151,7 +189,7 @@ export const useInventoryDataStore = defineStore("inventoryData", () => {
   const addInventoryItem = async (
     itemData: Omit<InventoryItem, "id" | "created_at">,
     imageFile?: File | null
-  ): Promise<void> => {
+  ): Promise<number> => {
     try {
       loading.value = true;
       error.value = null;
@@ -177,21 +215,38 @@ export const useInventoryDataStore = defineStore("inventoryData", () => {
       }
 
       // Create the item data with the image path
+      // Opening stock goes through the ledger, so the item starts at zero
+      const { quantity: openingQuantity, ...menuData } = itemData;
       const finalItemData = {
-        ...itemData,
+        ...menuData,
+        cost: toCost(menuData.cost),
+        quantity: 0,
         image: imagePath,
       };
 
-      const { error: insertError } = await supabase
+      const { data: inserted, error: insertError } = await supabase
         .from("menu")
-        .insert([finalItemData]);
+        .insert([finalItemData])
+        .select("id")
+        .single();
 
       if (insertError) {
         throw new Error(`Error adding item: ${insertError.message}`);
       }
 
+      if (openingQuantity > 0) {
+        await recordStockMovement(
+          inserted.id,
+          "restock",
+          openingQuantity,
+          "Opening stock"
+        );
+      }
+
       // Refresh the inventory list
       await fetchInventoryItems(true);
+
+      return inserted.id;
     } catch (err) {
       console.error("Error in addInventoryItem:", err);
       error.value = err instanceof Error ? err.message : "Failed to add item";
@@ -204,7 +259,8 @@ export const useInventoryDataStore = defineStore("inventoryData", () => {
   const updateInventoryItem = async (
     itemId: number,
     itemData: Omit<InventoryItem, "id" | "created_at">,
-    imageFile?: File | null
+    imageFile?: File | null,
+    stockChangeReason?: string
   ): Promise<void> => {
     try {
       loading.value = true;
@@ -231,8 +287,16 @@ export const useInventoryDataStore = defineStore("inventoryData", () => {
       }
 
       // Create the item data with the image path
+      // Stock columns belong to the ledger and are never written from the form
+      const {
+        quantity,
+        reserved_quantity: _reserved,
+        sales: _sales,
+        ...editableData
+      } = itemData;
       const finalItemData = {
-        ...itemData,
+        ...editableData,
+        cost: toCost(editableData.cost),
         image: imagePath,
       };
 
@@ -245,6 +309,17 @@ export const useInventoryDataStore = defineStore("inventoryData", () => {
         throw new Error(`Error updating item: ${updateError.message}`);
       }
 
+      // A changed quantity is recorded as a stock count correction
+      const currentItem = getItemById(itemId);
+      if (currentItem && quantity !== currentItem.quantity) {
+        await recordStockMovement(
+          itemId,
+          "count_correction",
+          quantity,
+          stockChangeReason || "Edited in inventory"
+        );
+      }
+
       // Refresh the inventory list
       await fetchInventoryItems(true);
     } catch (err) {
@@ -11,9 +11,12 @@
 import { defineStore } from "pinia";
 import { ref, computed } from "vue";
 import { supabase } from "@/lib/supabase";
-import type { OrderWithMeals } from "@/stores/orderData";
+import { useOrderDataStore, type OrderWithMeals } from "@/stores/orderData";
+import { getOrderLineName, getOrderLineUnitPrice } from "@/utils/modifiers";
 
 export const useKitchenDataStore = defineStore("kitchenData", () => {
+  const orderDataStore = useOrderDataStore();
+
   // State
   const preparingOrders = ref<OrderWithMeals[]>([]);
   const readyOrders = ref<OrderWithMeals[]>([]);
@@ -67,11 +70,12 @@ export const useKitchenDataStore = defineStore("kitchenData", () => {
       loading.value = true;
       error.value = null;
 
-      // Fetch preparing orders (including pending orders that need to be prepared)
+      // Fetch preparing orders (including pending orders that need to be
+      // prepared); pay-first orders only show up once they are paid
       const { data: preparingData, error: preparingError } = await supabase
         .from("orders")
         .select("*")
-        .in("status", ["pending", "preparing"])
+        .or("status.eq.preparing,and(status.eq.pending,payment_required.eq.false)")
         .order("created_at", { ascending: true });
 
       if (preparingError) throw preparingError;
@@ -95,7 +99,7 @@ export const useKitchenDataStore = defineStore("kitchenData", () => {
         // Fetch order items with meal details
         const { data: orderItems, error: itemsError } = await supabase
           .from("order_items")
-          .select(`*, meal:menu(*)`)
+          .select(`*, meal:menu(*), order_bundle:order_bundles(*)`)
           .in("order_id", allOrderIds);
 
         if (itemsError) throw itemsError;
@@ -152,22 +156,14 @@ export const useKitchenDataStore = defineStore("kitchenData", () => {
 
       console.log(`Marking order ${orderId} as ready`);
 
-      const { data, error: updateError } = await supabase
-        .from("orders")
-        .update({ status: "ready" })
-        .eq("id", orderId)
-        .select()
-        .single();
-
-      if (updateError) throw updateError;
+      const data = await orderDataStore.transitionOrder(orderId, "ready");
 
       console.log(`Order ${orderId} marked as ready`);
 
       // Move order from preparing to ready
       const orderIndex = preparingOrders.value.findIndex(o => o.id === orderId);
       if (orderIndex !== -1) {
-        const order = preparingOrders.value[orderIndex];
-        order.status = "ready";
+        const order = { ...preparingOrders.value[orderIndex], ...data };
         preparingOrders.value.splice(orderIndex, 1);
         readyOrders.value.push(order);
       }
@@ -175,7 +171,7 @@ export const useKitchenDataStore = defineStore("kitchenData", () => {
       return true;
     } catch (err) {
       console.error("Error completing order:", err);
-      error.value = "Failed to complete order";
+      error.value = err instanceof Error ? err.message : "Failed to complete order";
       return false;
     } finally {
       loading.value = false;
@@ -184,6 +180,7 @@ export const useKitchenDataStore = defineStore("kitchenData", () => {
 
   /**
    * Delete an order and its related order items
+   * Any stock still reserved by the order is released by the database on delete
    */
   const deleteOrder = async (orderId: number): Promise<boolean> => {
     try {
@@ -264,35 +261,43 @@ export const useKitchenDataStore = defineStore("kitchenData", () => {
 
   /**
    * Mark multiple orders as ready at once
+   * Each order is transitioned on its own so one stale order does not block the rest
    */
   const completeMultipleOrders = async (orderIds: number[]): Promise<boolean> => {
     try {
       loading.value = true;
       error.value = null;
 
-      const { error: updateError } = await supabase
-        .from("orders")
-        .update({ status: "ready" })
-        .in("id", orderIds);
-
-      if (updateError) throw updateError;
+      const results = await Promise.allSettled(
+        orderIds.map((orderId) =>
+          orderDataStore.transitionOrder(orderId, "ready", {
+            expectedFrom: "preparing",
+          })
+        )
+      );
 
-      // Move orders from preparing to ready
-      const completedOrders = preparingOrders.value.filter((o) =>
-        orderIds.includes(o.id!)
+      const readyIds = orderIds.filter(
+        (_, index) => results[index].status === "fulfilled"
       );
 
-      completedOrders.forEach((order) => {
-        order.status = "ready";
-      });
+      // Move orders from preparing to ready
+      const completedOrders = preparingOrders.value
+        .filter((o) => readyIds.includes(o.id!))
+        .map((order) => ({ ...order, status: "ready" as const }));
 
       preparingOrders.value = preparingOrders.value.filter(
-        (o) => !orderIds.includes(o.id!)
+        (o) => !readyIds.includes(o.id!)
       );
 
       readyOrders.value.push(...completedOrders);
 
-      console.log(`${orderIds.length} orders marked as ready`);
+      console.log(`${readyIds.length} of ${orderIds.length} orders marked as ready`);
+
+      if (readyIds.length < orderIds.length) {
+        error.value = `${orderIds.length - readyIds.length} order(s) could not be marked as ready`;
+        return false;
+      }
+
       return true;
     } catch (err) {
       console.error("Error completing multiple orders:", err);
@@ -311,11 +316,22 @@ export const useKitchenDataStore = defineStore("kitchenData", () => {
       return { items: [], total: 0, itemCount: 0 };
     }
 
-    const items = order.order_items_db.map((item) => ({
-      meal: item.meal,
-      quantity: item.quantity,
-      subtotal: item.meal.price * item.quantity,
-    }));
+    const items = order.order_items_db.map((item) => {
+      // Base price plus the chosen options, or the share of a bundle price
+      const unitPrice = getOrderLineUnitPrice(item);
+      return {
+        meal: item.meal,
+        // As sold; the menu item may since have been renamed or deleted
+        name: getOrderLineName(item),
+        quantity: item.quantity,
+        unitPrice,
+        modifiers: item.modifiers || [],
+        special_instructions: item.special_instructions || null,
+        // Bundle this dish was ordered in, if any
+        order_bundle: item.order_bundle || null,
+        subtotal: unitPrice * item.quantity,
+      };
+    });
 
     const total = items.reduce((sum, item) => sum + item.subtotal, 0);
     const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
@@ -6,9 +6,16 @@
  */
 
 import { defineStore } from "pinia";
-import { ref } from "vue";
+import { ref, computed } from "vue";
 import { supabase } from "@/lib/supabase";
 import { getInventoryImageUrl } from "@/utils/constants";
+import { sortModifierGroups, type ModifierGroup } from "@/utils/modifiers";
+import {
+  getCafeClock,
+  getItemSchedules,
+  getScheduleStatus,
+  type MenuSchedule,
+} from "@/utils/menuSchedule";
 
 export interface MenuItem {
   id: number;
@@ -17,8 +24,23 @@ export interface MenuItem {
   price: number;
   image: string;
   quantity: number;
+  // Units held by submitted orders that have not been completed yet
+  reserved_quantity?: number;
+  // What customers can still order: quantity on hand minus reserved, or
+  // for dishes with a recipe, the portions their ingredients still cover
+  available: number;
   sales: number;
   category?: string;
+  // Sizes, add-ons and other options customers pick when ordering
+  modifier_groups?: ModifierGroup[];
+  // What the dish contains and suits; see utils/dietary
+  allergens?: string[];
+  dietary_tags?: string[];
+  spice_level?: number;
+  // Sold without VAT, e.g. unprocessed goods
+  vat_exempt?: boolean;
+  // Set while the item is outside its menu schedule, e.g. "Available from 6 AM"
+  available_from?: string | null;
   created_at: string;
 }
 
@@ -28,6 +50,26 @@ export const useMenuDataStore = defineStore("menuData", () => {
   const loading = ref(false);
   const error = ref<string | null>(null);
   const lastFetchTime = ref<Date | null>(null);
+  // Active menu schedules, and the time they are checked against
+  const schedules = ref<MenuSchedule[]>([]);
+  const clock = ref(getCafeClock());
+
+  // Menu as customers see it right now: items outside their schedule cannot
+  // be ordered and say when they open; items that do not open again within
+  // a week (e.g. out of season) are left out
+  const scheduledMenuItems = computed<MenuItem[]>(() => {
+    if (schedules.value.length === 0) return menuItems.value;
+
+    return menuItems.value.flatMap((item) => {
+      const status = getScheduleStatus(
+        getItemSchedules(item, schedules.value),
+        clock.value
+      );
+      if (status.open) return [item];
+      if (!status.availableFrom) return [];
+      return [{ ...item, available: 0, available_from: status.availableFrom }];
+    });
+  });
 
   // Actions
   const fetchMenuItems = async (forceRefresh = false): Promise<void> => {
@@ -44,30 +86,60 @@ export const useMenuDataStore = defineStore("menuData", () => {
       loading.value = true;
       error.value = null;
 
-      const { data, error: fetchError } = await supabase
-        .from("menu")
-        .select("*")
-        .order("name");
-
-      if (fetchError) {
-        throw fetchError;
+      const [menuResult, availabilityResult, scheduleResult] =
+        await Promise.all([
+          supabase
+            .from("menu")
+            .select("*, modifier_groups(*, modifier_options(*))")
+            .order("name"),
+          supabase.from("menu_availability").select("meal_id, available"),
+          supabase
+            .from("menu_schedules")
+            .select("*, menu_schedule_items(*)")
+            .eq("is_active", true),
+        ]);
+
+      if (menuResult.error) {
+        throw menuResult.error;
+      }
+      if (availabilityResult.error) {
+        throw availabilityResult.error;
+      }
+      if (scheduleResult.error) {
+        throw scheduleResult.error;
       }
 
+      // Dishes with a recipe are limited by their scarcest ingredient
+      const availableByMeal = new Map<number, number>(
+        (availabilityResult.data || []).map((row) => [
+          row.meal_id,
+          row.available,
+        ])
+      );
+
       // Process the data to ensure image URLs point to Supabase storage
-      menuItems.value = (data || []).map((item) => ({
+      menuItems.value = (menuResult.data || []).map((item) => ({
         ...item,
+        available:
+          availableByMeal.get(item.id) ??
+          Math.max(0, (item.quantity || 0) - (item.reserved_quantity || 0)),
+        modifier_groups: sortModifierGroups(item.modifier_groups || []),
         // If image is just a filename without full URL, prepend the Supabase storage URL
         image: item.image?.includes("http")
           ? item.image
           : getInventoryImageUrl(item.image || "default.jpg"),
       }));
 
+      schedules.value = scheduleResult.data || [];
+      clock.value = getCafeClock();
+
       lastFetchTime.value = new Date();
       console.log(`Fetched ${menuItems.value.length} menu items`);
     } catch (err) {
       console.error("Error fetching menu items:", err);
       error.value = "Failed to load menu items. Please try again later.";
       menuItems.value = [];
+      schedules.value = [];
     } finally {
       loading.value = false;
     }
@@ -77,6 +149,13 @@ export const useMenuDataStore = defineStore("menuData", () => {
     error.value = null;
   };
 
+  /**
+   * Re-check menu schedules against the café's current time
+   */
+  const tickClock = (): void => {
+    clock.value = getCafeClock();
+  };
+
   const refreshMenuItems = async (): Promise<void> => {
     await fetchMenuItems(true);
   };
@@ -108,6 +187,10 @@ export const useMenuDataStore = defineStore("menuData", () => {
     return menuItems.value.find((item) => item.id === id);
   };
 
+  const getScheduledItemById = (id: number): MenuItem | undefined => {
+    return scheduledMenuItems.value.find((item) => item.id === id);
+  };
+
   const searchItems = (query: string): MenuItem[] => {
     if (!query.trim()) return [];
 
@@ -126,10 +209,14 @@ export const useMenuDataStore = defineStore("menuData", () => {
     loading,
     error,
     lastFetchTime,
+    schedules,
+    clock,
+    scheduledMenuItems,
 
     // Actions
     fetchMenuItems,
     clearError,
+    tickClock,
     refreshMenuItems,
 
     // Getters
@@ -137,6 +224,7 @@ export const useMenuDataStore = defineStore("menuData", () => {
     getItemsByCategory,
     getAvailableCategories,
     getItemById,
+    getScheduledItemById,
     searchItems,
   };
 });
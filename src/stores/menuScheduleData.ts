@@ -0,0 +1,234 @@
+/**
+ * Menu Schedule Data Store
+ *
+ * Manages the availability windows of breakfast, lunch, seasonal and other
+ * scheduled menus. A schedule applies to a category and/or chosen menu items;
+ * its items are replaced as a whole through the `set_menu_schedule_items` RPC.
+ */
+
+import { defineStore } from "pinia";
+import { ref } from "vue";
+import { supabase } from "@/lib/supabase";
+import type { MenuSchedule } from "@/utils/menuSchedule";
+
+export interface MenuScheduleFormData {
+  name: string;
+  days_of_week: number[];
+  // "HH:MM"; both empty means all day
+  start_time: string | null;
+  end_time: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  category: string | null;
+  is_active: boolean;
+}
+
+/**
+ * Returns an error message for an invalid schedule, or null
+ */
+export function validateMenuScheduleForm(
+  data: MenuScheduleFormData,
+  mealIds: number[]
+): string | null {
+  if (!data.name.trim()) return "Please enter a schedule name";
+  if (data.days_of_week.length === 0) return "Choose at least one day";
+  if (!data.start_time !== !data.end_time) {
+    return "Enter both a start and an end time, or neither for all day";
+  }
+  if (data.start_time && data.start_time === data.end_time) {
+    return "The start and end time cannot be the same";
+  }
+  if (data.start_date && data.end_date && data.start_date > data.end_date) {
+    return "The end date must be on or after the start date";
+  }
+  if (!data.category && mealIds.length === 0) {
+    return "Choose a category or at least one menu item";
+  }
+  return null;
+}
+
+export const useMenuScheduleDataStore = defineStore("menuScheduleData", () => {
+  // State
+  const schedules = ref<MenuSchedule[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch all menu schedules, active or not, with their menu items
+   */
+  const fetchSchedules = async (): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      const { data, error: fetchError } = await supabase
+        .from("menu_schedules")
+        .select("*, menu_schedule_items(*)")
+        .order("name");
+
+      if (fetchError) throw fetchError;
+
+      schedules.value = data || [];
+    } catch (err) {
+      console.error("Error fetching menu schedules:", err);
+      error.value = "Failed to load menu schedules. Please try again later.";
+      schedules.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const toRow = (data: MenuScheduleFormData) => ({
+    ...data,
+    name: data.name.trim(),
+    start_time: data.start_time || null,
+    end_time: data.end_time || null,
+    start_date: data.start_date || null,
+    end_date: data.end_date || null,
+    category: data.category || null,
+  });
+
+  const saveItems = async (
+    scheduleId: number,
+    mealIds: number[]
+  ): Promise<void> => {
+    const { error: rpcError } = await supabase.rpc("set_menu_schedule_items", {
+      p_schedule_id: scheduleId,
+      p_meal_ids: mealIds,
+    });
+
+    if (rpcError) {
+      throw new Error(`Error saving schedule items: ${rpcError.message}`);
+    }
+  };
+
+  /**
+   * Create a schedule with its menu items. The schedule is removed again if
+   * its items cannot be saved.
+   */
+  const addSchedule = async (
+    data: MenuScheduleFormData,
+    mealIds: number[]
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const validationError = validateMenuScheduleForm(data, mealIds);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { data: inserted, error: insertError } = await supabase
+        .from("menu_schedules")
+        .insert([toRow(data)])
+        .select("id")
+        .single();
+
+      if (insertError) {
+        throw new Error(`Error adding schedule: ${insertError.message}`);
+      }
+
+      try {
+        await saveItems(inserted.id, mealIds);
+      } catch (itemsError) {
+        await supabase.from("menu_schedules").delete().eq("id", inserted.id);
+        throw itemsError;
+      }
+
+      await fetchSchedules();
+    } catch (err) {
+      console.error("Error in addSchedule:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to add schedule";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  const updateSchedule = async (
+    scheduleId: number,
+    data: MenuScheduleFormData,
+    mealIds: number[]
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const validationError = validateMenuScheduleForm(data, mealIds);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { error: updateError } = await supabase
+        .from("menu_schedules")
+        .update(toRow(data))
+        .eq("id", scheduleId);
+
+      if (updateError) {
+        throw new Error(`Error updating schedule: ${updateError.message}`);
+      }
+
+      await saveItems(scheduleId, mealIds);
+      await fetchSchedules();
+    } catch (err) {
+      console.error("Error in updateSchedule:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to update schedule";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Delete a schedule. Its items go back to being available all the time
+   * unless another schedule covers them.
+   */
+  const deleteSchedule = async (scheduleId: number): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: deleteError } = await supabase
+        .from("menu_schedules")
+        .delete()
+        .eq("id", scheduleId);
+
+      if (deleteError) {
+        throw new Error(`Error deleting schedule: ${deleteError.message}`);
+      }
+
+      await fetchSchedules();
+    } catch (err) {
+      console.error("Error in deleteSchedule:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to delete schedule";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    schedules,
+    loading,
+    saving,
+    error,
+
+    // Actions
+    clearError,
+    fetchSchedules,
+    addSchedule,
+    updateSchedule,
+    deleteSchedule,
+  };
+});
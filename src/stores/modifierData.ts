@@ -0,0 +1,164 @@
+/**
+ * Modifier Data Store
+ *
+ * Loads and saves the modifier groups (sizes, add-ons, removals) of a menu
+ * item for the inventory dialogs. Groups are replaced as a whole through the
+ * `set_menu_modifier_groups` RPC.
+ */
+
+import { defineStore } from "pinia";
+import { ref } from "vue";
+import { supabase } from "@/lib/supabase";
+import { sortModifierGroups, type ModifierGroup } from "@/utils/modifiers";
+
+export interface ModifierOptionDraft {
+  name: string;
+  price_delta: number;
+  is_available: boolean;
+}
+
+export interface ModifierGroupDraft {
+  name: string;
+  is_required: boolean;
+  min_select: number;
+  max_select: number;
+  options: ModifierOptionDraft[];
+}
+
+/**
+ * Editable copy of saved groups
+ */
+export function toModifierGroupDrafts(
+  groups: ModifierGroup[]
+): ModifierGroupDraft[] {
+  return sortModifierGroups(groups).map((group) => ({
+    name: group.name,
+    is_required: group.is_required,
+    min_select: group.min_select,
+    max_select: group.max_select,
+    options: group.modifier_options.map((option) => ({
+      name: option.name,
+      price_delta: Number(option.price_delta) || 0,
+      is_available: option.is_available,
+    })),
+  }));
+}
+
+/**
+ * Returns an error message for the first invalid group, or null
+ */
+export function validateModifierGroupDrafts(
+  drafts: ModifierGroupDraft[]
+): string | null {
+  for (const group of drafts) {
+    if (!group.name.trim()) return "Every modifier group needs a name";
+    if (group.options.length === 0) {
+      return `Modifier group "${group.name}" needs at least one option`;
+    }
+    if (group.options.some((option) => !option.name.trim())) {
+      return `Every option in "${group.name}" needs a name`;
+    }
+    if (group.max_select < 1 || group.min_select > group.max_select) {
+      return `Check the min/max selections of "${group.name}"`;
+    }
+    if (group.min_select > group.options.length) {
+      return `"${group.name}" requires more choices than it has options`;
+    }
+  }
+  return null;
+}
+
+export const useModifierDataStore = defineStore("modifierData", () => {
+  // State
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch the modifier groups of a menu item with their options
+   */
+  const fetchModifierGroups = async (
+    mealId: number
+  ): Promise<ModifierGroup[]> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      const { data, error: fetchError } = await supabase
+        .from("modifier_groups")
+        .select("*, modifier_options(*)")
+        .eq("meal_id", mealId);
+
+      if (fetchError) throw fetchError;
+
+      return sortModifierGroups(data || []);
+    } catch (err) {
+      console.error("Error fetching modifier groups:", err);
+      error.value = "Failed to load modifiers";
+      return [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Replace all modifier groups of a menu item
+   */
+  const saveModifierGroups = async (
+    mealId: number,
+    drafts: ModifierGroupDraft[]
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const validationError = validateModifierGroupDrafts(drafts);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { error: rpcError } = await supabase.rpc(
+        "set_menu_modifier_groups",
+        {
+          p_meal_id: mealId,
+          p_groups: drafts.map((group) => ({
+            ...group,
+            name: group.name.trim(),
+            options: group.options.map((option) => ({
+              ...option,
+              name: option.name.trim(),
+            })),
+          })),
+        }
+      );
+
+      if (rpcError) {
+        throw new Error(`Error saving modifiers: ${rpcError.message}`);
+      }
+    } catch (err) {
+      console.error("Error in saveModifierGroups:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to save modifiers";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    loading,
+    saving,
+    error,
+
+    // Actions
+    clearError,
+    fetchModifierGroups,
+    saveModifierGroups,
+  };
+});
@@ -9,6 +9,28 @@ import { defineStore } from "pinia";
 import { ref, computed } from "vue";
 import { supabase } from "@/lib/supabase";
 import type { MenuItem } from "@/stores/menuData";
+import {
+  assertTransition,
+  buildTransitionPatch,
+  isOrderStatus,
+  OrderTransitionError,
+  type OrderStatus,
+  type OrderStatusTimestamps,
+} from "@/utils/orderLifecycle";
+import {
+  getCartItemUnitPrice,
+  getOrderLineName,
+  getOrderLineUnitPrice,
+  type CartItem,
+  type CartLine,
+  type OrderLineModifier,
+} from "@/utils/modifiers";
+import type { OrderBundle } from "@/utils/bundles";
+import { priceOrder, type PricingSettings } from "@/utils/pricing";
+import {
+  extendTableSession,
+  TableSessionError,
+} from "@/pages/admin/composables/useTableContext";
 
 // Order-related interfaces
 export interface OrderItem {
@@ -22,30 +44,52 @@ export interface OrderItem {
 export interface OrderItemDB {
   id?: number;
   order_id: number;
-  meal_id: number;
+  // Null once the menu item is deleted; the snapshot below still describes it
+  meal_id: number | null;
   quantity: number;
+  // The item as it was sold, snapshotted when the order was placed
+  item_name?: string;
+  category?: string | null;
+  unit_price?: number;
+  vat_exempt?: boolean;
+  // Share of the order's senior citizen / PWD discount
+  discount_amount?: number;
+  // Options chosen for this line, snapshotted when the order was placed
+  modifiers?: OrderLineModifier[];
+  special_instructions?: string | null;
+  // Set on the components of a bundle, with their share of its price
+  order_bundle_id?: number | null;
+  allocated_amount?: number | null;
+  order_bundle?: OrderBundle | null;
+  // Seat the line was served to, set when the bill is split by seat
+  seat_no?: number | null;
   created_at?: string;
 }
 
-export interface Order {
+export interface Order extends OrderStatusTimestamps {
   id?: number;
   created_at?: string;
-  status:
-    | "pending"
-    | "confirmed"
-    | "preparing"
-    | "ready"
-    | "completed"
-    | "cancelled";
+  status: OrderStatus;
+  cancellation_reason?: string | null;
   total_amount: number;
   table_id: number;
+  // Placed in pay-first mode: stays out of the kitchen until paid online
+  payment_required?: boolean;
+  // Priced by the database; see utils/pricing
+  headcount?: number;
+  subtotal?: number;
+  vatable_sales?: number;
+  vat_amount?: number;
+  vat_exempt_sales?: number;
+  discount_amount?: number;
+  service_charge?: number;
   meal_id?: number;
   order_items?: OrderItem[];
 }
 
 export interface OrderWithMeals extends Order {
   meal?: MenuItem;
-  order_items_db?: (OrderItemDB & { meal: MenuItem })[];
+  order_items_db?: (OrderItemDB & { meal: MenuItem | null })[];
 }
 
 export interface CreateOrderWithItemsData {
@@ -54,6 +98,28 @@ export interface CreateOrderWithItemsData {
   table_id: number;
 }
 
+export interface SubmitOrderLine {
+  meal_id: number;
+  quantity: number;
+  option_ids?: number[];
+  special_instructions?: string;
+}
+
+export interface SubmitBundleLine {
+  bundle_id: number;
+  quantity: number;
+  components: { slot_id: number; meal_id: number }[];
+}
+
+export type SubmitLine = SubmitOrderLine | SubmitBundleLine;
+
+export interface TransitionOrderOptions {
+  // Status the caller believes the order is in; skips the lookup when given
+  expectedFrom?: OrderStatus;
+  // Stored as the cancellation reason when cancelling or voiding
+  reason?: string;
+}
+
 export interface FeedbackData {
   orderIds: number[];
   foodRating: number;
@@ -61,6 +127,31 @@ export interface FeedbackData {
   comments: string;
 }
 
+// SessionStorage key for the idempotency key of an in-flight order submission
+const SUBMISSION_STORAGE_KEY = "pendingOrderSubmission";
+
+/**
+ * The menu item of a stored order line as it was sold. Lines whose item was
+ * deleted since are described by their snapshot alone.
+ */
+const toSoldMenuItem = (
+  orderItem: OrderItemDB & { meal: MenuItem | null }
+): MenuItem => ({
+  ...(orderItem.meal ?? {
+    id: orderItem.meal_id ?? 0,
+    description: "",
+    price: 0,
+    image: "",
+    quantity: 0,
+    available: 0,
+    sales: 0,
+    created_at: orderItem.created_at ?? "",
+  }),
+  name: getOrderLineName(orderItem),
+  category: orderItem.category ?? orderItem.meal?.category,
+  price: Number(orderItem.unit_price ?? orderItem.meal?.price ?? 0),
+});
+
 export const useOrderDataStore = defineStore("orderData", () => {
   // State
   const orders = ref<Order[]>([]);
@@ -71,7 +162,7 @@ export const useOrderDataStore = defineStore("orderData", () => {
 
   // Getters
   const ordersByStatus = computed(() => {
-    return (status: Order["status"]) =>
+    return (status: OrderStatus) =>
       orders.value.filter((order) => order.status === status);
   });
 
@@ -90,146 +181,160 @@ export const useOrderDataStore = defineStore("orderData", () => {
   };
 
   /**
-   * Create a new order with items or update existing pending order for the table
+   * Reuse the idempotency key of an unfinished submission for the same cart,
+   * so retrying after a dropped connection returns the order already placed
+   */
+  const getSubmissionKey = (
+    sessionKey: string,
+    lines: SubmitLine[]
+  ): string => {
+    const signature = JSON.stringify({
+      sessionKey,
+      lines: lines.map((line) => JSON.stringify(line)).sort(),
+    });
+
+    try {
+      const stored = sessionStorage.getItem(SUBMISSION_STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (parsed?.signature === signature && parsed?.key) {
+          return parsed.key;
+        }
+      }
+    } catch (storageError) {
+      console.error("Error reading pending order submission:", storageError);
+    }
+
+    const key = crypto.randomUUID();
+    sessionStorage.setItem(
+      SUBMISSION_STORAGE_KEY,
+      JSON.stringify({ key, signature })
+    );
+    return key;
+  };
+
+  /**
+   * Create a new order with items for the table session.
+   * Runs as a single `submit_table_order` transaction on the server, which
+   * checks the table session and validates stock and prices every line from
+   * the `menu` table. Rejects with a TableSessionError once the session ends.
    */
   const createOrderWithItems = async (
-    cartItems: MenuItem[],
-    tableId: number
-  ): Promise<Order> => {
+    cartLines: CartLine[],
+    sessionKey: string,
+    idempotencyKey?: string
+  ): Promise<OrderWithMeals> => {
     try {
       loading.value = true;
       error.value = null;
 
-      // Group cart items by meal ID and count quantities
-      const groupedItems: {
-        [key: number]: { item: MenuItem; quantity: number };
-      } = {};
-
-      cartItems.forEach((item) => {
-        if (groupedItems[item.id]) {
-          groupedItems[item.id].quantity += 1;
+      // Stock is per menu item, whatever options were chosen and whether
+      // it was ordered on its own or as part of a bundle
+      const quantityByMeal = new Map<number, { name: string; available?: number; quantity: number }>();
+      const countMeal = (mealId: number, name: string, quantity: number, available?: number) => {
+        const entry = quantityByMeal.get(mealId);
+        if (entry) {
+          entry.quantity += quantity;
+          entry.available = entry.available ?? available;
+        } else {
+          quantityByMeal.set(mealId, { name, available, quantity });
+        }
+      };
+      cartLines.forEach(({ item, quantity }) => {
+        if (item.bundle) {
+          item.bundle.components.forEach((component) =>
+            countMeal(
+              component.meal_id,
+              component.name,
+              component.quantity * quantity
+            )
+          );
         } else {
-          groupedItems[item.id] = { item, quantity: 1 };
+          countMeal(
+            item.id,
+            item.name,
+            quantity,
+            item.available ?? item.quantity
+          );
         }
       });
 
-      // Validate inventory availability before creating/updating order
-      for (const [mealId, { item, quantity }] of Object.entries(groupedItems)) {
-        if (item.quantity !== undefined && item.quantity < quantity) {
+      // Fail fast on the cached stock; the server re-checks inside the transaction
+      for (const { name, available, quantity } of quantityByMeal.values()) {
+        if (available !== undefined && available < quantity) {
           throw new Error(
-            `Insufficient stock for "${item.name}". Available: ${item.quantity}, Requested: ${quantity}`
+            available === 0
+              ? `Sorry, "${name}" just sold out. Please remove it from your order.`
+              : `Sorry, only ${available} "${name}" left. Please update your order.`
           );
         }
       }
 
-      // Calculate total amount
-      const totalAmount = cartItems.reduce(
-        (total, item) => total + item.price,
-        0
+      // One line per item, chosen options and instructions, or per bundle
+      // and chosen components
+      const lines: SubmitLine[] = cartLines.map(
+        ({ item, quantity }) =>
+          item.bundle
+            ? {
+                bundle_id: item.bundle.bundle_id,
+                quantity,
+                components: item.bundle.components.map((component) => ({
+                  slot_id: component.slot_id,
+                  meal_id: component.meal_id,
+                })),
+              }
+            : {
+                meal_id: item.id,
+                quantity,
+                option_ids: (item.selected_modifiers || []).map(
+                  (modifier) => modifier.option_id
+                ),
+                special_instructions:
+                  item.special_instructions?.trim() || undefined,
+              }
       );
-
-      // Check for existing pending order for this table
-      const { data: existingOrder, error: checkError } = await supabase
-        .from("orders")
-        .select("*")
-        .eq("table_id", tableId)
-        .eq("status", "pending")
-        .order("created_at", { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      if (checkError) {
-        throw new Error(`Failed to check existing orders: ${checkError.message}`);
-      }
-
-      let orderResult: Order;
-
-      if (existingOrder) {
-        // Update existing pending order
-        console.log(`Updating existing pending order ${existingOrder.id} for table ${tableId}`);
-
-        // Delete existing order items for this order
-        const { error: deleteItemsError } = await supabase
-          .from("order_items")
-          .delete()
-          .eq("order_id", existingOrder.id);
-
-        if (deleteItemsError) {
-          throw new Error(`Failed to delete existing order items: ${deleteItemsError.message}`);
-        }
-
-        // Update the order with new total
-        const { data: updatedOrder, error: updateError } = await supabase
-          .from("orders")
-          .update({
-            total_amount: totalAmount,
-            created_at: new Date().toISOString() // Update timestamp to reflect new order time
-          })
-          .eq("id", existingOrder.id)
-          .select()
-          .single();
-
-        if (updateError) {
-          throw new Error(`Failed to update order: ${updateError.message}`);
+      const key = idempotencyKey || getSubmissionKey(sessionKey, lines);
+
+      const { data, error: submitError } = await supabase.rpc(
+        "submit_table_order",
+        {
+          p_session_key: sessionKey,
+          p_items: lines,
+          p_idempotency_key: key,
         }
+      );
 
-        orderResult = updatedOrder;
-      } else {
-        // Create new order
-        console.log(`Creating new order for table ${tableId}`);
-        const orderData: CreateOrderWithItemsData = {
-          status: "pending",
-          total_amount: totalAmount,
-          table_id: tableId,
-        };
-
-        const { data: newOrder, error: orderError } = await supabase
-          .from("orders")
-          .insert(orderData)
-          .select()
-          .single();
-
-        if (orderError) {
-          throw new Error(`Failed to create order: ${orderError.message}`);
+      if (submitError) {
+        if (submitError.hint === "SESSION_EXPIRED") {
+          throw new TableSessionError("SESSION_EXPIRED", submitError.message);
         }
-
-        orderResult = newOrder;
+        throw new Error(submitError.message || "Failed to submit order");
       }
 
-      // Create new order items
-      const orderItemsData: Omit<OrderItemDB, "id" | "created_at">[] =
-        Object.values(groupedItems).map(({ item, quantity }) => ({
-          order_id: orderResult.id!,
-          meal_id: item.id,
-          quantity: quantity,
-        }));
-
-      const { error: itemsError } = await supabase
-        .from("order_items")
-        .insert(orderItemsData);
+      const { session_expires_at: sessionExpiresAt, ...orderResult } =
+        data as OrderWithMeals & { session_expires_at?: string };
+      sessionStorage.removeItem(SUBMISSION_STORAGE_KEY);
 
-      if (itemsError) {
-        // Clean up if order items failed
-        if (!existingOrder) {
-          // Only delete if it's a new order, don't delete existing orders
-          await supabase.from("orders").delete().eq("id", orderResult.id);
-        }
-        throw new Error(`Failed to create order items: ${itemsError.message}`);
+      // Placing the order kept the table session open for longer
+      if (sessionExpiresAt) {
+        extendTableSession(sessionExpiresAt);
       }
 
       // Update local state
+      const { order_items_db, ...orderRow } = orderResult;
       const orderIndex = orders.value.findIndex(order => order.id === orderResult.id);
       if (orderIndex !== -1) {
         // Update existing order in local state
-        orders.value[orderIndex] = orderResult;
+        orders.value[orderIndex] = orderRow;
       } else {
         // Add new order to local state
-        orders.value.unshift(orderResult);
+        orders.value.unshift(orderRow);
       }
 
       console.log(
-        `Order ${existingOrder ? 'updated' : 'created'} successfully:`,
-        orderResult.id
+        `Order submitted successfully for table ${orderResult.table_id}:`,
+        orderResult.id,
+        `(${order_items_db?.length || 0} lines)`
       );
       return orderResult;
     } catch (err) {
@@ -302,7 +407,8 @@ export const useOrderDataStore = defineStore("orderData", () => {
         .select(
           `
           *,
-          meal:menu(*)
+          meal:menu(*),
+          order_bundle:order_bundles(*)
         `
         )
         .in("order_id", orderIds)
@@ -325,15 +431,15 @@ export const useOrderDataStore = defineStore("orderData", () => {
         } else {
           // Create one entry per meal (considering quantity)
           orderItemsForOrder.forEach((orderItem) => {
-            if (orderItem.meal) {
-              // Create multiple entries for quantity > 1
-              for (let i = 0; i < orderItem.quantity; i++) {
-                expandedOrders.push({
-                  ...order,
-                  meal: orderItem.meal,
-                  total_amount: orderItem.meal.price, // Individual meal price
-                });
-              }
+            // Create multiple entries for quantity > 1
+            for (let i = 0; i < orderItem.quantity; i++) {
+              expandedOrders.push({
+                ...order,
+                // Named and priced as sold, not as the menu is now, and
+                // kept when the item has been deleted since
+                meal: toSoldMenuItem(orderItem),
+                total_amount: getOrderLineUnitPrice(orderItem), // Individual meal price
+              });
             }
           });
         }
@@ -382,7 +488,8 @@ export const useOrderDataStore = defineStore("orderData", () => {
         .select(
           `
           *,
-          meal:menu(*)
+          meal:menu(*),
+          order_bundle:order_bundles(*)
         `
         )
         .eq("order_id", latestOrder.id)
@@ -411,38 +518,145 @@ export const useOrderDataStore = defineStore("orderData", () => {
   };
 
   /**
-   * Update order status
+   * Get specific orders with their items and meal details, newest first
    */
-  const updateOrderStatus = async (
-    orderId: number,
-    status: Order["status"]
-  ): Promise<Order | null> => {
+  const getOrdersWithMealsByIds = async (
+    orderIds: number[]
+  ): Promise<OrderWithMeals[]> => {
+    if (orderIds.length === 0) return [];
+
     try {
       loading.value = true;
       error.value = null;
 
-      const { data, error: updateError } = await supabase
+      const { data: ordersData, error: ordersError } = await supabase
+        .from("orders")
+        .select("*")
+        .in("id", orderIds)
+        .order("created_at", { ascending: false });
+
+      if (ordersError) {
+        throw new Error(`Failed to fetch orders: ${ordersError.message}`);
+      }
+
+      if (!ordersData || ordersData.length === 0) return [];
+
+      const { data: orderItems, error: itemsError } = await supabase
+        .from("order_items")
+        .select(
+          `
+          *,
+          meal:menu(*),
+          order_bundle:order_bundles(*)
+        `
+        )
+        .in("order_id", orderIds)
+        .order("created_at", { ascending: true });
+
+      if (itemsError) {
+        throw new Error(`Failed to fetch order items: ${itemsError.message}`);
+      }
+
+      return ordersData.map((order) => ({
+        ...order,
+        order_items_db:
+          orderItems?.filter((item) => item.order_id === order.id) || [],
+      }));
+    } catch (err) {
+      console.error("Get orders by ids with meals error:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to fetch orders";
+      throw err;
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Move an order to a new status through the order lifecycle.
+   * Rejects illegal transitions with an OrderTransitionError and only writes
+   * if the order is still in the status the transition was checked against.
+   */
+  const transitionOrder = async (
+    orderId: number,
+    to: OrderStatus,
+    options: TransitionOrderOptions = {}
+  ): Promise<Order> => {
+    let from = options.expectedFrom;
+
+    if (!from) {
+      const { data: current, error: fetchError } = await supabase
         .from("orders")
-        .update({ status })
+        .select("status")
         .eq("id", orderId)
-        .select()
-        .single();
+        .maybeSingle();
 
-      if (updateError) {
-        throw new Error(
-          `Failed to update order status: ${updateError.message}`
-        );
+      if (fetchError) {
+        throw new Error(`Failed to fetch order status: ${fetchError.message}`);
       }
 
-      // Update local state
-      const orderIndex = orders.value.findIndex(
-        (order) => order.id === orderId
-      );
-      if (orderIndex !== -1) {
-        orders.value[orderIndex] = { ...orders.value[orderIndex], ...data };
+      if (!current || !isOrderStatus(current.status)) {
+        throw new OrderTransitionError("ORDER_NOT_FOUND", orderId, null, to);
       }
 
-      return data;
+      from = current.status;
+    }
+
+    assertTransition(orderId, from, to);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const actingUserId = sessionData.session?.user.id ?? null;
+
+    const patch: Record<string, unknown> = {
+      ...buildTransitionPatch(from, to, actingUserId),
+    };
+    if (options.reason && (to === "cancelled" || to === "voided")) {
+      patch.cancellation_reason = options.reason;
+    }
+
+    // Guard on the previous status so concurrent updates cannot skip a step
+    const { data, error: updateError } = await supabase
+      .from("orders")
+      .update(patch)
+      .eq("id", orderId)
+      .eq("status", from)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      throw new Error(`Failed to update order status: ${updateError.message}`);
+    }
+
+    if (!data) {
+      throw new OrderTransitionError("STALE_STATUS", orderId, from, to);
+    }
+
+    // Update local state
+    const orderIndex = orders.value.findIndex((order) => order.id === orderId);
+    if (orderIndex !== -1) {
+      orders.value[orderIndex] = { ...orders.value[orderIndex], ...data };
+    }
+    if (currentOrder.value?.id === orderId) {
+      currentOrder.value = { ...currentOrder.value, ...data };
+    }
+
+    console.log(`Order ${orderId}: ${from} → ${to}`);
+    return data;
+  };
+
+  /**
+   * Update order status
+   */
+  const updateOrderStatus = async (
+    orderId: number,
+    status: OrderStatus,
+    options: TransitionOrderOptions = {}
+  ): Promise<Order | null> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      return await transitionOrder(orderId, status, options);
     } catch (err) {
       console.error("Update order status error:", err);
       error.value =
@@ -456,15 +670,21 @@ export const useOrderDataStore = defineStore("orderData", () => {
   /**
    * Cancel an order
    */
-  const cancelOrder = async (orderId: number): Promise<Order | null> => {
-    return updateOrderStatus(orderId, "cancelled");
+  const cancelOrder = async (
+    orderId: number,
+    reason?: string
+  ): Promise<Order | null> => {
+    return updateOrderStatus(orderId, "cancelled", { reason });
   };
 
   /**
    * Update order feedback
+   * Goes through the `submit_order_feedback` RPC, which only accepts orders
+   * placed in the customer's table session.
    */
   const updateOrderFeedback = async (
-    feedbackData: FeedbackData
+    feedbackData: FeedbackData,
+    sessionKey: string
   ): Promise<void> => {
     try {
       loading.value = true;
@@ -472,38 +692,42 @@ export const useOrderDataStore = defineStore("orderData", () => {
 
       console.log("Updating feedback for orders:", feedbackData.orderIds);
 
-      // Create feedback object
+      // Create feedback object; the server stamps when it was submitted
       const feedback = {
         food_rating: feedbackData.foodRating,
         service_rating: feedbackData.serviceRating,
         comments: feedbackData.comments,
-        submitted_at: new Date().toISOString(),
       };
 
       // Update each order individually to ensure proper error handling
       for (const orderId of feedbackData.orderIds) {
-        const { data, error: updateError } = await supabase
-          .from("orders")
-          .update({
-            feedback: JSON.stringify(feedback),
-          })
-          .eq("id", orderId)
-          .select();
+        const { data, error: updateError } = await supabase.rpc(
+          "submit_order_feedback",
+          {
+            p_session_key: sessionKey,
+            p_order_id: orderId,
+            p_feedback: feedback,
+          }
+        );
 
         if (updateError) {
+          if (updateError.hint === "SESSION_EXPIRED") {
+            throw new TableSessionError("SESSION_EXPIRED", updateError.message);
+          }
           throw new Error(
             `Failed to update feedback for order ${orderId}: ${updateError.message}`
           );
         }
 
         // Update local state
+        const { order_items_db, ...orderRow } = data as OrderWithMeals;
         const orderIndex = orders.value.findIndex(
           (order) => order.id === orderId
         );
-        if (orderIndex !== -1 && data && data[0]) {
+        if (orderIndex !== -1) {
           orders.value[orderIndex] = {
             ...orders.value[orderIndex],
-            ...data[0],
+            ...orderRow,
           };
         }
       }
@@ -519,98 +743,11 @@ export const useOrderDataStore = defineStore("orderData", () => {
     }
   };
 
-  /**
-   * Update meal sales and deduct quantities when order is completed
-   */
-  const updateMealSales = async (
-    orderWithMeals: OrderWithMeals
-  ): Promise<void> => {
-    try {
-      loading.value = true;
-      error.value = null;
-
-      if (
-        !orderWithMeals.order_items_db ||
-        orderWithMeals.order_items_db.length === 0
-      ) {
-        console.log("No order items found to update sales and quantities");
-        return;
-      }
-
-      console.log(
-        "Updating meal sales and quantities for order:",
-        orderWithMeals.id
-      );
-
-      // Update sales and quantities for each meal in the order
-      for (const orderItem of orderWithMeals.order_items_db) {
-        const mealId = orderItem.meal_id;
-        const quantity = orderItem.quantity;
-
-        // Get current sales count and quantity
-        const { data: currentMeal, error: fetchError } = await supabase
-          .from("menu")
-          .select("sales, quantity")
-          .eq("id", mealId)
-          .single();
-
-        if (fetchError) {
-          console.error(`Error fetching meal ${mealId}:`, fetchError);
-          continue;
-        }
-
-        const currentSales = currentMeal?.sales || 0;
-        const currentQuantity = currentMeal?.quantity || 0;
-        const newSales = currentSales + quantity;
-        const newQuantity = Math.max(0, currentQuantity - quantity);
-
-        // Update both sales count and quantity
-        const { error: updateError } = await supabase
-          .from("menu")
-          .update({
-            sales: newSales,
-            quantity: newQuantity,
-          })
-          .eq("id", mealId);
-
-        if (updateError) {
-          console.error(
-            `Error updating sales and quantity for meal ${mealId}:`,
-            updateError
-          );
-          continue;
-        }
-
-        console.log(`Successfully updated meal ${mealId}:`);
-        console.log(`  Sales: ${currentSales} → ${newSales}`);
-        console.log(`  Quantity: ${currentQuantity} → ${newQuantity}`);
-
-        // Log warnings for stock issues
-        if (newQuantity === 0) {
-          console.warn(
-            `Warning: Meal ${mealId} is now out of stock (quantity: 0)`
-          );
-        } else if (currentQuantity < quantity) {
-          console.warn(
-            `Warning: Meal ${mealId} had insufficient stock. Ordered: ${quantity}, Available: ${currentQuantity}`
-          );
-        }
-      }
-
-      console.log("All meal sales and quantity updates completed successfully");
-    } catch (err) {
-      console.error("Error in updateMealSales:", err);
-      error.value =
-        err instanceof Error ? err.message : "Failed to update meal sales";
-      throw err;
-    } finally {
-      loading.value = false;
-    }
-  };
-
   /**
    * Complete an order and update meal sales/quantities
-   * This is a centralized method that should be called whenever an order is completed
+   * This is a centralized method that should be called whenever an order is completed.
+   * The database converts the order's stock reservations into a deduction and
+   * counts the sale in the same transaction as the status change.
    */
   const completeOrderWithInventoryUpdate = async (
     orderId: number,
@@ -620,24 +757,11 @@ export const useOrderDataStore = defineStore("orderData", () => {
       loading.value = true;
       error.value = null;
 
-      console.log(`Completing order ${orderId} with inventory update...`);
+      console.log(`Completing order ${orderId} for table ${tableId}...`);
 
-      // Fetch the order with meal details before updating status
-      const orderWithMeals = await getLatestOrderByTableWithMeals(tableId);
-
-      // Verify this is the correct order
-      if (!orderWithMeals || orderWithMeals.id !== orderId) {
-        throw new Error("Order not found or mismatch. Cannot complete order.");
-      }
-
-      // Update order status to completed
-      const updatedOrder = await updateOrderStatus(orderId, "completed");
-
-      // Update meal sales and deduct quantities
-      console.log("Updating meal sales and quantities...");
-      await updateMealSales(orderWithMeals);
-      console.log("Inventory and sales updated successfully");
+      const updatedOrder = await transitionOrder(orderId, "completed");
 
+      console.log("Order completed; reserved stock converted to sales");
       return updatedOrder;
     } catch (err) {
       console.error("Error in completeOrderWithInventoryUpdate:", err);
@@ -709,8 +833,21 @@ export const useOrderDataStore = defineStore("orderData", () => {
     }));
   };
 
-  const calculateOrderTotal = (cartItems: MenuItem[]): number => {
-    return cartItems.reduce((total, item) => total + item.price, 0);
+  /**
+   * What a list of cart units will cost, with VAT and service charge as the
+   * server will price it
+   */
+  const calculateOrderTotal = (
+    cartItems: CartItem[],
+    settings?: PricingSettings
+  ): number => {
+    return priceOrder(
+      cartItems.map((item) => ({
+        amount: getCartItemUnitPrice(item),
+        vat_exempt: item.vat_exempt,
+      })),
+      settings
+    ).total;
   };
 
   return {
@@ -732,10 +869,11 @@ export const useOrderDataStore = defineStore("orderData", () => {
     getOrderById,
     getOrdersByTableWithMeals,
     getLatestOrderByTableWithMeals,
+    getOrdersWithMealsByIds,
+    transitionOrder,
     updateOrderStatus,
     cancelOrder,
     updateOrderFeedback,
-    updateMealSales,
     completeOrderWithInventoryUpdate,
     fetchOrdersByTable,
 
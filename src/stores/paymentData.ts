@@ -0,0 +1,127 @@
+/**
+ * Payment Data Store
+ *
+ * Records how orders are paid: the tenders taken against an order or one
+ * share of its split bill, and what is still owed. The database refuses to
+ * complete an order until its tenders cover the total.
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import { supabase } from "@/lib/supabase";
+import {
+  toOrderPayment,
+  type OrderPayment,
+  type TenderDraft,
+} from "@/utils/payments";
+
+export const usePaymentDataStore = defineStore("paymentData", () => {
+  // State
+  const orderId = ref<number | null>(null);
+  const payments = ref<OrderPayment[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Getters
+  const paidAmount = computed(() =>
+    payments.value.reduce((total, payment) => total + payment.amount, 0)
+  );
+
+  /**
+   * Amount already paid towards one share of a split bill
+   */
+  const paidForShare = computed(() => (shareId: number) =>
+    payments.value
+      .filter((payment) => payment.bill_share_id === shareId)
+      .reduce((total, payment) => total + payment.amount, 0)
+  );
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch the tenders already taken for an order
+   */
+  const fetchPayments = async (id: number): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+      orderId.value = id;
+
+      const { data, error: fetchError } = await supabase
+        .from("order_payments")
+        .select("*")
+        .eq("order_id", id)
+        .order("created_at");
+
+      if (fetchError) throw fetchError;
+
+      payments.value = (data || []).map(toOrderPayment);
+    } catch (err) {
+      console.error("Error fetching payments:", err);
+      error.value = "Failed to load payments";
+      payments.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Record tenders against an order, or against one share of its split bill
+   */
+  const recordPayment = async (
+    id: number,
+    tenders: TenderDraft[],
+    shareId: number | null = null
+  ): Promise<OrderPayment[]> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { data, error: paymentError } = await supabase.rpc(
+        "record_order_payment",
+        {
+          p_order_id: id,
+          p_tenders: tenders,
+          p_share_id: shareId,
+        }
+      );
+
+      if (paymentError) {
+        throw new Error(paymentError.message);
+      }
+
+      orderId.value = id;
+      payments.value = (data || []).map(toOrderPayment);
+      return payments.value;
+    } catch (err) {
+      console.error("Error in recordPayment:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to record payment";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    orderId,
+    payments,
+    loading,
+    saving,
+    error,
+
+    // Getters
+    paidAmount,
+    paidForShare,
+
+    // Actions
+    clearError,
+    fetchPayments,
+    recordPayment,
+  };
+});
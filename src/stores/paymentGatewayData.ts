@@ -0,0 +1,172 @@
+/**
+ * Payment Gateway Data Store
+ *
+ * Online payment settings of the branch (pay-first mode and the provider
+ * customers pay through) and, for staff, the payment intents of an order
+ * with refunds. Customers pay through the online payment composable.
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import { supabase } from "@/lib/supabase";
+import { useAuthUserStore } from "@/stores/authUser";
+import {
+  getPaymentProvider,
+  NO_PAYMENT_PROVIDER,
+  toPaymentIntent,
+  type PaymentIntent,
+} from "@/lib/paymentGateway";
+
+export interface PaymentSettings {
+  pay_first: boolean;
+  provider: string;
+}
+
+export const usePaymentGatewayDataStore = defineStore("paymentGatewayData", () => {
+  const authStore = useAuthUserStore();
+
+  // State
+  const settings = ref<PaymentSettings>({
+    pay_first: false,
+    provider: NO_PAYMENT_PROVIDER,
+  });
+  const intents = ref<PaymentIntent[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Getters
+  const payFirst = computed(() => settings.value.pay_first);
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch the branch's online payment settings
+   */
+  const fetchSettings = async (): Promise<void> => {
+    try {
+      error.value = null;
+
+      const { data, error: fetchError } = await supabase
+        .from("payment_settings")
+        .select("pay_first, provider")
+        .eq("branch_id", authStore.currentBranchId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      if (data) {
+        settings.value = data;
+      }
+    } catch (err) {
+      console.error("Error fetching payment settings:", err);
+      error.value = "Failed to load payment settings";
+    }
+  };
+
+  /**
+   * Save the branch's online payment settings; orders placed from now on
+   * follow the new pay-first setting
+   */
+  const saveSettings = async (changes: PaymentSettings): Promise<boolean> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { data: userData } = await supabase.auth.getUser();
+      const { error: saveError } = await supabase
+        .from("payment_settings")
+        .upsert({
+          branch_id: authStore.currentBranchId,
+          ...changes,
+          updated_at: new Date().toISOString(),
+          updated_by: userData.user?.id ?? null,
+        });
+
+      if (saveError) {
+        throw new Error(`Failed to save payment settings: ${saveError.message}`);
+      }
+
+      settings.value = { ...changes };
+      return true;
+    } catch (err) {
+      console.error("Error saving payment settings:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to save payment settings";
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Fetch the online payment attempts made for an order
+   */
+  const fetchIntents = async (orderId: number): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      const { data, error: fetchError } = await supabase
+        .from("payment_intents")
+        .select("*")
+        .eq("order_id", orderId)
+        .order("created_at", { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      intents.value = (data || []).map(toPaymentIntent);
+    } catch (err) {
+      console.error("Error fetching payment intents:", err);
+      error.value = "Failed to load online payments";
+      intents.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Give an online payment back through the provider it was made with
+   */
+  const refundIntent = async (intent: PaymentIntent): Promise<PaymentIntent> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const refunded = await getPaymentProvider(intent.provider).refund(intent.id);
+
+      intents.value = intents.value.map((entry) =>
+        entry.id === refunded.id ? refunded : entry
+      );
+      return refunded;
+    } catch (err) {
+      console.error("Error in refundIntent:", err);
+      error.value = err instanceof Error ? err.message : "Failed to refund payment";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    settings,
+    intents,
+    loading,
+    saving,
+    error,
+
+    // Getters
+    payFirst,
+
+    // Actions
+    clearError,
+    fetchSettings,
+    saveSettings,
+    fetchIntents,
+    refundIntent,
+  };
+});
@@ -0,0 +1,186 @@
+/**
+ * Pricing Data Store
+ *
+ * The branch's VAT and service charge settings, and the senior citizen / PWD
+ * discounts recorded on an order. Orders are priced in the database; see
+ * utils/pricing for how.
+ */
+
+import { defineStore } from "pinia";
+import { ref } from "vue";
+import { supabase } from "@/lib/supabase";
+import { useAuthUserStore } from "@/stores/authUser";
+import type { Order } from "@/stores/orderData";
+import {
+  DEFAULT_PRICING_SETTINGS,
+  toOrderDiscount,
+  type DiscountHolder,
+  type OrderDiscount,
+  type PricingSettings,
+} from "@/utils/pricing";
+
+export const usePricingDataStore = defineStore("pricingData", () => {
+  const authStore = useAuthUserStore();
+
+  // State
+  const settings = ref<PricingSettings>({ ...DEFAULT_PRICING_SETTINGS });
+  // Discounts of the order being paid
+  const orderId = ref<number | null>(null);
+  const discounts = ref<OrderDiscount[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch the branch's VAT and service charge settings
+   */
+  const fetchSettings = async (): Promise<void> => {
+    try {
+      error.value = null;
+
+      const { data, error: fetchError } = await supabase
+        .from("pricing_settings")
+        .select("vat_rate, prices_include_vat, service_charge_rate")
+        .eq("branch_id", authStore.currentBranchId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      if (data) {
+        settings.value = {
+          vat_rate: Number(data.vat_rate),
+          prices_include_vat: data.prices_include_vat,
+          service_charge_rate: Number(data.service_charge_rate),
+        };
+      }
+    } catch (err) {
+      console.error("Error fetching pricing settings:", err);
+      error.value = "Failed to load pricing settings";
+    }
+  };
+
+  /**
+   * Save the branch's VAT and service charge settings; open orders are
+   * repriced the next time their items change
+   */
+  const saveSettings = async (changes: PricingSettings): Promise<boolean> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { data: userData } = await supabase.auth.getUser();
+      const { error: saveError } = await supabase
+        .from("pricing_settings")
+        .upsert({
+          branch_id: authStore.currentBranchId,
+          ...changes,
+          updated_at: new Date().toISOString(),
+          updated_by: userData.user?.id ?? null,
+        });
+
+      if (saveError) {
+        throw new Error(`Failed to save pricing settings: ${saveError.message}`);
+      }
+
+      settings.value = { ...changes };
+      return true;
+    } catch (err) {
+      console.error("Error saving pricing settings:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to save pricing settings";
+      return false;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Fetch the senior citizen / PWD discounts recorded on an order
+   */
+  const fetchDiscounts = async (id: number): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+      orderId.value = id;
+
+      const { data, error: fetchError } = await supabase
+        .from("order_discounts")
+        .select("*")
+        .eq("order_id", id)
+        .order("id");
+
+      if (fetchError) throw fetchError;
+
+      // Ignore a late response for an order that is no longer open
+      if (orderId.value !== id) return;
+      discounts.value = (data || []).map(toOrderDiscount);
+    } catch (err) {
+      console.error("Error fetching order discounts:", err);
+      error.value = "Failed to load discounts";
+      discounts.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Record the senior citizen / PWD diners sharing an order and reprice it.
+   * An empty list removes the discounts.
+   * Returns the repriced order.
+   */
+  const applyDiscounts = async (
+    id: number,
+    headcount: number,
+    holders: DiscountHolder[]
+  ): Promise<Order> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { data, error: applyError } = await supabase.rpc(
+        "apply_order_discounts",
+        {
+          p_order_id: id,
+          p_headcount: headcount,
+          p_discounts: holders,
+        }
+      );
+
+      if (applyError) {
+        throw new Error(applyError.message || "Failed to apply discounts");
+      }
+
+      await fetchDiscounts(id);
+      return data as Order;
+    } catch (err) {
+      console.error("Error in applyDiscounts:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to apply discounts";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    settings,
+    orderId,
+    discounts,
+    loading,
+    saving,
+    error,
+
+    // Actions
+    clearError,
+    fetchSettings,
+    saveSettings,
+    fetchDiscounts,
+    applyDiscounts,
+  };
+});
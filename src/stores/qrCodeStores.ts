@@ -1,85 +1,235 @@
 import { defineStore } from 'pinia';
-import { ref, computed, watch } from 'vue';
+import { ref, computed } from 'vue';
+import { supabase } from '@/lib/supabase';
+import { useTableDataStore } from '@/stores/tableData';
+import { useAuthUserStore } from '@/stores/authUser';
+import {
+    getAppEnvironment,
+    normalizeCustomerOrigin,
+    validateCustomerOrigin,
+} from '@/utils/customerOrigin';
 
-// Define the base domain for the customer-facing menu application
-const BASE_DOMAIN = 'https://dhome-makers.vercel.app';
+// Path of the customer-facing menu, appended to the customer origin
 const MENU_PATH = '/customer/menu';
 
-// LocalStorage key for persisting the table count
-const STORAGE_KEY = 'coffee_shop_table_count';
-
 /**
  * Pinia Store for managing QR code generation parameters and logic.
  * This is meant to be used on an internal Admin/Cashier page.
+ * The tables themselves come from the `tables` table via useTableDataStore.
+ * The origin the codes point at is stored per branch and environment in
+ * `customer_origins`; until one is saved, this deployment's own origin is used.
  */
 export const useQrCodeStore = defineStore('qrCode', () => {
-    // Load the persisted table count from localStorage, or default to 10
-    const loadPersistedTableCount = (): number => {
+    const tableStore = useTableDataStore();
+    const authStore = useAuthUserStore();
+
+    // Deployment environment, e.g. 'staging'
+    const environment = getAppEnvironment();
+
+    // Saved customer origin for this branch and environment, if any
+    const savedOrigin = ref<string | null>(null);
+    const savingOrigin = ref(false);
+
+    // Computed: The origin the QR codes point at
+    const customerOrigin = computed(() => {
+        return savedOrigin.value || window.location.origin;
+    });
+
+    // Computed: Configuration for the coffee shop
+    const shopConfig = computed(() => ({
+        // The base URL used for the QR code link (to the customer menu)
+        baseUrl: `${customerOrigin.value}${MENU_PATH}`,
+    }));
+
+    // Signed QR token per table, e.g. { 5: "2.9f86d081..." }
+    const tokens = ref<Record<number, string>>({});
+    const loading = ref(false);
+    const error = ref<string | null>(null);
+
+    // Computed: IDs of the tables in use, e.g. [1, 2, 5]
+    const tableIds = computed(() => {
+        return tableStore.activeTables.map((table) => table.id);
+    });
+
+    /**
+     * Constructs the full, scannable URL for a specific table.
+     * Example: https://dhome-makers.vercel.app/customer/menu?table=5&t=2.9f86d081...
+     * The token is signed on the server; links without a valid token are
+     * rejected when scanned.
+     * @param tableId The ID of the table.
+     * @param origin Origin to preview instead of the saved one.
+     * @returns The full URL string with the table and token query parameters.
+     */
+    const generateTableLink = (tableId: number, origin?: string): string => {
+        const token = tokens.value[tableId];
+        const baseUrl = origin ? `${origin}${MENU_PATH}` : shopConfig.value.baseUrl;
+        const link = `${baseUrl}?table=${tableId}`;
+        return token ? `${link}&t=${encodeURIComponent(token)}` : link;
+    };
+
+    /**
+     * Fetches the customer origin saved for this branch and environment.
+     */
+    const fetchCustomerOrigin = async (): Promise<void> => {
         try {
-            const stored = localStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const parsed = parseInt(stored, 10);
-                return parsed > 0 ? parsed : 10;
+            error.value = null;
+
+            const { data, error: fetchError } = await supabase
+                .from('customer_origins')
+                .select('origin')
+                .eq('branch_id', authStore.currentBranchId)
+                .eq('environment', environment)
+                .maybeSingle();
+
+            if (fetchError) {
+                throw new Error(`Failed to fetch the customer address: ${fetchError.message}`);
             }
-        } catch (e) {
-            console.error('Error loading persisted table count:', e);
+
+            savedOrigin.value = data?.origin ?? null;
+        } catch (err) {
+            console.error('Error fetching customer origin:', err);
+            error.value = err instanceof Error ? err.message : 'Failed to fetch the customer address';
         }
-        return 10;
     };
 
-    // State: Configuration for the coffee shop
-    const shopConfig = ref({
-        // The total number of tables in the coffee shop (load from localStorage)
-        totalTables: loadPersistedTableCount(),
-        // The base URL used for the QR code link (to the customer menu)
-        baseUrl: `${BASE_DOMAIN}${MENU_PATH}`,
-    });
+    /**
+     * Saves the origin QR codes point at for this branch and environment.
+     * Codes already printed keep their old address until they are reprinted.
+     * @param origin The new origin, e.g. https://order.example.com
+     * @returns Whether the origin was saved.
+     */
+    const saveCustomerOrigin = async (origin: string): Promise<boolean> => {
+        const validationError = validateCustomerOrigin(origin);
+        if (validationError) {
+            error.value = validationError;
+            return false;
+        }
+
+        try {
+            savingOrigin.value = true;
+            error.value = null;
+
+            const normalized = normalizeCustomerOrigin(origin);
+            const { data: userData } = await supabase.auth.getUser();
+            const { error: saveError } = await supabase
+                .from('customer_origins')
+                .upsert({
+                    branch_id: authStore.currentBranchId,
+                    environment,
+                    origin: normalized,
+                    updated_at: new Date().toISOString(),
+                    updated_by: userData.user?.id ?? null,
+                });
 
-    // Watch for changes to totalTables and persist to localStorage
-    watch(
-        () => shopConfig.value.totalTables,
-        (newCount) => {
-            try {
-                localStorage.setItem(STORAGE_KEY, newCount.toString());
-            } catch (e) {
-                console.error('Error persisting table count:', e);
+            if (saveError) {
+                throw new Error(`Failed to save the customer address: ${saveError.message}`);
             }
+
+            savedOrigin.value = normalized;
+            return true;
+        } catch (err) {
+            console.error('Error saving customer origin:', err);
+            error.value = err instanceof Error ? err.message : 'Failed to save the customer address';
+            return false;
+        } finally {
+            savingOrigin.value = false;
         }
-    );
+    };
 
-    // Computed: Generate a list of all table IDs (1, 2, 3, ...)
-    const tableIds = computed(() => {
-        // Creates an array [1, 2, ..., totalTables]
-        return Array.from({ length: shopConfig.value.totalTables }, (_, i) => i + 1);
-    });
+    /**
+     * Fetches the current signed token of every table.
+     */
+    const fetchTokens = async (): Promise<void> => {
+        if (tableIds.value.length === 0) {
+            tokens.value = {};
+            return;
+        }
+
+        try {
+            loading.value = true;
+            error.value = null;
+
+            const { data, error: fetchError } = await supabase.rpc('get_table_qr_tokens', {
+                p_table_numbers: tableIds.value,
+            });
+
+            if (fetchError) {
+                throw new Error(`Failed to fetch table QR tokens: ${fetchError.message}`);
+            }
+
+            tokens.value = Object.fromEntries(
+                (data || []).map((row: { table_number: number; token: string }) => [
+                    row.table_number,
+                    row.token,
+                ])
+            );
+        } catch (err) {
+            console.error('Error fetching table QR tokens:', err);
+            error.value = err instanceof Error ? err.message : 'Failed to fetch table QR tokens';
+        } finally {
+            loading.value = false;
+        }
+    };
 
     /**
-     * Constructs the full, scannable URL for a specific table.
-     * Example: https://dhome-makers.vercel.app/menu?table=5
+     * Issues a new token for a table. Its printed QR code stops working and
+     * anyone seated there has to scan the new one.
      * @param tableId The ID of the table.
-     * @returns The full URL string with the table query parameter.
+     * @returns Whether the token was rotated.
      */
-    const generateTableLink = (tableId: number): string => {
-        return `${shopConfig.value.baseUrl}?table=${tableId}`;
+    const rotateToken = async (tableId: number): Promise<boolean> => {
+        try {
+            loading.value = true;
+            error.value = null;
+
+            const { data, error: rotateError } = await supabase.rpc('rotate_table_qr_token', {
+                p_table_number: tableId,
+            });
+
+            if (rotateError) {
+                throw new Error(`Failed to rotate table QR code: ${rotateError.message}`);
+            }
+
+            tokens.value = { ...tokens.value, [tableId]: data as string };
+            return true;
+        } catch (err) {
+            console.error('Error rotating table QR token:', err);
+            error.value = err instanceof Error ? err.message : 'Failed to rotate table QR code';
+            return false;
+        } finally {
+            loading.value = false;
+        }
     };
 
     /**
-     * Updates the total number of tables.
-     * @param count The new total number of tables.
+     * Issues a new token for every table in use, so every printed code stops
+     * working and every open table session has to scan again. Moving the
+     * customer address does not need this: the codes are redrawn with the
+     * tokens they already have.
+     * @returns Whether every token was rotated.
      */
-    const setTotalTables = (count: number) => {
-        if (count >= 1) {
-            shopConfig.value.totalTables = count;
-        } else {
-            // Log an error if the count is invalid
-            console.error("Total tables must be at least 1.");
+    const rotateAllTokens = async (): Promise<boolean> => {
+        for (const tableId of tableIds.value) {
+            if (!(await rotateToken(tableId))) return false;
         }
+        return true;
     };
 
     return {
+        environment,
+        savedOrigin,
+        savingOrigin,
+        customerOrigin,
         shopConfig,
+        tokens,
+        loading,
+        error,
         tableIds,
         generateTableLink,
-        setTotalTables,
+        fetchCustomerOrigin,
+        saveCustomerOrigin,
+        fetchTokens,
+        rotateToken,
+        rotateAllTokens,
     };
 });
\ No newline at end of file
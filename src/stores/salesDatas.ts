@@ -6,13 +6,42 @@
  * - Order statistics
  * - Top selling items
  * - Category performance
- * - Sales reports and exports
+ * - Combo and bundle sales
+ * - Takings by payment method
+ * - VAT and senior citizen / PWD discount summary
+ * - Busy hours by weekday, with kitchen times, for staffing
+ * - Menu engineering: popularity and margin of each dish
+ *
+ * Dishes sold inside a bundle count towards the dish and its category with
+ * their share of the bundle price, and the bundle reports its full price.
+ * Lines are reported by the name, category and price they were sold at, so
+ * later menu changes do not rewrite past sales.
+ *
+ * Totals are worked out in the database by the `sales_*` functions over
+ * café days (see utils/salesPeriods), and each period's report is cached.
  */
 
 import { defineStore } from "pinia";
 import { ref, computed } from "vue";
 import { supabase } from "@/lib/supabase";
 import type { OrderWithMeals } from "@/stores/orderData";
+import { getCafeClock } from "@/utils/menuSchedule";
+import {
+  totalsByMethod,
+  type PaymentMethod,
+  type PaymentMethodTotal,
+} from "@/utils/payments";
+import {
+  MENU_CLASSES,
+  buildMenuEngineering,
+} from "@/utils/menuEngineering";
+import {
+  formatTrendLabel,
+  getPeriodRange,
+  getTrendBucket,
+  type SalesPeriod,
+  type TrendBucket,
+} from "@/utils/salesPeriods";
 
 export interface SalesSummary {
   totalRevenue: number;
@@ -24,7 +53,8 @@ export interface SalesSummary {
 }
 
 export interface TopSellingItem {
-  id: number;
+  // Null for items that have since been deleted
+  id: number | null;
   name: string;
   category: string;
   quantitySold: number;
@@ -32,6 +62,21 @@ export interface TopSellingItem {
   image?: string;
 }
 
+export interface BundleComponentSales {
+  name: string;
+  quantitySold: number;
+  revenue: number;
+}
+
+export interface BundleSales {
+  // Null for bundles that have since been deleted
+  id: number | null;
+  name: string;
+  quantitySold: number;
+  revenue: number;
+  components: BundleComponentSales[];
+}
+
 export interface CategorySales {
   name: string;
   itemsSold: number;
@@ -40,12 +85,197 @@ export interface CategorySales {
   percentage: number;
 }
 
+export interface TaxSummary {
+  grossSales: number;
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  discountAmount: number;
+  serviceCharge: number;
+  netSales: number;
+  seniorDiscounts: number;
+  pwdDiscounts: number;
+}
+
+const emptyTaxSummary = (): TaxSummary => ({
+  grossSales: 0,
+  vatableSales: 0,
+  vatAmount: 0,
+  vatExemptSales: 0,
+  discountAmount: 0,
+  serviceCharge: 0,
+  netSales: 0,
+  seniorDiscounts: 0,
+  pwdDiscounts: 0,
+});
+
 export interface SalesTrendPoint {
+  // Start of the hour ("2026-10-19T13:00") or day ("2026-10-19"), café time
   date: string;
+  label: string;
+  revenue: number;
+  orders: number;
+}
+
+/**
+ * Sales in one hour of one weekday (0 = Sunday) over the period, café time
+ */
+export interface SalesHeatmapCell {
+  weekday: number;
+  hour: number;
+  // How many times the weekday occurs in the period
+  days: number;
+  orders: number;
+  itemsSold: number;
+  revenue: number;
+  // Null when no order in the slot has the timestamps
+  avgPrepMinutes: number | null;
+  avgWaitMinutes: number | null;
+}
+
+/**
+ * Units sold, revenue and cost per serving of a dish over the period
+ */
+export interface MenuEngineeringItem {
+  // Null for a dish that was deleted since
+  id: number | null;
+  name: string;
+  category: string;
+  quantitySold: number;
+  revenue: number;
+  // Null when the dish has no cost entered
+  unitCost: number | null;
+}
+
+// Rows of the `sales_*` functions; numerics arrive as JSON numbers
+
+interface SalesTotalsRow {
   revenue: number;
   orders: number;
+  items_sold: number;
+}
+
+interface SalesSummaryResult {
+  current: SalesTotalsRow;
+  // Null when there is no period to compare with
+  previous: SalesTotalsRow | null;
+}
+
+interface SalesTopItemRow {
+  meal_id: number | null;
+  name: string;
+  category: string;
+  image: string | null;
+  quantity_sold: number;
+  revenue: number;
+}
+
+interface SalesCategoryRow {
+  category: string;
+  items_sold: number;
+  revenue: number;
+}
+
+interface SalesBundleComponentRow {
+  name: string;
+  quantity_sold: number;
+  revenue: number;
 }
 
+interface SalesBundleRow {
+  bundle_id: number | null;
+  name: string;
+  quantity_sold: number;
+  revenue: number;
+  components: SalesBundleComponentRow[] | null;
+}
+
+interface SalesPaymentMethodRow {
+  method: PaymentMethod;
+  transactions: number;
+  amount: number;
+}
+
+interface SalesTaxSummaryRow {
+  gross_sales: number;
+  vatable_sales: number;
+  vat_amount: number;
+  vat_exempt_sales: number;
+  discount_amount: number;
+  service_charge: number;
+  net_sales: number;
+  senior_discounts: number;
+  pwd_discounts: number;
+}
+
+interface SalesTrendRow {
+  // Start of the hour or day, café time, e.g. "2026-10-19T13:00:00"
+  bucket: string;
+  revenue: number;
+  orders: number;
+}
+
+interface SalesHeatmapRow {
+  weekday: number;
+  hour: number;
+  days: number;
+  orders: number;
+  items_sold: number;
+  revenue: number;
+  // Null when no order in the slot was timed
+  avg_prep_minutes: number | null;
+  avg_wait_minutes: number | null;
+}
+
+interface MenuEngineeringRow {
+  // Null for dishes since deleted, grouped by the name they were sold under
+  meal_id: number | null;
+  name: string;
+  category: string;
+  quantity_sold: number;
+  revenue: number;
+  // Null when the dish has no cost entered
+  unit_cost: number | null;
+}
+
+// Everything the dashboard shows for one period, as cached
+interface SalesReport {
+  summary: SalesSummary;
+  topSellingItems: TopSellingItem[];
+  categorySales: CategorySales[];
+  bundleSales: BundleSales[];
+  paymentMethodSales: PaymentMethodTotal[];
+  taxSummary: TaxSummary;
+  salesTrend: SalesTrendPoint[];
+  salesHeatmap: SalesHeatmapCell[];
+  menuEngineering: MenuEngineeringItem[];
+}
+
+const REPORT_CACHE_TTL = 5 * 60 * 1000;
+
+const growth = (current: number, previous: number): number =>
+  previous > 0 ? ((current - previous) / previous) * 100 : 0;
+
+/**
+ * Summary from `sales_summary` totals; growth is 0 without a previous period
+ */
+const toSalesSummary = (
+  current: SalesTotalsRow,
+  previous: SalesTotalsRow | null
+): SalesSummary => {
+  const totalRevenue = Number(current.revenue);
+  const totalOrders = Number(current.orders);
+
+  return {
+    totalRevenue,
+    totalOrders,
+    averageOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0,
+    totalItemsSold: Number(current.items_sold),
+    revenueGrowth: previous ? growth(totalRevenue, Number(previous.revenue)) : 0,
+    ordersGrowth: previous ? growth(totalOrders, Number(previous.orders)) : 0,
+  };
+};
+
 export const useSalesDataStore = defineStore("salesData", () => {
   // State
   const salesSummary = ref<SalesSummary>({
@@ -59,67 +289,131 @@ export const useSalesDataStore = defineStore("salesData", () => {
 
   const topSellingItems = ref<TopSellingItem[]>([]);
   const categorySales = ref<CategorySales[]>([]);
+  const bundleSales = ref<BundleSales[]>([]);
+  const paymentMethodSales = ref<PaymentMethodTotal[]>([]);
+  const taxSummary = ref<TaxSummary>(emptyTaxSummary());
   const salesTrend = ref<SalesTrendPoint[]>([]);
+  const salesHeatmap = ref<SalesHeatmapCell[]>([]);
+  const menuEngineering = ref<MenuEngineeringItem[]>([]);
   const recentOrders = ref<any[]>([]);
 
   const loading = ref(false);
   const error = ref<string | null>(null);
 
   const currentPeriod = ref<string>("today");
+  // Café days of the period shown, YYYY-MM-DD
   const startDate = ref<string>("");
   const endDate = ref<string>("");
 
+  // Reports by "from|to"
+  const reportCache = new Map<string, { fetchedAt: number; report: SalesReport }>();
+
   // Actions
   const clearError = (): void => {
     error.value = null;
   };
 
   /**
-   * Get date range for different periods
+   * Put a report on the dashboard
    */
-  const getDateRange = (period: "today" | "week" | "month" | "year"): [Date, Date] => {
-    const end = new Date();
-    const start = new Date();
-
-    switch (period) {
-      case "today":
-        start.setHours(0, 0, 0, 0);
-        break;
-      case "week":
-        start.setDate(end.getDate() - 7);
-        start.setHours(0, 0, 0, 0);
-        break;
-      case "month":
-        start.setMonth(end.getMonth() - 1);
-        start.setHours(0, 0, 0, 0);
-        break;
-      case "year":
-        start.setFullYear(end.getFullYear() - 1);
-        start.setHours(0, 0, 0, 0);
-        break;
+  const applyReport = (report: SalesReport): void => {
+    salesSummary.value = report.summary;
+    topSellingItems.value = report.topSellingItems;
+    categorySales.value = report.categorySales;
+    bundleSales.value = report.bundleSales;
+    paymentMethodSales.value = report.paymentMethodSales;
+    taxSummary.value = report.taxSummary;
+    salesTrend.value = report.salesTrend;
+    salesHeatmap.value = report.salesHeatmap;
+    menuEngineering.value = report.menuEngineering;
+  };
+
+  /**
+   * Load the report for a period, from the cache when it is fresh enough.
+   * Periods that ended before today are kept until a forced refresh; those
+   * that include today for a few minutes.
+   */
+  const loadReport = async (
+    from: string,
+    to: string,
+    forceRefresh: boolean
+  ): Promise<void> => {
+    const key = `${from}|${to}`;
+    const cached = reportCache.get(key);
+    const includesToday = to >= getCafeClock().date;
+
+    if (
+      !forceRefresh &&
+      cached &&
+      (!includesToday || Date.now() - cached.fetchedAt < REPORT_CACHE_TTL)
+    ) {
+      applyReport(cached.report);
+      return;
     }
 
-    return [start, end];
+    const [
+      summary,
+      topItems,
+      categories,
+      bundles,
+      paymentMethods,
+      tax,
+      trend,
+      heatmap,
+      engineering,
+    ] = await Promise.all([
+      fetchSalesSummary(from, to),
+      fetchTopSellingItems(from, to),
+      fetchCategorySales(from, to),
+      fetchBundleSales(from, to),
+      fetchPaymentMethodSales(from, to),
+      fetchTaxSummary(from, to),
+      fetchSalesTrend(from, to, getTrendBucket(from, to)),
+      fetchSalesHeatmap(from, to),
+      fetchMenuEngineering(from, to),
+    ]);
+
+    const report: SalesReport = {
+      summary,
+      topSellingItems: topItems,
+      categorySales: categories,
+      bundleSales: bundles,
+      paymentMethodSales: paymentMethods,
+      taxSummary: tax,
+      salesTrend: trend,
+      salesHeatmap: heatmap,
+      menuEngineering: engineering,
+    };
+
+    reportCache.set(key, { fetchedAt: Date.now(), report });
+    applyReport(report);
+  };
+
+  /**
+   * Forget every cached report, e.g. after orders were voided
+   */
+  const clearCache = (): void => {
+    reportCache.clear();
   };
 
   /**
-   * Fetch sales data for a specific period
+   * Fetch sales data for a specific period ending today
    */
-  const fetchSalesData = async (period: "today" | "week" | "month" | "year"): Promise<void> => {
+  const fetchSalesData = async (
+    period: SalesPeriod,
+    forceRefresh = false
+  ): Promise<void> => {
     try {
       loading.value = true;
       error.value = null;
       currentPeriod.value = period;
 
-      const [start, end] = getDateRange(period);
-      startDate.value = start.toISOString();
-      endDate.value = end.toISOString();
+      const [from, to] = getPeriodRange(period);
+      startDate.value = from;
+      endDate.value = to;
 
       await Promise.all([
-        fetchSalesSummary(start, end),
-        fetchTopSellingItems(start, end),
-        fetchCategorySales(start, end),
-        fetchSalesTrend(start, end, period),
+        loadReport(from, to, forceRefresh),
         fetchRecentOrders(20),
       ]);
 
@@ -133,39 +427,26 @@ export const useSalesDataStore = defineStore("salesData", () => {
   };
 
   /**
-   * Fetch sales data by custom date range
+   * Fetch sales data for café days `from` to `to` (YYYY-MM-DD), inclusive
    */
-  const fetchSalesDataByRange = async (from: string, to: string): Promise<void> => {
+  const fetchSalesDataByRange = async (
+    from: string,
+    to: string,
+    forceRefresh = false
+  ): Promise<void> => {
     try {
       loading.value = true;
       error.value = null;
+      currentPeriod.value = "custom";
 
-      const start = new Date(from);
-      const end = new Date(to);
-      end.setHours(23, 59, 59, 999);
-
-      console.log('Store: fetchSalesDataByRange called with:', {
-        from,
-        to,
-        start,
-        end,
-        startISO: start.toISOString(),
-        endISO: end.toISOString()
-      });
-
-      startDate.value = start.toISOString();
-      endDate.value = end.toISOString();
+      startDate.value = from;
+      endDate.value = to;
 
       await Promise.all([
-        fetchSalesSummary(start, end),
-        fetchTopSellingItems(start, end),
-        fetchCategorySales(start, end),
-        fetchSalesTrend(start, end, "custom"),
+        loadReport(from, to, forceRefresh),
         fetchRecentOrders(20),
       ]);
 
-      console.log('Store: Data fetched successfully, salesSummary:', salesSummary.value);
-
     } catch (err) {
       console.error("Error fetching sales data by range:", err);
       error.value = "Failed to load sales data";
@@ -176,258 +457,288 @@ export const useSalesDataStore = defineStore("salesData", () => {
   };
 
   /**
-   * Fetch sales summary with growth comparison
+   * Fetch sales summary with growth against the period just before
    */
-  const fetchSalesSummary = async (start: Date, end: Date): Promise<void> => {
+  const fetchSalesSummary = async (from: string, to: string): Promise<SalesSummary> => {
     try {
-      console.log('fetchSalesSummary called with:', {
-        start: start.toISOString(),
-        end: end.toISOString()
+      const { data, error: summaryError } = await supabase.rpc("sales_summary", {
+        p_from: from,
+        p_to: to,
       });
 
-      // Fetch current period orders
-      const { data: currentOrders, error: currentError } = await supabase
-        .from("orders")
-        .select("*")
-        .in("status", ["completed", "ready"])
-        .gte("created_at", start.toISOString())
-        .lte("created_at", end.toISOString());
+      if (summaryError) throw summaryError;
 
-      console.log('Database query result:', {
-        currentOrders: currentOrders,
-        currentError: currentError,
-        ordersCount: currentOrders?.length || 0
-      });
+      const summary: SalesSummaryResult = data;
+      return toSalesSummary(summary.current, summary.previous);
 
-      if (currentError) throw currentError;
+    } catch (err) {
+      console.error("Error fetching sales summary:", err);
+      throw err;
+    }
+  };
 
-      // Calculate period length for comparison
-      const periodLength = end.getTime() - start.getTime();
-      const previousStart = new Date(start.getTime() - periodLength);
-      const previousEnd = new Date(start.getTime());
+  /**
+   * Fetch top selling items
+   */
+  const fetchTopSellingItems = async (
+    from: string,
+    to: string,
+    limit = 10
+  ): Promise<TopSellingItem[]> => {
+    try {
+      const { data, error: itemsError } = await supabase.rpc("sales_top_items", {
+        p_from: from,
+        p_to: to,
+        p_limit: limit,
+      });
 
-      // Fetch previous period for growth comparison
-      const { data: previousOrders, error: previousError } = await supabase
-        .from("orders")
-        .select("*")
-        .in("status", ["completed", "ready"])
-        .gte("created_at", previousStart.toISOString())
-        .lte("created_at", previousEnd.toISOString());
+      if (itemsError) throw itemsError;
 
-      if (previousError) throw previousError;
+      const rows: SalesTopItemRow[] = data || [];
+      return rows.map((row) => ({
+        id: row.meal_id,
+        name: row.name,
+        category: row.category,
+        quantitySold: Number(row.quantity_sold),
+        revenue: Number(row.revenue),
+        image: row.image || undefined,
+      }));
 
-      // Calculate current metrics
-      const totalRevenue = currentOrders?.reduce((sum, order) => sum + order.total_amount, 0) || 0;
-      const totalOrders = currentOrders?.length || 0;
-      const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
+    } catch (err) {
+      console.error("Error fetching top selling items:", err);
+      throw err;
+    }
+  };
 
-      // Fetch total items sold
-      const orderIds = currentOrders?.map(o => o.id) || [];
-      let totalItemsSold = 0;
+  /**
+   * Fetch category sales breakdown
+   */
+  const fetchCategorySales = async (from: string, to: string): Promise<CategorySales[]> => {
+    try {
+      const { data, error: categoriesError } = await supabase.rpc("sales_by_category", {
+        p_from: from,
+        p_to: to,
+      });
 
-      if (orderIds.length > 0) {
-        const { data: items } = await supabase
-          .from("order_items")
-          .select("quantity")
-          .in("order_id", orderIds);
+      if (categoriesError) throw categoriesError;
 
-        totalItemsSold = items?.reduce((sum, item) => sum + item.quantity, 0) || 0;
-      }
+      const rows: SalesCategoryRow[] = data || [];
+      const totalRevenue = rows.reduce(
+        (sum, row) => sum + Number(row.revenue),
+        0
+      );
 
-      // Calculate previous metrics
-      const previousRevenue = previousOrders?.reduce((sum, order) => sum + order.total_amount, 0) || 0;
-      const previousOrderCount = previousOrders?.length || 0;
-
-      // Calculate growth percentages
-      const revenueGrowth = previousRevenue > 0
-        ? ((totalRevenue - previousRevenue) / previousRevenue) * 100
-        : 0;
-      const ordersGrowth = previousOrderCount > 0
-        ? ((totalOrders - previousOrderCount) / previousOrderCount) * 100
-        : 0;
-
-      salesSummary.value = {
-        totalRevenue,
-        totalOrders,
-        averageOrderValue,
-        totalItemsSold,
-        revenueGrowth,
-        ordersGrowth,
-      };
+      return rows.map((row) => {
+        const itemsSold = Number(row.items_sold);
+        const revenue = Number(row.revenue);
+        return {
+          name: row.category,
+          itemsSold,
+          revenue,
+          avgPrice: itemsSold > 0 ? revenue / itemsSold : 0,
+          percentage: totalRevenue > 0 ? (revenue / totalRevenue) * 100 : 0,
+        };
+      });
 
     } catch (err) {
-      console.error("Error fetching sales summary:", err);
+      console.error("Error fetching category sales:", err);
       throw err;
     }
   };
 
   /**
-   * Fetch top selling items
+   * Fetch bundle sales with the revenue each bundle's dishes brought in
    */
-  const fetchTopSellingItems = async (start: Date, end: Date, limit = 10): Promise<void> => {
+  const fetchBundleSales = async (from: string, to: string): Promise<BundleSales[]> => {
     try {
-      // Get orders in period
-      const { data: orders } = await supabase
-        .from("orders")
-        .select("id")
-        .in("status", ["completed", "ready"])
-        .gte("created_at", start.toISOString())
-        .lte("created_at", end.toISOString());
-
-      if (!orders || orders.length === 0) {
-        topSellingItems.value = [];
-        return;
-      }
-
-      const orderIds = orders.map(o => o.id);
-
-      // Get order items with meal details
-      const { data: items, error: itemsError } = await supabase
-        .from("order_items")
-        .select("*, meal:menu(*)")
-        .in("order_id", orderIds);
+      const { data, error: bundlesError } = await supabase.rpc("sales_bundles", {
+        p_from: from,
+        p_to: to,
+      });
 
-      if (itemsError) throw itemsError;
+      if (bundlesError) throw bundlesError;
+
+      const rows: SalesBundleRow[] = data || [];
+      return rows.map((row) => ({
+        id: row.bundle_id,
+        name: row.name,
+        quantitySold: Number(row.quantity_sold),
+        revenue: Number(row.revenue),
+        components: (row.components || []).map((component) => ({
+          name: component.name,
+          quantitySold: Number(component.quantity_sold),
+          revenue: Number(component.revenue),
+        })),
+      }));
 
-      // Aggregate by meal
-      const mealSales = new Map<number, TopSellingItem>();
-
-      items?.forEach((item) => {
-        const mealId = item.meal_id;
-        if (!mealSales.has(mealId)) {
-          mealSales.set(mealId, {
-            id: mealId,
-            name: item.meal.name,
-            category: item.meal.category,
-            quantitySold: 0,
-            revenue: 0,
-            image: item.meal.image,
-          });
-        }
+    } catch (err) {
+      console.error("Error fetching bundle sales:", err);
+      throw err;
+    }
+  };
 
-        const sale = mealSales.get(mealId)!;
-        sale.quantitySold += item.quantity;
-        sale.revenue += item.meal.price * item.quantity;
+  /**
+   * Fetch what was taken with each payment method for orders in the period
+   */
+  const fetchPaymentMethodSales = async (
+    from: string,
+    to: string
+  ): Promise<PaymentMethodTotal[]> => {
+    try {
+      const { data, error: paymentsError } = await supabase.rpc("sales_payment_methods", {
+        p_from: from,
+        p_to: to,
       });
 
-      // Sort by revenue and limit
-      topSellingItems.value = Array.from(mealSales.values())
-        .sort((a, b) => b.revenue - a.revenue)
-        .slice(0, limit);
+      if (paymentsError) throw paymentsError;
+
+      const rows: SalesPaymentMethodRow[] = data || [];
+      return totalsByMethod(
+        rows.map((row) => ({
+          method: row.method,
+          amount: Number(row.amount),
+          transactions: Number(row.transactions),
+        }))
+      );
 
     } catch (err) {
-      console.error("Error fetching top selling items:", err);
+      console.error("Error fetching payment method sales:", err);
       throw err;
     }
   };
 
   /**
-   * Fetch category sales breakdown
+   * Fetch the VAT, service charge and senior citizen / PWD discount totals
+   * of orders in the period, for the BIR sales summary
    */
-  const fetchCategorySales = async (start: Date, end: Date): Promise<void> => {
+  const fetchTaxSummary = async (from: string, to: string): Promise<TaxSummary> => {
     try {
-      const { data: orders } = await supabase
-        .from("orders")
-        .select("id")
-        .in("status", ["completed", "ready"])
-        .gte("created_at", start.toISOString())
-        .lte("created_at", end.toISOString());
+      const { data, error: taxError } = await supabase.rpc("sales_tax_summary", {
+        p_from: from,
+        p_to: to,
+      });
 
-      if (!orders || orders.length === 0) {
-        categorySales.value = [];
-        return;
-      }
+      if (taxError) throw taxError;
 
-      const orderIds = orders.map(o => o.id);
+      const row: SalesTaxSummaryRow | null = data;
+      if (!row) return emptyTaxSummary();
 
-      const { data: items, error: itemsError } = await supabase
-        .from("order_items")
-        .select("*, meal:menu(*)")
-        .in("order_id", orderIds);
-
-      if (itemsError) throw itemsError;
+      return {
+        grossSales: Number(row.gross_sales),
+        vatableSales: Number(row.vatable_sales),
+        vatAmount: Number(row.vat_amount),
+        vatExemptSales: Number(row.vat_exempt_sales),
+        discountAmount: Number(row.discount_amount),
+        serviceCharge: Number(row.service_charge),
+        netSales: Number(row.net_sales),
+        seniorDiscounts: Number(row.senior_discounts),
+        pwdDiscounts: Number(row.pwd_discounts),
+      };
 
-      // Aggregate by category
-      const categoryMap = new Map<string, CategorySales>();
-      let totalRevenue = 0;
-
-      items?.forEach((item) => {
-        const category = item.meal.category || "Uncategorized";
-        const revenue = item.meal.price * item.quantity;
-        totalRevenue += revenue;
-
-        if (!categoryMap.has(category)) {
-          categoryMap.set(category, {
-            name: category,
-            itemsSold: 0,
-            revenue: 0,
-            avgPrice: 0,
-            percentage: 0,
-          });
-        }
+    } catch (err) {
+      console.error("Error fetching tax summary:", err);
+      throw err;
+    }
+  };
 
-        const catData = categoryMap.get(category)!;
-        catData.itemsSold += item.quantity;
-        catData.revenue += revenue;
+  /**
+   * Fetch revenue and orders per hour or per day, quiet ones included
+   */
+  const fetchSalesTrend = async (
+    from: string,
+    to: string,
+    bucket: TrendBucket
+  ): Promise<SalesTrendPoint[]> => {
+    try {
+      const { data, error: trendError } = await supabase.rpc("sales_trend", {
+        p_from: from,
+        p_to: to,
+        p_bucket: bucket,
       });
 
-      // Calculate percentages and averages
-      categorySales.value = Array.from(categoryMap.values()).map((cat) => ({
-        ...cat,
-        avgPrice: cat.itemsSold > 0 ? cat.revenue / cat.itemsSold : 0,
-        percentage: totalRevenue > 0 ? (cat.revenue / totalRevenue) * 100 : 0,
-      })).sort((a, b) => b.revenue - a.revenue);
+      if (trendError) throw trendError;
+
+      // "2026-10-19T13:00" per hour, "2026-10-19" per day
+      const rows: SalesTrendRow[] = data || [];
+      return rows.map((row) => ({
+        date: String(row.bucket).slice(0, bucket === "hour" ? 16 : 10),
+        label: formatTrendLabel(row.bucket, bucket),
+        revenue: Number(row.revenue),
+        orders: Number(row.orders),
+      }));
 
     } catch (err) {
-      console.error("Error fetching category sales:", err);
+      console.error("Error fetching sales trend:", err);
       throw err;
     }
   };
 
   /**
-   * Fetch sales trend data
+   * Fetch orders, revenue and kitchen times per weekday and hour
    */
-  const fetchSalesTrend = async (
-    start: Date,
-    end: Date,
-    period: string
-  ): Promise<void> => {
+  const fetchSalesHeatmap = async (
+    from: string,
+    to: string
+  ): Promise<SalesHeatmapCell[]> => {
     try {
-      const { data: orders, error: ordersError } = await supabase
-        .from("orders")
-        .select("created_at, total_amount")
-        .in("status", ["completed", "ready"])
-        .gte("created_at", start.toISOString())
-        .lte("created_at", end.toISOString())
-        .order("created_at", { ascending: true });
+      const { data, error: heatmapError } = await supabase.rpc("sales_heatmap", {
+        p_from: from,
+        p_to: to,
+      });
 
-      if (ordersError) throw ordersError;
+      if (heatmapError) throw heatmapError;
+
+      const toMinutes = (value: number | null) =>
+        value === null || value === undefined ? null : Number(value);
 
-      // Group by date
-      const trendMap = new Map<string, SalesTrendPoint>();
+      const rows: SalesHeatmapRow[] = data || [];
+      return rows.map((row) => ({
+        weekday: row.weekday,
+        hour: row.hour,
+        days: row.days,
+        orders: Number(row.orders),
+        itemsSold: Number(row.items_sold),
+        revenue: Number(row.revenue),
+        avgPrepMinutes: toMinutes(row.avg_prep_minutes),
+        avgWaitMinutes: toMinutes(row.avg_wait_minutes),
+      }));
 
-      orders?.forEach((order) => {
-        const date = new Date(order.created_at).toISOString().split("T")[0];
+    } catch (err) {
+      console.error("Error fetching sales heatmap:", err);
+      throw err;
+    }
+  };
 
-        if (!trendMap.has(date)) {
-          trendMap.set(date, {
-            date,
-            revenue: 0,
-            orders: 0,
-          });
+  /**
+   * Fetch units sold, revenue and cost per serving of every dish sold
+   */
+  const fetchMenuEngineering = async (
+    from: string,
+    to: string
+  ): Promise<MenuEngineeringItem[]> => {
+    try {
+      const { data, error: engineeringError } = await supabase.rpc(
+        "sales_menu_engineering",
+        {
+          p_from: from,
+          p_to: to,
         }
+      );
 
-        const point = trendMap.get(date)!;
-        point.revenue += order.total_amount;
-        point.orders += 1;
-      });
+      if (engineeringError) throw engineeringError;
 
-      salesTrend.value = Array.from(trendMap.values()).sort((a, b) =>
-        a.date.localeCompare(b.date)
-      );
+      const rows: MenuEngineeringRow[] = data || [];
+      return rows.map((row) => ({
+        id: row.meal_id,
+        name: row.name,
+        category: row.category,
+        quantitySold: Number(row.quantity_sold),
+        revenue: Number(row.revenue),
+        unitCost: row.unit_cost === null ? null : Number(row.unit_cost),
+      }));
 
     } catch (err) {
-      console.error("Error fetching sales trend:", err);
+      console.error("Error fetching menu engineering:", err);
       throw err;
     }
   };
@@ -522,25 +833,92 @@ export const useSalesDataStore = defineStore("salesData", () => {
       cat.percentage.toFixed(2),
     ]);
 
+    const bundleRows = [
+      [""],
+      ["Bundle Sales", ""],
+      ["Bundle", "Item", "Quantity Sold", "Revenue"],
+    ];
+
+    const bundleSalesRows = bundleSales.value.flatMap((bundle) => [
+      [bundle.name, "", bundle.quantitySold.toString(), bundle.revenue.toString()],
+      ...bundle.components.map((component) => [
+        bundle.name,
+        component.name,
+        component.quantitySold.toString(),
+        component.revenue.toFixed(2),
+      ]),
+    ]);
+
+    const paymentRows = [
+      [""],
+      ["Payment Methods", ""],
+      ["Method", "Payments", "Amount", "% of Total"],
+    ];
+
+    const paymentMethodRows = paymentMethodSales.value.map((entry) => [
+      entry.label,
+      entry.transactions.toString(),
+      entry.amount.toFixed(2),
+      entry.percentage.toFixed(2),
+    ]);
+
+    const taxRows = [
+      [""],
+      ["VAT Summary", ""],
+      ["Gross Sales", taxSummary.value.grossSales.toFixed(2)],
+      ["VATable Sales", taxSummary.value.vatableSales.toFixed(2)],
+      ["VAT Amount", taxSummary.value.vatAmount.toFixed(2)],
+      ["VAT-Exempt Sales", taxSummary.value.vatExemptSales.toFixed(2)],
+      ["SC/PWD Discount", taxSummary.value.discountAmount.toFixed(2)],
+      ["Service Charge", taxSummary.value.serviceCharge.toFixed(2)],
+      ["Net Sales", taxSummary.value.netSales.toFixed(2)],
+      ["Senior Citizen Discounts", taxSummary.value.seniorDiscounts.toString()],
+      ["PWD Discounts", taxSummary.value.pwdDiscounts.toString()],
+    ];
+
+    const matrix = buildMenuEngineering(menuEngineering.value);
+
+    const engineeringRows = [
+      [""],
+      ["Menu Engineering", ""],
+      ["Item", "Category", "Class", "Quantity Sold", "Unit Margin", "Total Margin"],
+    ];
+
+    const engineeringItemRows = matrix.items.map((item) => [
+      item.name,
+      item.category,
+      MENU_CLASSES[item.menuClass].label,
+      item.quantitySold.toString(),
+      item.unitMargin.toFixed(2),
+      item.totalMargin.toFixed(2),
+    ]);
+
     const allRows = [
       headers,
       ...summaryRows,
       ...topItemsRows,
       ...categoryRows,
       ...categorySalesRows,
+      ...bundleRows,
+      ...bundleSalesRows,
+      ...paymentRows,
+      ...paymentMethodRows,
+      ...taxRows,
+      ...engineeringRows,
+      ...engineeringItemRows,
     ];
 
     return allRows.map(row => row.join(",")).join("\n");
   };
 
   /**
-   * Get sales comparison between two periods
+   * Get sales comparison between two periods of café days (YYYY-MM-DD)
    */
   const comparePeriods = async (
-    period1Start: Date,
-    period1End: Date,
-    period2Start: Date,
-    period2End: Date
+    period1From: string,
+    period1To: string,
+    period2From: string,
+    period2To: string
   ): Promise<{
     period1: SalesSummary;
     period2: SalesSummary;
@@ -551,51 +929,24 @@ export const useSalesDataStore = defineStore("salesData", () => {
     };
   }> => {
     try {
-      // Fetch period 1 data
-      const { data: orders1 } = await supabase
-        .from("orders")
-        .select("*")
-        .in("status", ["completed", "ready"])
-        .gte("created_at", period1Start.toISOString())
-        .lte("created_at", period1End.toISOString());
+      const { data, error: compareError } = await supabase.rpc("sales_summary", {
+        p_from: period1From,
+        p_to: period1To,
+        p_compare_from: period2From,
+        p_compare_to: period2To,
+      });
 
-      // Fetch period 2 data
-      const { data: orders2 } = await supabase
-        .from("orders")
-        .select("*")
-        .in("status", ["completed", "ready"])
-        .gte("created_at", period2Start.toISOString())
-        .lte("created_at", period2End.toISOString());
-
-      const revenue1 = orders1?.reduce((sum, o) => sum + o.total_amount, 0) || 0;
-      const revenue2 = orders2?.reduce((sum, o) => sum + o.total_amount, 0) || 0;
-      const count1 = orders1?.length || 0;
-      const count2 = orders2?.length || 0;
-
-      const period1 = {
-        totalRevenue: revenue1,
-        totalOrders: count1,
-        averageOrderValue: count1 > 0 ? revenue1 / count1 : 0,
-        totalItemsSold: 0,
-        revenueGrowth: 0,
-        ordersGrowth: 0,
-      };
+      if (compareError) throw compareError;
 
-      const period2 = {
-        totalRevenue: revenue2,
-        totalOrders: count2,
-        averageOrderValue: count2 > 0 ? revenue2 / count2 : 0,
-        totalItemsSold: 0,
-        revenueGrowth: 0,
-        ordersGrowth: 0,
-      };
+      const period1 = toSalesSummary(data.current, data.previous);
+      const period2 = toSalesSummary(data.previous, null);
 
       return {
         period1,
         period2,
         comparison: {
-          revenueDiff: revenue1 - revenue2,
-          ordersDiff: count1 - count2,
+          revenueDiff: period1.totalRevenue - period2.totalRevenue,
+          ordersDiff: period1.totalOrders - period2.totalOrders,
           avgOrderValueDiff: period1.averageOrderValue - period2.averageOrderValue,
         },
       };
@@ -611,13 +962,19 @@ export const useSalesDataStore = defineStore("salesData", () => {
     salesSummary,
     topSellingItems,
     categorySales,
+    bundleSales,
+    paymentMethodSales,
+    taxSummary,
     salesTrend,
+    salesHeatmap,
+    menuEngineering,
     recentOrders,
     loading,
     error,
 
     // Actions
     clearError,
+    clearCache,
     fetchSalesData,
     fetchSalesDataByRange,
     exportSalesReport,
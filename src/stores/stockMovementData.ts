@@ -0,0 +1,180 @@
+/**
+ * Stock Movement Data Store
+ *
+ * Reads and appends to the `stock_movements` inventory ledger.
+ * Every change to a menu item's quantity is a movement row with the acting
+ * user, a reason and (for order-driven movements) the order it belongs to.
+ * `menu.quantity` is the running balance of the ledger and is never written directly.
+ */
+
+import { defineStore } from "pinia";
+import { ref } from "vue";
+import { supabase } from "@/lib/supabase";
+import { useInventoryDataStore } from "@/stores/inventoryData";
+
+export type StockMovementType =
+  | "sale"
+  | "reservation"
+  | "reservation_release"
+  | "restock"
+  | "waste"
+  | "adjustment"
+  | "count_correction";
+
+// Movements staff can record by hand; the rest are written by order processing
+export type ManualStockMovementType = Extract<
+  StockMovementType,
+  "restock" | "waste" | "adjustment" | "count_correction"
+>;
+
+export interface StockMovement {
+  id: number;
+  // Null once the menu item is deleted; meal_name still says what it was
+  meal_id: number | null;
+  meal_name: string | null;
+  movement_type: StockMovementType;
+  quantity_delta: number;
+  reserved_delta: number;
+  quantity_after: number | null;
+  reason: string | null;
+  order_id: number | null;
+  performed_by: string | null;
+  performed_by_name: string | null;
+  created_at: string;
+}
+
+export interface RecordStockMovementData {
+  mealId: number;
+  type: ManualStockMovementType;
+  // Units added/removed, signed for adjustments, or the counted total for count corrections
+  quantity: number;
+  reason?: string;
+}
+
+export const STOCK_MOVEMENT_TYPES: Record<
+  StockMovementType,
+  { label: string; icon: string; color: string }
+> = {
+  sale: { label: "Sale", icon: "mdi-cash-register", color: "primary" },
+  reservation: { label: "Reserved", icon: "mdi-lock-outline", color: "blue-grey" },
+  reservation_release: {
+    label: "Released",
+    icon: "mdi-lock-open-variant-outline",
+    color: "blue-grey",
+  },
+  restock: { label: "Restock", icon: "mdi-truck-delivery", color: "success" },
+  waste: { label: "Waste", icon: "mdi-delete-variant", color: "error" },
+  adjustment: { label: "Adjustment", icon: "mdi-tune-variant", color: "warning" },
+  count_correction: {
+    label: "Stock Count",
+    icon: "mdi-clipboard-check-outline",
+    color: "info",
+  },
+};
+
+export const MANUAL_STOCK_MOVEMENT_TYPES: ManualStockMovementType[] = [
+  "restock",
+  "waste",
+  "adjustment",
+  "count_correction",
+];
+
+export const useStockMovementDataStore = defineStore("stockMovementData", () => {
+  // State
+  const movements = ref<StockMovement[]>([]);
+  const currentMealId = ref<number | null>(null);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch the movement history of a single menu item, newest first
+   */
+  const fetchMovements = async (mealId: number, limit = 100): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+      currentMealId.value = mealId;
+
+      const { data, error: fetchError } = await supabase
+        .from("stock_movements")
+        .select("*")
+        .eq("meal_id", mealId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (fetchError) throw fetchError;
+
+      movements.value = data || [];
+    } catch (err) {
+      console.error("Error fetching stock movements:", err);
+      error.value = "Failed to load stock history";
+      movements.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Append a manual movement (restock, waste, adjustment, stock count)
+   */
+  const recordMovement = async (
+    movement: RecordStockMovementData
+  ): Promise<StockMovement> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { data, error: rpcError } = await supabase.rpc(
+        "record_stock_movement",
+        {
+          p_meal_id: movement.mealId,
+          p_movement_type: movement.type,
+          p_quantity: movement.quantity,
+          p_reason: movement.reason || null,
+        }
+      );
+
+      if (rpcError) {
+        throw new Error(rpcError.message);
+      }
+
+      const recorded = data as StockMovement;
+
+      if (currentMealId.value === movement.mealId) {
+        movements.value.unshift(recorded);
+      }
+
+      // The menu balance changed; refresh the inventory list
+      await useInventoryDataStore().refreshInventoryItems();
+
+      return recorded;
+    } catch (err) {
+      console.error("Error recording stock movement:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to record stock movement";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  return {
+    // State
+    movements,
+    currentMealId,
+    loading,
+    saving,
+    error,
+
+    // Actions
+    clearError,
+    fetchMovements,
+    recordMovement,
+  };
+});
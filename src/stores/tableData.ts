@@ -0,0 +1,357 @@
+/**
+ * Table Data Store
+ *
+ * Manages the café's tables (label, area, seats, active flag) and their live
+ * status, which the `table_status` view derives from orders and table
+ * sessions. Staff screens use it to show table labels instead of raw
+ * `table_id` numbers.
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import type {
+  CafeTable,
+  TableArea,
+  TableStatusRow,
+} from "@/utils/tables";
+
+export interface TableFormData {
+  id: number | null;
+  label: string;
+  area: TableArea;
+  capacity: number;
+  is_active: boolean;
+}
+
+/**
+ * Returns an error message for an invalid table, or null
+ */
+export function validateTableForm(
+  data: TableFormData,
+  existingIds: number[]
+): string | null {
+  if (!data.id || data.id < 1 || !Number.isInteger(data.id)) {
+    return "Please enter a table number of 1 or more";
+  }
+  if (existingIds.includes(data.id)) {
+    return `Table number ${data.id} is already in use`;
+  }
+  if (!data.label.trim()) return "Please enter a table label";
+  if (!data.capacity || data.capacity < 1 || data.capacity > 50) {
+    return "Seats must be between 1 and 50";
+  }
+  return null;
+}
+
+export const useTableDataStore = defineStore("tableData", () => {
+  // State
+  const tables = ref<CafeTable[]>([]);
+  const statuses = ref<TableStatusRow[]>([]);
+  const loading = ref(false);
+  const saving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Real-time subscription
+  let statusSubscription: RealtimeChannel | null = null;
+
+  // Getters
+  const activeTables = computed(() =>
+    tables.value.filter((table) => table.is_active)
+  );
+
+  /**
+   * Label of a table, e.g. "Window 2", falling back to "Table 5"
+   */
+  const getTableLabel = (tableId: number | null | undefined): string => {
+    const table = tables.value.find((entry) => entry.id === tableId);
+    return table?.label || `Table ${tableId ?? "?"}`;
+  };
+
+  const getTableStatus = (tableId: number): TableStatusRow | undefined => {
+    return statuses.value.find((entry) => entry.table_id === tableId);
+  };
+
+  // Actions
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  /**
+   * Fetch all tables, active or not, by number
+   */
+  const fetchTables = async (): Promise<void> => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      const { data, error: fetchError } = await supabase
+        .from("tables")
+        .select("*")
+        .order("id");
+
+      if (fetchError) throw fetchError;
+
+      tables.value = data || [];
+    } catch (err) {
+      console.error("Error fetching tables:", err);
+      error.value = "Failed to load tables. Please try again later.";
+      tables.value = [];
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Fetch the live status of every active table
+   */
+  const fetchStatuses = async (): Promise<void> => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from("table_status")
+        .select("*")
+        .order("table_id");
+
+      if (fetchError) throw fetchError;
+
+      statuses.value = data || [];
+    } catch (err) {
+      console.error("Error fetching table status:", err);
+      error.value = "Failed to load table status. Please try again later.";
+    }
+  };
+
+  const toRow = (data: TableFormData) => ({
+    label: data.label.trim(),
+    area: data.area,
+    capacity: data.capacity,
+    is_active: data.is_active,
+  });
+
+  const addTable = async (data: TableFormData): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const validationError = validateTableForm(
+        data,
+        tables.value.map((table) => table.id)
+      );
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { error: insertError } = await supabase
+        .from("tables")
+        .insert([{ id: data.id, ...toRow(data) }]);
+
+      if (insertError) {
+        throw new Error(`Error adding table: ${insertError.message}`);
+      }
+
+      await fetchTables();
+    } catch (err) {
+      console.error("Error in addTable:", err);
+      error.value = err instanceof Error ? err.message : "Failed to add table";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Update a table's details; its number cannot change
+   */
+  const updateTable = async (
+    tableId: number,
+    data: TableFormData
+  ): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const validationError = validateTableForm(
+        { ...data, id: tableId },
+        tables.value
+          .map((table) => table.id)
+          .filter((id) => id !== tableId)
+      );
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { error: updateError } = await supabase
+        .from("tables")
+        .update(toRow(data))
+        .eq("id", tableId);
+
+      if (updateError) {
+        throw new Error(`Error updating table: ${updateError.message}`);
+      }
+
+      await fetchTables();
+    } catch (err) {
+      console.error("Error in updateTable:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to update table";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Delete a table that has never been ordered from. Tables with order
+   * history should be deactivated instead.
+   */
+  const deleteTable = async (tableId: number): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: deleteError } = await supabase
+        .from("tables")
+        .delete()
+        .eq("id", tableId);
+
+      if (deleteError) {
+        // Foreign key violation: orders or sessions still point at it
+        if (deleteError.code === "23503") {
+          throw new Error(
+            "This table has orders on record. Turn it off instead of deleting it."
+          );
+        }
+        throw new Error(`Error deleting table: ${deleteError.message}`);
+      }
+
+      await fetchTables();
+    } catch (err) {
+      console.error("Error in deleteTable:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to delete table";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Record that staff cleared a table after its party left
+   */
+  const markTableClean = async (tableId: number): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: updateError } = await supabase
+        .from("tables")
+        .update({ cleaned_at: new Date().toISOString() })
+        .eq("id", tableId);
+
+      if (updateError) {
+        throw new Error(`Error updating table: ${updateError.message}`);
+      }
+
+      await Promise.all([fetchTables(), fetchStatuses()]);
+    } catch (err) {
+      console.error("Error in markTableClean:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to mark table clean";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * End a table's session so its QR code has to be scanned again, e.g. when
+   * guests leave without ordering
+   */
+  const closeTableSession = async (tableId: number): Promise<void> => {
+    try {
+      saving.value = true;
+      error.value = null;
+
+      const { error: rpcError } = await supabase.rpc("close_table_session", {
+        p_table_number: tableId,
+      });
+
+      if (rpcError) {
+        throw new Error(`Error closing table: ${rpcError.message}`);
+      }
+
+      await fetchStatuses();
+    } catch (err) {
+      console.error("Error in closeTableSession:", err);
+      error.value =
+        err instanceof Error ? err.message : "Failed to close table";
+      throw err;
+    } finally {
+      saving.value = false;
+    }
+  };
+
+  /**
+   * Setup real-time subscription for table status
+   */
+  const subscribeToStatus = (): void => {
+    // Unsubscribe from previous subscription if exists
+    if (statusSubscription) {
+      supabase.removeChannel(statusSubscription);
+    }
+
+    statusSubscription = supabase
+      .channel("table_status")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "orders" },
+        () => fetchStatuses()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "table_sessions" },
+        () => fetchStatuses()
+      )
+      .subscribe();
+
+    console.log("Subscribed to real-time table status updates");
+  };
+
+  /**
+   * Unsubscribe from real-time updates
+   */
+  const unsubscribeFromStatus = (): void => {
+    if (statusSubscription) {
+      supabase.removeChannel(statusSubscription);
+      statusSubscription = null;
+      console.log("Unsubscribed from table status updates");
+    }
+  };
+
+  return {
+    // State
+    tables,
+    statuses,
+    loading,
+    saving,
+    error,
+
+    // Getters
+    activeTables,
+    getTableLabel,
+    getTableStatus,
+
+    // Actions
+    clearError,
+    fetchTables,
+    fetchStatuses,
+    addTable,
+    updateTable,
+    deleteTable,
+    markTableClean,
+    closeTableSession,
+    subscribeToStatus,
+    unsubscribeFromStatus,
+  };
+});
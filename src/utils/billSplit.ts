@@ -0,0 +1,132 @@
+/**
+ * Split Bills
+ *
+ * Turns an order into payer shares that always add up to the order total:
+ * by assigning units of each line to payers, by seat, or evenly. Amounts are
+ * worked out in centavos so rounding never loses or invents money; the
+ * `split_order_bill` RPC checks the same rules.
+ */
+
+import type { OrderItemDB } from "@/stores/orderData";
+import { getOrderLineUnitPrice } from "@/utils/modifiers";
+
+export type SplitMethod = "items" | "seats" | "even";
+
+export interface BillShareItem {
+  order_item_id: number;
+  quantity: number;
+}
+
+export interface BillShare {
+  id: number;
+  order_id: number;
+  split_method: SplitMethod;
+  payer_no: number;
+  label: string;
+  seat_no: number | null;
+  amount: number;
+  paid_at: string | null;
+  paid_by: string | null;
+  created_at?: string;
+  items?: BillShareItem[];
+}
+
+/**
+ * A share as sent to `split_order_bill`
+ */
+export interface BillShareDraft {
+  label: string;
+  seat_no?: number | null;
+  amount: number;
+  items: BillShareItem[];
+}
+
+export const SPLIT_METHODS: { value: SplitMethod; label: string; icon: string }[] = [
+  { value: "items", label: "By item", icon: "mdi-format-list-checks" },
+  { value: "seats", label: "By seat", icon: "mdi-seat" },
+  { value: "even", label: "Evenly", icon: "mdi-division" },
+];
+
+export const MAX_PAYERS = 20;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Scale amounts so they add up to `total` exactly, handing leftover
+ * centavos to the largest remainders first
+ */
+export function allocateToTotal(amounts: number[], total: number): number[] {
+  const totalCents = toCents(total);
+  const rawSum = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (amounts.length === 0) return [];
+
+  const exact = amounts.map((amount) =>
+    rawSum > 0 ? (amount / rawSum) * totalCents : totalCents / amounts.length
+  );
+  const cents = exact.map(Math.floor);
+  let leftover = totalCents - cents.reduce((sum, value) => sum + value, 0);
+
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        cents[index] += 1;
+        leftover -= 1;
+      }
+    });
+
+  return cents.map((value) => value / 100);
+}
+
+/**
+ * `count` equal shares of `total`, the first ones a centavo more when it
+ * does not divide evenly
+ */
+export function splitEvenly(total: number, count: number): number[] {
+  return allocateToTotal(new Array(count).fill(1), total);
+}
+
+/**
+ * Shares for item or seat splits. `assignments` maps each order line to the
+ * payer (or seat) numbers of its units, e.g. { 12: [1, 1, 2] } for a line of
+ * three where payer 1 takes two.
+ */
+export function buildAssignedShares(
+  items: OrderItemDB[],
+  assignments: Record<number, number[]>,
+  total: number,
+  labelOf: (payerNo: number) => string,
+  method: SplitMethod
+): BillShareDraft[] {
+  const payerNos = [
+    ...new Set(Object.values(assignments).flat()),
+  ].sort((a, b) => a - b);
+
+  const drafts = payerNos.map((payerNo) => {
+    const shareItems: BillShareItem[] = [];
+    let subtotal = 0;
+
+    items.forEach((item) => {
+      const quantity = (assignments[item.id!] || []).filter(
+        (assigned) => assigned === payerNo
+      ).length;
+      if (quantity === 0) return;
+      shareItems.push({ order_item_id: item.id!, quantity });
+      subtotal += getOrderLineUnitPrice(item) * quantity;
+    });
+
+    return {
+      label: labelOf(payerNo),
+      seat_no: method === "seats" ? payerNo : null,
+      amount: subtotal,
+      items: shareItems,
+    };
+  });
+
+  const amounts = allocateToTotal(
+    drafts.map((draft) => draft.amount),
+    total
+  );
+  return drafts.map((draft, index) => ({ ...draft, amount: amounts[index] }));
+}
@@ -0,0 +1,248 @@
+/**
+ * Combo Meals and Bundles
+ *
+ * Types and helpers for bundles sold at a set price. A bundle is made of
+ * slots, each filled by one menu item: a fixed dish, a pick from a list or
+ * any item of a category. Submitted bundles become ordinary order lines per
+ * component, each carrying its share of the bundle price.
+ */
+
+import type { MenuItem } from "@/stores/menuData";
+import type { CartItem, CartLine } from "@/utils/modifiers";
+
+// Heading bundles are listed under on the customer menu
+export const BUNDLE_CATEGORY = "Combos & Sets";
+
+export interface BundleSlotItem {
+  slot_id: number;
+  meal_id: number;
+}
+
+export interface BundleSlot {
+  id: number;
+  bundle_id: number;
+  name: string;
+  quantity: number;
+  // Any menu item in this category fills the slot
+  category: string | null;
+  sort_order: number;
+  bundle_slot_items: BundleSlotItem[];
+}
+
+export interface Bundle {
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  is_active: boolean;
+  created_at: string;
+  bundle_slots: BundleSlot[];
+  // Bundles that can still be sold, from the `bundle_availability` view
+  available: number;
+}
+
+/**
+ * The menu item chosen for one slot of a bundle in the cart
+ */
+export interface BundleComponentSelection {
+  slot_id: number;
+  slot_name: string;
+  meal_id: number;
+  name: string;
+  // Units of the menu item per bundle
+  quantity: number;
+}
+
+export interface CartBundleSelection {
+  bundle_id: number;
+  components: BundleComponentSelection[];
+}
+
+/**
+ * A bundle as ordered, as stored on `order_bundles`
+ */
+export interface OrderBundle {
+  id: number;
+  order_id: number;
+  bundle_id: number | null;
+  name: string;
+  unit_price: number;
+  quantity: number;
+  created_at?: string;
+}
+
+/**
+ * Sort slots into display order
+ */
+export function sortBundleSlots(slots: BundleSlot[] = []): BundleSlot[] {
+  return [...slots].sort((a, b) => a.sort_order - b.sort_order || a.id - b.id);
+}
+
+/**
+ * Menu items that can fill a slot
+ */
+export function getSlotMenuItems(
+  slot: BundleSlot,
+  menuItems: MenuItem[]
+): MenuItem[] {
+  const mealIds = new Set(slot.bundle_slot_items.map((item) => item.meal_id));
+  return menuItems.filter(
+    (item) =>
+      mealIds.has(item.id) ||
+      (!!slot.category && item.category === slot.category)
+  );
+}
+
+/**
+ * Bundles show the picture of their first dish
+ */
+export function getBundleImage(bundle: Bundle, menuItems: MenuItem[]): string {
+  for (const slot of bundle.bundle_slots) {
+    const item = getSlotMenuItems(slot, menuItems)[0];
+    if (item) return item.image;
+  }
+  return "";
+}
+
+/**
+ * Cart unit for a bundle with its chosen components. Bundles share the cart
+ * with menu items, so the bundle is shaped like one.
+ */
+export function toBundleCartItem(
+  bundle: Bundle,
+  image: string,
+  components: BundleComponentSelection[]
+): CartItem {
+  return {
+    id: bundle.id,
+    name: bundle.name,
+    description: bundle.description,
+    price: bundle.price,
+    image,
+    quantity: bundle.available,
+    available: bundle.available,
+    sales: 0,
+    category: BUNDLE_CATEGORY,
+    created_at: bundle.created_at,
+    bundle: { bundle_id: bundle.id, components },
+  };
+}
+
+/**
+ * Units of a menu item in the cart, on their own or inside bundles
+ */
+export function getCartMealQuantity(lines: CartLine[], mealId: number): number {
+  return lines.reduce((total, { item, quantity }) => {
+    if (!item.bundle) {
+      return item.id === mealId ? total + quantity : total;
+    }
+    return (
+      total +
+      quantity *
+        item.bundle.components
+          .filter((component) => component.meal_id === mealId)
+          .reduce((sum, component) => sum + component.quantity, 0)
+    );
+  }, 0);
+}
+
+export function getCartBundleQuantity(
+  lines: CartLine[],
+  bundleId: number
+): number {
+  return lines
+    .filter(({ item }) => item.bundle?.bundle_id === bundleId)
+    .reduce((total, line) => total + line.quantity, 0);
+}
+
+/**
+ * Returns a customer-facing warning when one more unit would exceed the
+ * stock of the item or of any bundle component, or null when it fits
+ */
+export function getCartStockWarning(
+  lines: CartLine[],
+  unit: CartItem,
+  getMenuItem: (id: number) => MenuItem | undefined
+): string | null {
+  if (!unit.bundle) {
+    const menuItem = getMenuItem(unit.id) || unit;
+    if (menuItem.available_from) {
+      return `Sorry, "${menuItem.name}" is not being served right now. ${menuItem.available_from}.`;
+    }
+    return getCartMealQuantity(lines, unit.id) >= menuItem.available
+      ? `Maximum quantity reached! Only ${menuItem.available} available in stock.`
+      : null;
+  }
+
+  if (getCartBundleQuantity(lines, unit.bundle.bundle_id) >= unit.available) {
+    return `Maximum quantity reached! Only ${unit.available} "${unit.name}" available.`;
+  }
+
+  for (const component of unit.bundle.components) {
+    const menuItem = getMenuItem(component.meal_id);
+    if (menuItem?.available_from) {
+      return `Sorry, "${component.name}" is not being served right now. ${menuItem.available_from}.`;
+    }
+    const available = menuItem?.available ?? 0;
+    if (
+      getCartMealQuantity(lines, component.meal_id) + component.quantity >
+      available
+    ) {
+      return available === 0
+        ? `Sorry, "${component.name}" is sold out.`
+        : `Sorry, only ${available} "${component.name}" left.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * "Tapsilog, 2× Iced Tea" style summary of a bundle's components
+ */
+export function formatBundleComponents(
+  components: BundleComponentSelection[] | null | undefined
+): string {
+  return (components || [])
+    .map((component) =>
+      component.quantity > 1
+        ? `${component.quantity}× ${component.name}`
+        : component.name
+    )
+    .join(", ");
+}
+
+/**
+ * Order lines with each ordered bundle's components folded into one line,
+ * for receipts where the customer paid the bundle price rather than per dish
+ */
+export function collapseOrderBundles<
+  T extends { order_bundle?: OrderBundle | null },
+  L,
+>(
+  items: T[],
+  toLine: (item: T) => L,
+  toBundleLine: (bundle: OrderBundle, components: T[]) => L
+): L[] {
+  const lines: L[] = [];
+  const bundleComponents = new Map<number, T[]>();
+
+  items.forEach((item) => {
+    const bundle = item.order_bundle;
+    if (!bundle) {
+      lines.push(toLine(item));
+      return;
+    }
+    const components = bundleComponents.get(bundle.id);
+    if (components) {
+      components.push(item);
+    } else {
+      bundleComponents.set(bundle.id, [item]);
+    }
+  });
+
+  bundleComponents.forEach((components) => {
+    lines.push(toBundleLine(components[0].order_bundle!, components));
+  });
+
+  return lines;
+}
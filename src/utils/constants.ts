@@ -45,4 +45,5 @@ export const APP_CONFIG = {
   CURRENCY: "₱", // Philippine Peso
   APP_NAME: "D' Home Makers Café",
   DEFAULT_IMAGE: "/assets/logo1.png", // Fallback image
+  TIMEZONE: "Asia/Manila", // Café local time for menu schedules, as in cafe_local_time()
 };
@@ -0,0 +1,62 @@
+/**
+ * Customer Origin
+ *
+ * The scheme and host table QR codes send diners to, e.g.
+ * "https://dhome-makers.vercel.app". Each branch keeps one per deployment
+ * environment so codes made on staging or a laptop never point at
+ * production. Keep the rules in sync with the checks on `customer_origins`.
+ */
+
+export type AppEnvironment = "production" | "staging" | "development";
+
+export const APP_ENVIRONMENTS: { value: AppEnvironment; label: string; color: string }[] = [
+  { value: "production", label: "Production", color: "success" },
+  { value: "staging", label: "Staging", color: "warning" },
+  { value: "development", label: "Development", color: "info" },
+];
+
+/**
+ * Environment this build is deployed to. `VITE_APP_ENV` wins, so a staging
+ * deployment built in production mode still counts as staging.
+ */
+export function getAppEnvironment(): AppEnvironment {
+  const value = import.meta.env.VITE_APP_ENV || import.meta.env.MODE;
+  return APP_ENVIRONMENTS.some((option) => option.value === value)
+    ? (value as AppEnvironment)
+    : "development";
+}
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1"];
+
+/**
+ * Returns an error message for an origin QR codes cannot use, or null
+ */
+export function validateCustomerOrigin(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return "Enter a full address, e.g. https://order.example.com";
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "The address must start with https://";
+  }
+  if (url.protocol === "http:" && !LOCAL_HOSTS.includes(url.hostname)) {
+    return "Only local addresses may use http://; use https:// instead";
+  }
+  if (url.username || url.password) {
+    return "The address cannot contain a username or password";
+  }
+  if (url.pathname !== "/" || url.search || url.hash) {
+    return "Enter the address without a path, e.g. https://order.example.com";
+  }
+  return null;
+}
+
+/**
+ * Scheme, host and port only, lower-cased and without a trailing slash
+ */
+export function normalizeCustomerOrigin(value: string): string {
+  return new URL(value.trim()).origin;
+}
@@ -0,0 +1,228 @@
+/**
+ * Demand Forecast
+ *
+ * Expected servings of each dish on a café day, from what it sold on the
+ * same weekday over the past few weeks: the average of those days, moved
+ * along half of the week-on-week trend. Dishes first sold partway through
+ * the window are only averaged over the weeks since. The day's servings are
+ * spread over its hours the way the dish sold on that weekday, so the
+ * kitchen knows when to have them ready.
+ *
+ * Everything runs in the browser on `sales_item_hours`.
+ */
+
+import { shiftDate } from "@/utils/salesPeriods";
+
+// Same weekdays looked back on
+export const FORECAST_WEEKS = 8;
+// Share of the weekly trend carried into the forecast
+export const TREND_DAMPING = 0.5;
+
+/**
+ * Servings of a dish sold in one hour of one café day
+ */
+export interface ItemHourSales {
+  // Null for a dish that was deleted since
+  mealId: number | null;
+  name: string;
+  category: string;
+  // YYYY-MM-DD, café time
+  date: string;
+  hour: number;
+  quantity: number;
+}
+
+export interface ItemForecast {
+  mealId: number | null;
+  name: string;
+  category: string;
+  // Expected servings; fractional
+  quantity: number;
+  // Servings sold on each of the same weekdays, oldest first
+  history: number[];
+  // Servings gained (or lost) a week
+  trend: number;
+  byHour: { hour: number; quantity: number }[];
+}
+
+export interface ForecastComparison {
+  mealId: number | null;
+  name: string;
+  category: string;
+  forecast: number;
+  actual: number;
+  // Actual less forecast
+  difference: number;
+}
+
+const itemKey = (item: { mealId: number | null; name: string }) =>
+  item.mealId !== null ? `#${item.mealId}` : item.name;
+
+/**
+ * The same weekdays before a date, oldest first
+ */
+export function getForecastDays(date: string, weeks = FORECAST_WEEKS): string[] {
+  return Array.from({ length: weeks }, (_, index) =>
+    shiftDate(date, { days: -7 * (weeks - index) })
+  );
+}
+
+/**
+ * Slope of the least-squares line through a series, per step
+ */
+export function getTrend(series: number[]): number {
+  const n = series.length;
+  if (n < 2) return 0;
+
+  const meanX = (n - 1) / 2;
+  const meanY = series.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  series.forEach((value, x) => {
+    covariance += (x - meanX) * (value - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return covariance / variance;
+}
+
+/**
+ * Expected servings per dish on `date`, from `history` covering the weeks
+ * before it. Dishes expected to sell nothing are left out.
+ */
+export function forecastDemand(
+  history: ItemHourSales[],
+  date: string,
+  weeks = FORECAST_WEEKS
+): ItemForecast[] {
+  const days = getForecastDays(date, weeks);
+  const dayIndex = new Map(days.map((day, index) => [day, index]));
+
+  const items = new Map<
+    string,
+    {
+      mealId: number | null;
+      name: string;
+      category: string;
+      perDay: number[];
+      perHour: Map<number, number>;
+    }
+  >();
+
+  history.forEach((row) => {
+    const index = dayIndex.get(row.date);
+    if (index === undefined) return;
+
+    const key = itemKey(row);
+    let item = items.get(key);
+    if (!item) {
+      item = {
+        mealId: row.mealId,
+        name: row.name,
+        category: row.category,
+        perDay: days.map(() => 0),
+        perHour: new Map(),
+      };
+      items.set(key, item);
+    }
+    item.perDay[index] += row.quantity;
+    item.perHour.set(row.hour, (item.perHour.get(row.hour) || 0) + row.quantity);
+  });
+
+  const forecasts: ItemForecast[] = [];
+
+  items.forEach((item) => {
+    // Weeks before the dish was first sold do not count against it
+    const series = item.perDay.slice(item.perDay.findIndex((value) => value > 0));
+    const mean = series.reduce((sum, value) => sum + value, 0) / series.length;
+    const trend = getTrend(series);
+    // The mean sits mid-series; the forecast is one week past its end
+    const quantity = Math.max(
+      0,
+      mean + TREND_DAMPING * trend * ((series.length + 1) / 2)
+    );
+    if (quantity === 0) return;
+
+    const sold = [...item.perHour.values()].reduce((sum, value) => sum + value, 0);
+    const byHour = [...item.perHour.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([hour, value]) => ({ hour, quantity: (value / sold) * quantity }));
+
+    forecasts.push({
+      mealId: item.mealId,
+      name: item.name,
+      category: item.category,
+      quantity,
+      history: series,
+      trend,
+      byHour,
+    });
+  });
+
+  return forecasts.sort((a, b) => b.quantity - a.quantity);
+}
+
+/**
+ * Servings to prepare: the forecast plus a safety margin, rounded up
+ */
+export function getPrepQuantity(forecast: number, bufferPercent = 0): number {
+  return Math.ceil(forecast * (1 + bufferPercent / 100) - 1e-9);
+}
+
+/**
+ * Forecast against what each dish actually sold on the day
+ */
+export function compareForecast(
+  forecasts: ItemForecast[],
+  actual: ItemHourSales[]
+): ForecastComparison[] {
+  const rows = new Map<string, ForecastComparison>();
+
+  forecasts.forEach((forecast) => {
+    rows.set(itemKey(forecast), {
+      mealId: forecast.mealId,
+      name: forecast.name,
+      category: forecast.category,
+      forecast: forecast.quantity,
+      actual: 0,
+      difference: 0,
+    });
+  });
+
+  actual.forEach((sale) => {
+    const key = itemKey(sale);
+    const row = rows.get(key) || {
+      mealId: sale.mealId,
+      name: sale.name,
+      category: sale.category,
+      forecast: 0,
+      actual: 0,
+      difference: 0,
+    };
+    row.actual += sale.quantity;
+    rows.set(key, row);
+  });
+
+  return [...rows.values()]
+    .map((row) => ({ ...row, difference: row.actual - row.forecast }))
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+}
+
+/**
+ * How far off a day's forecast was overall: the missed servings as a share
+ * of those sold (weighted absolute percentage error), and whether it ran
+ * high or low
+ */
+export function getForecastAccuracy(comparisons: ForecastComparison[]): {
+  errorPercent: number | null;
+  biasPercent: number | null;
+} {
+  const sold = comparisons.reduce((sum, row) => sum + row.actual, 0);
+  if (sold === 0) return { errorPercent: null, biasPercent: null };
+
+  const missed = comparisons.reduce((sum, row) => sum + Math.abs(row.difference), 0);
+  const over = comparisons.reduce((sum, row) => sum - row.difference, 0);
+  return {
+    errorPercent: (missed / sold) * 100,
+    biasPercent: (over / sold) * 100,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Allergens and Dietary Attributes
+ *
+ * What a menu item contains (allergens), what it suits (dietary tags) and how
+ * spicy it is. Used for customer badges and filters and for kitchen ticket
+ * warnings. The allowed values are enforced by checks on the `menu` table.
+ */
+
+export type Allergen =
+  | "nuts"
+  | "shellfish"
+  | "fish"
+  | "dairy"
+  | "egg"
+  | "gluten"
+  | "soy";
+
+export type DietaryTag = "vegetarian" | "vegan" | "pork_free";
+
+export interface DietaryAttributes {
+  allergens?: string[];
+  dietary_tags?: string[];
+  // 0 = not spicy … 3 = very spicy
+  spice_level?: number;
+}
+
+interface AttributeOption<T extends string> {
+  value: T;
+  label: string;
+  icon: string;
+}
+
+export const ALLERGENS: AttributeOption<Allergen>[] = [
+  { value: "nuts", label: "Nuts", icon: "mdi-peanut" },
+  { value: "shellfish", label: "Shellfish", icon: "mdi-fish" },
+  { value: "fish", label: "Fish", icon: "mdi-fish" },
+  { value: "dairy", label: "Dairy", icon: "mdi-cow" },
+  { value: "egg", label: "Egg", icon: "mdi-egg" },
+  { value: "gluten", label: "Gluten", icon: "mdi-barley" },
+  { value: "soy", label: "Soy", icon: "mdi-soy-sauce" },
+];
+
+export const DIETARY_TAGS: AttributeOption<DietaryTag>[] = [
+  { value: "vegetarian", label: "Vegetarian", icon: "mdi-leaf" },
+  { value: "vegan", label: "Vegan", icon: "mdi-sprout" },
+  { value: "pork_free", label: "Pork-free", icon: "mdi-pig-variant-outline" },
+];
+
+export const SPICE_LEVELS = [
+  { value: 0, label: "Not spicy" },
+  { value: 1, label: "Mild" },
+  { value: 2, label: "Spicy" },
+  { value: 3, label: "Very spicy" },
+];
+
+export interface DietaryBadge {
+  key: string;
+  label: string;
+  icon: string;
+  color: string;
+}
+
+export interface DietaryFilter {
+  value: string;
+  label: string;
+  icon: string;
+  matches: (item: DietaryAttributes) => boolean;
+}
+
+const hasTag = (item: DietaryAttributes, tag: DietaryTag) =>
+  (item.dietary_tags || []).includes(tag);
+
+const contains = (item: DietaryAttributes, allergen: Allergen) =>
+  (item.allergens || []).includes(allergen);
+
+// Filters customers can combine on the menu; an item must match all of them
+export const DIETARY_FILTERS: DietaryFilter[] = [
+  {
+    value: "vegetarian",
+    label: "Vegetarian",
+    icon: "mdi-leaf",
+    matches: (item) => hasTag(item, "vegetarian") || hasTag(item, "vegan"),
+  },
+  {
+    value: "pork_free",
+    label: "Pork-free",
+    icon: "mdi-pig-variant-outline",
+    matches: (item) => hasTag(item, "pork_free"),
+  },
+  {
+    value: "no_nuts",
+    label: "No nuts",
+    icon: "mdi-peanut-off",
+    matches: (item) => !contains(item, "nuts"),
+  },
+  {
+    value: "no_shellfish",
+    label: "No shellfish",
+    icon: "mdi-fish-off",
+    matches: (item) => !contains(item, "shellfish"),
+  },
+  {
+    value: "no_dairy",
+    label: "No dairy",
+    icon: "mdi-cow-off",
+    matches: (item) => !contains(item, "dairy"),
+  },
+  {
+    value: "not_spicy",
+    label: "Not spicy",
+    icon: "mdi-chili-off",
+    matches: (item) => !item.spice_level,
+  },
+];
+
+const labelOf = <T extends string>(
+  options: AttributeOption<T>[],
+  value: string
+) =>
+  options.find((option) => option.value === value)?.label || value;
+
+/**
+ * Whether an item passes every selected filter
+ */
+export function matchesDietaryFilters(
+  item: DietaryAttributes,
+  selected: string[]
+): boolean {
+  return DIETARY_FILTERS.filter((filter) =>
+    selected.includes(filter.value)
+  ).every((filter) => filter.matches(item));
+}
+
+/**
+ * "Contains nuts, shellfish", or null when the item has no allergens
+ */
+export function getAllergenWarning(item: DietaryAttributes): string | null {
+  const allergens = item.allergens || [];
+  if (allergens.length === 0) return null;
+  return `Contains ${allergens
+    .map((allergen) => labelOf(ALLERGENS, allergen).toLowerCase())
+    .join(", ")}`;
+}
+
+/**
+ * Badges for the customer menu: dietary tags, spice level, then allergens
+ */
+export function getDietaryBadges(item: DietaryAttributes): DietaryBadge[] {
+  const badges: DietaryBadge[] = DIETARY_TAGS.filter((tag) =>
+    hasTag(item, tag.value)
+  ).map((tag) => ({
+    key: tag.value,
+    label: tag.label,
+    icon: tag.icon,
+    color: "#4caf50",
+  }));
+
+  if (item.spice_level) {
+    badges.push({
+      key: "spice",
+      label: SPICE_LEVELS[item.spice_level]?.label || "Spicy",
+      icon: "mdi-chili-mild",
+      color: "#e53935",
+    });
+  }
+
+  for (const allergen of ALLERGENS) {
+    if (contains(item, allergen.value)) {
+      badges.push({
+        key: allergen.value,
+        label: `Contains ${allergen.label.toLowerCase()}`,
+        icon: allergen.icon,
+        color: "#fb8c00",
+      });
+    }
+  }
+
+  return badges;
+}
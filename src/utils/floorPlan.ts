@@ -0,0 +1,113 @@
+/**
+ * Floor Plan
+ *
+ * Where each table sits on the café floor. Coordinates are in plan units
+ * (the plan is drawn into an SVG viewBox of the same size), measured to the
+ * centre of the table; rotation is in degrees clockwise.
+ */
+
+import type { TableStatus } from "@/utils/tables";
+
+export type TableShape = "round" | "square" | "rectangle";
+
+export interface TablePlacement {
+  table_id: number;
+  shape: TableShape;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+/**
+ * A placed table as drawn on the canvas
+ */
+export interface FloorTableItem extends TablePlacement {
+  label: string;
+  // Vuetify colour name, e.g. "success"
+  color: string;
+  // Second line under the label, e.g. "12 min"
+  caption?: string;
+  overdue?: boolean;
+}
+
+export interface FloorPlan {
+  id: number;
+  branch_id: number;
+  width: number;
+  height: number;
+  updated_at: string;
+}
+
+export const DEFAULT_PLAN_SIZE = { width: 1200, height: 800 };
+
+export const GRID_SIZE = 20;
+
+export const TABLE_SHAPES: { value: TableShape; label: string; icon: string }[] =
+  [
+    { value: "round", label: "Round", icon: "mdi-circle-outline" },
+    { value: "square", label: "Square", icon: "mdi-square-outline" },
+    { value: "rectangle", label: "Long", icon: "mdi-rectangle-outline" },
+  ];
+
+/**
+ * Minutes in a status after which the floor view flags a table as overdue
+ */
+export const OVERDUE_AFTER_MINUTES: Partial<Record<TableStatus, number>> = {
+  waiting_for_food: 20,
+  needs_bill: 15,
+  needs_cleaning: 10,
+};
+
+export function snapToGrid(value: number): number {
+  return Math.round(value / GRID_SIZE) * GRID_SIZE;
+}
+
+/**
+ * A new placement for a table dropped at (x, y), sized by its seat count
+ */
+export function createPlacement(
+  tableId: number,
+  capacity: number,
+  x: number,
+  y: number
+): TablePlacement {
+  const shape: TableShape = capacity > 4 ? "rectangle" : "square";
+  return {
+    table_id: tableId,
+    shape,
+    x: snapToGrid(x),
+    y: snapToGrid(y),
+    width: shape === "rectangle" ? 160 : 80,
+    height: 80,
+    rotation: 0,
+  };
+}
+
+/**
+ * Keep a placement's centre inside the plan
+ */
+export function clampPlacement(
+  placement: TablePlacement,
+  plan: { width: number; height: number }
+): TablePlacement {
+  return {
+    ...placement,
+    x: Math.min(Math.max(placement.x, 0), plan.width),
+    y: Math.min(Math.max(placement.y, 0), plan.height),
+  };
+}
+
+/**
+ * Whole minutes since a timestamp, or null when there is none
+ */
+export function minutesSince(since: string | null, now = Date.now()): number | null {
+  if (!since) return null;
+  return Math.max(0, Math.floor((now - new Date(since).getTime()) / 60000));
+}
+
+export function isOverdue(status: TableStatus, minutes: number | null): boolean {
+  const limit = OVERDUE_AFTER_MINUTES[status];
+  return limit !== undefined && minutes !== null && minutes >= limit;
+}
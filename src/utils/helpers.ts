@@ -234,6 +234,8 @@ export function getStatusColor(status: string): string {
       return "#4CAF50";
     case "cancelled":
       return "#EF5350";
+    case "voided":
+      return "#9E9E9E";
     default:
       return "#757575"; // Default grey color
   }
@@ -258,6 +260,8 @@ export function getStatusText(status: string): string {
       return "Completed";
     case "cancelled":
       return "Cancelled";
+    case "voided":
+      return "Voided";
     default:
       return "Unknown";
   }
@@ -282,6 +286,8 @@ export function getStatusIcon(status: string): string {
       return "mdi-check-all";
     case "cancelled":
       return "mdi-close-circle-outline";
+    case "voided":
+      return "mdi-cancel";
     default:
       return "mdi-clock-outline";
   }
@@ -301,6 +307,7 @@ export function getStatusLabel(status: string): string {
     case "ready":
     case "completed":
     case "cancelled":
+    case "voided":
       return "Status";
     default:
       return "Estimated Time";
@@ -326,6 +333,8 @@ export function getStatusValue(status: string): string {
       return "Completed";
     case "cancelled":
       return "Cancelled";
+    case "voided":
+      return "Voided";
     default:
       return "3-5 minutes";
   }
@@ -343,6 +352,7 @@ export function getLabelColor(status: string, primaryColor?: string): string {
     case "completed":
       return "#4CAF50";
     case "cancelled":
+    case "voided":
       return "#F44336";
     default:
       return primaryColor || "#757575";
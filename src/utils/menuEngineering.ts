@@ -0,0 +1,186 @@
+/**
+ * Menu Engineering
+ *
+ * Sorts dishes into the classic four groups by popularity and profit:
+ *
+ *   star       popular and earns more than average per serving - keep
+ *   plowhorse  popular but earns less - reprice or cut its cost
+ *   puzzle     earns more but sells less - promote or reposition
+ *   dog        neither - rework or drop
+ *
+ * A dish is popular when its share of units sold is at least 70% of an even
+ * share (1 / number of dishes). Its contribution margin is its average
+ * selling price less its cost per serving, and it is profitable when that is
+ * at least the average margin of all units sold. Dishes without a cost
+ * cannot be placed and are left out of the averages.
+ */
+
+import type { MenuEngineeringItem } from "@/stores/salesDatas";
+
+export type MenuClass = "star" | "plowhorse" | "puzzle" | "dog";
+
+export const MENU_CLASSES: Record<
+  MenuClass,
+  { label: string; color: string; icon: string; advice: string }
+> = {
+  star: {
+    label: "Star",
+    color: "success",
+    icon: "mdi-star",
+    advice: "Keep it visible and its quality steady",
+  },
+  plowhorse: {
+    label: "Plowhorse",
+    color: "info",
+    icon: "mdi-horse",
+    advice: "Raise the price a little or lower its cost",
+  },
+  puzzle: {
+    label: "Puzzle",
+    color: "warning",
+    icon: "mdi-puzzle",
+    advice: "Promote it, rename it or move it up the menu",
+  },
+  dog: {
+    label: "Dog",
+    color: "error",
+    icon: "mdi-dog",
+    advice: "Rework it or take it off the menu",
+  },
+};
+
+// Share of an even menu mix a dish needs to count as popular
+export const POPULARITY_FACTOR = 0.7;
+
+export interface EngineeredItem extends MenuEngineeringItem {
+  // Of units sold among the dishes analysed, in %
+  menuMix: number;
+  averagePrice: number;
+  unitMargin: number;
+  totalMargin: number;
+  menuClass: MenuClass;
+}
+
+export interface MenuEngineeringMatrix {
+  items: EngineeredItem[];
+  // Dishes sold without a cost, which cannot be placed
+  uncosted: MenuEngineeringItem[];
+  // Menu mix % a dish needs to be popular
+  popularityThreshold: number;
+  averageMargin: number;
+  totalMargin: number;
+}
+
+export function classifyMenuItem(
+  menuMix: number,
+  unitMargin: number,
+  popularityThreshold: number,
+  averageMargin: number
+): MenuClass {
+  const popular = menuMix >= popularityThreshold;
+  const profitable = unitMargin >= averageMargin;
+  if (popular) return profitable ? "star" : "plowhorse";
+  return profitable ? "puzzle" : "dog";
+}
+
+/**
+ * Place the dishes of a period, or of one category of it, in the matrix
+ */
+export function buildMenuEngineering(
+  items: MenuEngineeringItem[]
+): MenuEngineeringMatrix {
+  const costed = items.filter(
+    (item) => item.unitCost !== null && item.quantitySold > 0
+  );
+  const uncosted = items.filter((item) => item.unitCost === null);
+
+  const totalQuantity = costed.reduce((sum, item) => sum + item.quantitySold, 0);
+  const totalMargin = costed.reduce(
+    (sum, item) => sum + item.revenue - item.unitCost! * item.quantitySold,
+    0
+  );
+  const averageMargin = totalQuantity > 0 ? totalMargin / totalQuantity : 0;
+  const popularityThreshold =
+    costed.length > 0 ? (100 / costed.length) * POPULARITY_FACTOR : 0;
+
+  const engineered = costed.map((item) => {
+    const menuMix = (item.quantitySold / totalQuantity) * 100;
+    const averagePrice = item.revenue / item.quantitySold;
+    const unitMargin = averagePrice - item.unitCost!;
+
+    return {
+      ...item,
+      menuMix,
+      averagePrice,
+      unitMargin,
+      totalMargin: unitMargin * item.quantitySold,
+      menuClass: classifyMenuItem(
+        menuMix,
+        unitMargin,
+        popularityThreshold,
+        averageMargin
+      ),
+    };
+  });
+
+  return {
+    items: engineered.sort((a, b) => b.totalMargin - a.totalMargin),
+    uncosted,
+    popularityThreshold,
+    averageMargin,
+    totalMargin,
+  };
+}
+
+/**
+ * CSV of a matrix, one row per dish
+ */
+export function menuEngineeringToCsv(matrix: MenuEngineeringMatrix): string {
+  const quote = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const rows = [
+    [
+      "Item",
+      "Category",
+      "Class",
+      "Quantity Sold",
+      "Menu Mix %",
+      "Revenue",
+      "Avg Price",
+      "Unit Cost",
+      "Unit Margin",
+      "Total Margin",
+    ],
+    ...matrix.items.map((item) => [
+      quote(item.name),
+      quote(item.category),
+      MENU_CLASSES[item.menuClass].label,
+      item.quantitySold.toString(),
+      item.menuMix.toFixed(2),
+      item.revenue.toFixed(2),
+      item.averagePrice.toFixed(2),
+      item.unitCost!.toFixed(2),
+      item.unitMargin.toFixed(2),
+      item.totalMargin.toFixed(2),
+    ]),
+    ...matrix.uncosted.map((item) => [
+      quote(item.name),
+      quote(item.category),
+      "No cost",
+      item.quantitySold.toString(),
+      "",
+      item.revenue.toFixed(2),
+      "",
+      "",
+      "",
+      "",
+    ]),
+    [""],
+    ["Popularity Threshold %", matrix.popularityThreshold.toFixed(2)],
+    ["Average Unit Margin", matrix.averageMargin.toFixed(2)],
+    ["Total Margin", matrix.totalMargin.toFixed(2)],
+  ];
+
+  return rows.map((row) => row.join(",")).join("\n");
+}
@@ -0,0 +1,251 @@
+/**
+ * Menu Schedules
+ *
+ * Types and helpers for time-based menu availability. A schedule opens a
+ * category or chosen menu items on some days of the week, between two times
+ * and optionally within a date range. Items without a schedule are always on
+ * the menu. Everything is evaluated in the café's local time, matching the
+ * `menu_item_is_on_schedule` check applied when orders are submitted.
+ */
+
+import { APP_CONFIG } from "@/utils/constants";
+
+// Indexed like Date.getDay(): 0 = Sunday
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export interface MenuScheduleItem {
+  schedule_id: number;
+  meal_id: number;
+}
+
+export interface MenuSchedule {
+  id: number;
+  name: string;
+  days_of_week: number[];
+  // "HH:MM:SS"; both null means all day. An end before the start runs past midnight
+  start_time: string | null;
+  end_time: string | null;
+  // "YYYY-MM-DD", for seasonal items
+  start_date: string | null;
+  end_date: string | null;
+  // Applies to every item in this category, on top of menu_schedule_items
+  category: string | null;
+  is_active: boolean;
+  created_at: string;
+  menu_schedule_items: MenuScheduleItem[];
+}
+
+// Wall-clock time at the café
+export interface CafeClock {
+  date: string;
+  day: number;
+  minutes: number;
+}
+
+export interface ScheduleStatus {
+  open: boolean;
+  // "Available from 6 AM" while closed, null when it does not open again this week
+  availableFrom: string | null;
+}
+
+interface Opening {
+  daysAhead: number;
+  day: number;
+  minutes: number;
+}
+
+const dayOfDate = (date: string): number =>
+  new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const isInDateRange = (schedule: MenuSchedule, date: string): boolean =>
+  (!schedule.start_date || date >= schedule.start_date) &&
+  (!schedule.end_date || date <= schedule.end_date);
+
+/**
+ * Date, weekday and minutes past midnight in the café's time zone
+ */
+export function getCafeClock(at: Date = new Date()): CafeClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: APP_CONFIG.TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || "0";
+
+  const date = `${part("year")}-${part("month")}-${part("day")}`;
+  return {
+    date,
+    day: dayOfDate(date),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+/**
+ * "6 AM", "6:30 PM", "12 PM"
+ */
+export function formatScheduleTime(time: string | number): string {
+  const total = typeof time === "number" ? time : toMinutes(time);
+  const hours = Math.floor(total / 60) % 24;
+  const minutes = total % 60;
+  const suffix = hours < 12 ? "AM" : "PM";
+  const hour12 = hours % 12 || 12;
+  return minutes
+    ? `${hour12}:${String(minutes).padStart(2, "0")} ${suffix}`
+    : `${hour12} ${suffix}`;
+}
+
+/**
+ * "Mon–Fri · 6 AM – 11 AM · Dec 1 – Jan 6"
+ */
+export function formatScheduleWindow(schedule: MenuSchedule): string {
+  const days = [...schedule.days_of_week].sort((a, b) => a - b);
+  const isRun = days.every(
+    (day, index) => index === 0 || day === days[index - 1] + 1
+  );
+
+  let dayLabel: string;
+  if (days.length === 7) dayLabel = "Every day";
+  else if (isRun && days.length > 2) {
+    dayLabel = `${WEEKDAYS[days[0]]}–${WEEKDAYS[days[days.length - 1]]}`;
+  } else dayLabel = days.map((day) => WEEKDAYS[day]).join(", ");
+
+  const hours =
+    schedule.start_time && schedule.end_time
+      ? `${formatScheduleTime(schedule.start_time)} – ${formatScheduleTime(
+          schedule.end_time
+        )}`
+      : "All day";
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+  const dates =
+    schedule.start_date || schedule.end_date
+      ? `${schedule.start_date ? formatDate(schedule.start_date) : "Now"} – ${
+          schedule.end_date ? formatDate(schedule.end_date) : "onwards"
+        }`
+      : null;
+
+  return [dayLabel, hours, dates].filter(Boolean).join(" · ");
+}
+
+/**
+ * Active schedules that apply to a menu item, by category or by item
+ */
+export function getItemSchedules(
+  item: { id: number; category?: string },
+  schedules: MenuSchedule[]
+): MenuSchedule[] {
+  return schedules.filter(
+    (schedule) =>
+      schedule.is_active &&
+      ((!!schedule.category && schedule.category === item.category) ||
+        schedule.menu_schedule_items.some((entry) => entry.meal_id === item.id))
+  );
+}
+
+/**
+ * Whether a schedule is open at the given café time
+ */
+export function isScheduleOpen(
+  schedule: MenuSchedule,
+  clock: CafeClock
+): boolean {
+  if (!schedule.is_active || !isInDateRange(schedule, clock.date)) {
+    return false;
+  }
+
+  const runsOn = (day: number) => schedule.days_of_week.includes(day);
+  if (!schedule.start_time || !schedule.end_time) return runsOn(clock.day);
+
+  const start = toMinutes(schedule.start_time);
+  const end = toMinutes(schedule.end_time);
+  if (start < end) {
+    return runsOn(clock.day) && clock.minutes >= start && clock.minutes < end;
+  }
+
+  // Overnight window: the late part belongs to the day it started on
+  return (
+    (runsOn(clock.day) && clock.minutes >= start) ||
+    (runsOn((clock.day + 6) % 7) && clock.minutes < end)
+  );
+}
+
+// Next time the schedule opens within a week, if any
+const getNextOpening = (
+  schedule: MenuSchedule,
+  clock: CafeClock
+): Opening | null => {
+  if (!schedule.is_active) return null;
+  const start = schedule.start_time ? toMinutes(schedule.start_time) : 0;
+
+  for (let daysAhead = 0; daysAhead <= 7; daysAhead++) {
+    const date = addDays(clock.date, daysAhead);
+    const day = dayOfDate(date);
+    if (!schedule.days_of_week.includes(day)) continue;
+    if (!isInDateRange(schedule, date)) continue;
+    if (daysAhead === 0 && start <= clock.minutes) continue;
+    return { daysAhead, day, minutes: start };
+  }
+  return null;
+};
+
+const formatOpening = (opening: Opening): string => {
+  const time = formatScheduleTime(opening.minutes);
+  if (opening.daysAhead === 0) return `Available from ${time}`;
+  if (opening.daysAhead === 1) return `Available tomorrow from ${time}`;
+  const prefix = opening.daysAhead === 7 ? "next " : "";
+  return `Available ${prefix}${WEEKDAY_NAMES[opening.day]} from ${time}`;
+};
+
+/**
+ * Whether an item with these schedules can be ordered now, and when it
+ * opens next if not
+ */
+export function getScheduleStatus(
+  schedules: MenuSchedule[],
+  clock: CafeClock
+): ScheduleStatus {
+  if (
+    schedules.length === 0 ||
+    schedules.some((schedule) => isScheduleOpen(schedule, clock))
+  ) {
+    return { open: true, availableFrom: null };
+  }
+
+  const next = schedules
+    .map((schedule) => getNextOpening(schedule, clock))
+    .filter((opening): opening is Opening => opening !== null)
+    .sort((a, b) => a.daysAhead - b.daysAhead || a.minutes - b.minutes)[0];
+
+  return { open: false, availableFrom: next ? formatOpening(next) : null };
+}
@@ -0,0 +1,246 @@
+/**
+ * Menu Item Modifiers
+ *
+ * Types and helpers for modifier groups (sizes, add-ons, removals), the
+ * options a customer picks for a cart line and the snapshot stored on each
+ * order line. The database re-validates selections in `submit_order`.
+ *
+ * Order lines also keep the item's name, category and price from when the
+ * order was placed; read those rather than the live menu, which may have
+ * changed or lost the item since.
+ */
+
+import type { MenuItem } from "@/stores/menuData";
+import type { CartBundleSelection } from "@/utils/bundles";
+
+export interface ModifierOption {
+  id: number;
+  group_id: number;
+  name: string;
+  price_delta: number;
+  is_available: boolean;
+  sort_order: number;
+}
+
+export interface ModifierGroup {
+  id: number;
+  meal_id: number;
+  name: string;
+  is_required: boolean;
+  min_select: number;
+  max_select: number;
+  sort_order: number;
+  modifier_options: ModifierOption[];
+}
+
+/**
+ * A chosen option as stored on `order_items.modifiers`
+ */
+export interface OrderLineModifier {
+  group_id: number;
+  group_name: string;
+  option_id: number;
+  name: string;
+  price_delta: number;
+}
+
+/**
+ * One unit in the customer's cart, with the options picked for it
+ */
+export interface CartItem extends MenuItem {
+  selected_modifiers?: OrderLineModifier[];
+  special_instructions?: string;
+  // Set when the unit is a bundle; `id` is then the bundle id
+  bundle?: CartBundleSelection;
+}
+
+/**
+ * Cart units grouped into a line for display
+ */
+export interface CartLine {
+  key: string;
+  item: CartItem;
+  quantity: number;
+  unitPrice: number;
+}
+
+export const SPECIAL_INSTRUCTIONS_MAX_LENGTH = 200;
+
+/**
+ * Sort groups and their options into display order
+ */
+export function sortModifierGroups(groups: ModifierGroup[] = []): ModifierGroup[] {
+  return [...groups]
+    .sort((a, b) => a.sort_order - b.sort_order || a.id - b.id)
+    .map((group) => ({
+      ...group,
+      modifier_options: [...(group.modifier_options || [])].sort(
+        (a, b) => a.sort_order - b.sort_order || a.id - b.id
+      ),
+    }));
+}
+
+/**
+ * Least number of options a group needs; required groups need at least one
+ */
+export function getMinSelections(group: ModifierGroup): number {
+  return Math.max(group.min_select, group.is_required ? 1 : 0);
+}
+
+/**
+ * Returns a customer-facing error for the first group whose selection is
+ * out of bounds, or null when the selection is valid
+ */
+export function validateModifierSelection(
+  groups: ModifierGroup[],
+  selectedOptionIds: number[]
+): string | null {
+  for (const group of groups) {
+    const selected = group.modifier_options.filter((option) =>
+      selectedOptionIds.includes(option.id)
+    ).length;
+    const min = getMinSelections(group);
+
+    if (selected < min) {
+      return min === 1
+        ? `Please choose an option for "${group.name}"`
+        : `Please choose ${min} options for "${group.name}"`;
+    }
+    if (selected > group.max_select) {
+      return `You can choose up to ${group.max_select} for "${group.name}"`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the order-line snapshot for a set of chosen option ids
+ */
+export function buildLineModifiers(
+  groups: ModifierGroup[],
+  selectedOptionIds: number[]
+): OrderLineModifier[] {
+  return groups.flatMap((group) =>
+    group.modifier_options
+      .filter((option) => selectedOptionIds.includes(option.id))
+      .map((option) => ({
+        group_id: group.id,
+        group_name: group.name,
+        option_id: option.id,
+        name: option.name,
+        price_delta: Number(option.price_delta) || 0,
+      }))
+  );
+}
+
+export function getModifiersTotal(modifiers: OrderLineModifier[] = []): number {
+  return modifiers.reduce(
+    (total, modifier) => total + (Number(modifier.price_delta) || 0),
+    0
+  );
+}
+
+/**
+ * Price of one unit of a cart line: base price plus option deltas
+ */
+export function getCartItemUnitPrice(item: CartItem): number {
+  return item.price + getModifiersTotal(item.selected_modifiers);
+}
+
+/**
+ * Price of one unit of a stored order line, as it was sold. Bundle
+ * components are priced at their share of the bundle price.
+ */
+export function getOrderLineUnitPrice(line: {
+  unit_price?: number | null;
+  meal?: { price: number } | null;
+  modifiers?: OrderLineModifier[] | null;
+  quantity?: number;
+  allocated_amount?: number | null;
+}): number {
+  if (line.allocated_amount !== null && line.allocated_amount !== undefined) {
+    return line.quantity ? Number(line.allocated_amount) / line.quantity : 0;
+  }
+  const basePrice = line.unit_price ?? line.meal?.price ?? 0;
+  return Number(basePrice) + getModifiersTotal(line.modifiers || []);
+}
+
+/**
+ * Name of a stored order line as it was sold
+ */
+export function getOrderLineName(line: {
+  item_name?: string | null;
+  meal?: { name: string } | null;
+}): string {
+  return line.item_name || line.meal?.name || "Deleted item";
+}
+
+/**
+ * Category of a stored order line as it was sold
+ */
+export function getOrderLineCategory(line: {
+  category?: string | null;
+  meal?: { category?: string } | null;
+}): string {
+  return line.category || line.meal?.category || "Uncategorized";
+}
+
+/**
+ * Cart units with the same item, options and instructions share a line;
+ * bundles share one when the same components were chosen
+ */
+export function getCartLineKey(item: CartItem): string {
+  if (item.bundle) {
+    const mealIds = item.bundle.components
+      .map((component) => `${component.slot_id}:${component.meal_id}`)
+      .join(",");
+    return `bundle:${item.bundle.bundle_id}|${mealIds}`;
+  }
+  const optionIds = (item.selected_modifiers || [])
+    .map((modifier) => modifier.option_id)
+    .sort((a, b) => a - b)
+    .join(",");
+  return `${item.id}|${optionIds}|${(item.special_instructions || "").trim()}`;
+}
+
+/**
+ * Group cart units into lines, keeping the order they were first added
+ */
+export function groupCartLines(cartItems: CartItem[]): CartLine[] {
+  const lines = new Map<string, CartLine>();
+
+  cartItems.forEach((item) => {
+    const key = getCartLineKey(item);
+    const line = lines.get(key);
+    if (line) {
+      line.quantity += 1;
+    } else {
+      lines.set(key, {
+        key,
+        item,
+        quantity: 1,
+        unitPrice: getCartItemUnitPrice(item),
+      });
+    }
+  });
+
+  return Array.from(lines.values());
+}
+
+/**
+ * "Large, Extra rice (+₱20.00)" style summary for tickets and receipts
+ */
+export function formatModifiers(
+  modifiers: OrderLineModifier[] | null | undefined,
+  currency = ""
+): string {
+  return (modifiers || [])
+    .map((modifier) =>
+      modifier.price_delta
+        ? `${modifier.name} (${modifier.price_delta > 0 ? "+" : "-"}${currency}${Math.abs(
+            modifier.price_delta
+          ).toFixed(2)})`
+        : modifier.name
+    )
+    .join(", ");
+}
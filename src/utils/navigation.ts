@@ -38,6 +38,24 @@ export const navigationConfig: NavigationGroup[] = [
         route: "/admin/inventory-management",
         permission: "admin.inventory.manage",
       },
+      {
+        title: "Ingredients & Recipes",
+        icon: "mdi-food-variant",
+        route: "/admin/ingredients",
+        permission: "admin.inventory.manage",
+      },
+      {
+        title: "Combos & Bundles",
+        icon: "mdi-food-takeout-box",
+        route: "/admin/bundles",
+        permission: "admin.inventory.manage",
+      },
+      {
+        title: "Menu Schedules",
+        icon: "mdi-calendar-clock",
+        route: "/admin/menu-schedules",
+        permission: "admin.inventory.manage",
+      },
       {
         title: "User Management",
         icon: "mdi-account-multiple",
@@ -50,12 +68,30 @@ export const navigationConfig: NavigationGroup[] = [
         route: "/admin/user-roles",
         permission: "admin.roles.manage",
       },
+      {
+        title: "Tables",
+        icon: "mdi-table-chair",
+        route: "/admin/tables",
+        permission: "admin.tables.manage",
+      },
+      {
+        title: "Floor Plan",
+        icon: "mdi-floor-plan",
+        route: "/admin/floor-plan",
+        permission: "admin.tables.manage",
+      },
       {
         title: "QR Code Generator",
         icon: "mdi-qrcode-scan",
         route: "/admin/qr-generator",
         permission: "admin.qr.generate",
       },
+      {
+        title: "Payment Settings",
+        icon: "mdi-cellphone-nfc",
+        route: "/admin/payment-settings",
+        permission: "admin.payments.manage",
+      },
     ],
   },
   {
@@ -75,6 +111,12 @@ export const navigationConfig: NavigationGroup[] = [
         route: "/cashier/history",
         permission: "cashier.orders.history",
       },
+      {
+        title: "Floor View",
+        icon: "mdi-floor-plan",
+        route: "/cashier/floor",
+        permission: "cashier.orders.view",
+      },
     ],
   },
   {
@@ -88,6 +130,18 @@ export const navigationConfig: NavigationGroup[] = [
         route: "/server",
         permission: "server.orders.view",
       },
+      {
+        title: "Prep List",
+        icon: "mdi-clipboard-list",
+        route: "/server/prep-list",
+        permission: "server.orders.view",
+      },
+      {
+        title: "Floor View",
+        icon: "mdi-floor-plan",
+        route: "/cashier/floor",
+        permission: "server.orders.view",
+      },
     ],
   },
   {
@@ -101,6 +155,12 @@ export const navigationConfig: NavigationGroup[] = [
         route: "/sales",
         permission: "sales.dashboard.view",
       },
+      {
+        title: "Demand Forecast",
+        icon: "mdi-crystal-ball",
+        route: "/server/prep-list",
+        permission: "sales.dashboard.view",
+      },
     ],
   },
 ];
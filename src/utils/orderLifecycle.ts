@@ -0,0 +1,164 @@
+/**
+ * Order Lifecycle
+ *
+ * Single source of truth for what an order's status means:
+ * - The legal transitions between statuses
+ * - Which timestamp column each transition stamps
+ * - Typed errors for illegal or stale transitions
+ *
+ * Stores must go through useOrderDataStore().transitionOrder() instead of
+ * writing `orders.status` directly. The same rules are enforced in the
+ * database by the `enforce_order_status_transition` trigger.
+ */
+
+export const ORDER_STATUSES = [
+  "pending",
+  "confirmed",
+  "preparing",
+  "ready",
+  "completed",
+  "cancelled",
+  "voided",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/**
+ * Legal next statuses for each status.
+ * pending → preparing → ready → completed is the happy path; orders can be
+ * cancelled before they are ready, and voided once they have been served.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["confirmed", "preparing", "cancelled"],
+  confirmed: ["preparing", "cancelled"],
+  preparing: ["ready", "cancelled"],
+  ready: ["completed", "voided"],
+  completed: ["voided"],
+  cancelled: [],
+  voided: [],
+};
+
+/**
+ * Timestamp column stamped when an order enters a status
+ */
+export const STATUS_TIMESTAMP_COLUMNS: Partial<Record<OrderStatus, string>> = {
+  confirmed: "confirmed_at",
+  preparing: "preparing_at",
+  ready: "ready_at",
+  completed: "completed_at",
+  cancelled: "cancelled_at",
+  voided: "voided_at",
+};
+
+export interface OrderStatusTimestamps {
+  confirmed_at?: string | null;
+  preparing_at?: string | null;
+  ready_at?: string | null;
+  completed_at?: string | null;
+  cancelled_at?: string | null;
+  voided_at?: string | null;
+  status_updated_by?: string | null;
+}
+
+export type OrderTransitionErrorCode =
+  | "ILLEGAL_TRANSITION"
+  | "STALE_STATUS"
+  | "ORDER_NOT_FOUND";
+
+/**
+ * Raised when an order cannot move to the requested status
+ */
+export class OrderTransitionError extends Error {
+  readonly code: OrderTransitionErrorCode;
+  readonly orderId: number;
+  readonly from: OrderStatus | null;
+  readonly to: OrderStatus;
+
+  constructor(
+    code: OrderTransitionErrorCode,
+    orderId: number,
+    from: OrderStatus | null,
+    to: OrderStatus,
+    message?: string
+  ) {
+    super(
+      message ||
+        (code === "ORDER_NOT_FOUND"
+          ? `Order #${orderId} not found`
+          : code === "STALE_STATUS"
+            ? `Order #${orderId} was updated by someone else. Refresh and try again.`
+            : `Order #${orderId} cannot go from "${from}" to "${to}"`)
+    );
+    this.name = "OrderTransitionError";
+    this.code = code;
+    this.orderId = orderId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Type guard for order status strings coming from the database or the UI
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return (
+    typeof value === "string" &&
+    (ORDER_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Checks whether an order may move from one status to another
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Throws an OrderTransitionError if the transition is not legal
+ */
+export function assertTransition(
+  orderId: number,
+  from: OrderStatus,
+  to: OrderStatus
+): void {
+  if (!canTransition(from, to)) {
+    throw new OrderTransitionError("ILLEGAL_TRANSITION", orderId, from, to);
+  }
+}
+
+/**
+ * Whether an order in this status can still change
+ */
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Builds the `orders` update for a transition: the new status, the timestamp
+ * for the status being entered and the acting user.
+ * Approving a pending order straight into the kitchen also stamps confirmed_at.
+ */
+export function buildTransitionPatch(
+  from: OrderStatus,
+  to: OrderStatus,
+  actingUserId: string | null,
+  at: Date = new Date()
+): { status: OrderStatus } & OrderStatusTimestamps {
+  const timestamp = at.toISOString();
+  const patch: { status: OrderStatus } & Record<string, string | null> = {
+    status: to,
+    status_updated_by: actingUserId,
+  };
+
+  const column = STATUS_TIMESTAMP_COLUMNS[to];
+  if (column) {
+    patch[column] = timestamp;
+  }
+
+  if (from === "pending" && to === "preparing") {
+    patch.confirmed_at = timestamp;
+  }
+
+  return patch;
+}
@@ -0,0 +1,215 @@
+/**
+ * Payments
+ *
+ * Methods a bill can be paid with and the arithmetic of a payment made of
+ * several tenders: cards and e-wallets pay exactly what is entered, cash
+ * covers whatever is left and the rest of it is handed back as change. Keep
+ * the methods in sync with the checks on `order_payments`.
+ */
+
+export type PaymentMethod = "cash" | "ewallet" | "card";
+
+export interface OrderPayment {
+  id: number;
+  order_id: number;
+  bill_share_id: number | null;
+  method: PaymentMethod;
+  amount: number;
+  tendered: number;
+  change_given: number;
+  reference: string | null;
+  received_by: string | null;
+  created_at: string;
+}
+
+/**
+ * An `order_payments` row as returned by Supabase, before its numeric
+ * columns are converted
+ */
+export interface OrderPaymentRow
+  extends Omit<OrderPayment, "amount" | "tendered" | "change_given"> {
+  amount: number | string;
+  tendered: number | string;
+  change_given: number | string;
+}
+
+/**
+ * A tender as typed in at the till; for cash, `amount` is what was handed over
+ */
+export interface TenderInput {
+  method: PaymentMethod;
+  amount: number | null;
+  reference: string;
+}
+
+/**
+ * A tender as sent to `record_order_payment`
+ */
+export interface TenderDraft {
+  method: PaymentMethod;
+  amount: number;
+  tendered: number;
+  reference: string | null;
+}
+
+export interface TenderSummary {
+  tenders: TenderDraft[];
+  applied: number;
+  change: number;
+  remaining: number;
+  error: string | null;
+}
+
+export interface PaymentMethodTotal {
+  method: PaymentMethod;
+  label: string;
+  transactions: number;
+  amount: number;
+  percentage: number;
+}
+
+export const PAYMENT_METHODS: {
+  value: PaymentMethod;
+  label: string;
+  icon: string;
+  color: string;
+  referenceLabel: string | null;
+}[] = [
+  { value: "cash", label: "Cash", icon: "mdi-cash", color: "success", referenceLabel: null },
+  {
+    value: "ewallet",
+    label: "E-wallet",
+    icon: "mdi-cellphone-nfc",
+    color: "info",
+    referenceLabel: "Reference no.",
+  },
+  {
+    value: "card",
+    label: "Card",
+    icon: "mdi-credit-card-outline",
+    color: "purple",
+    referenceLabel: "Approval code",
+  },
+];
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * An `order_payments` row with its numeric columns as numbers
+ */
+export function toOrderPayment(row: OrderPaymentRow): OrderPayment {
+  return {
+    ...row,
+    amount: Number(row.amount),
+    tendered: Number(row.tendered),
+    change_given: Number(row.change_given),
+  };
+}
+
+/**
+ * Display name of a payment method, e.g. "E-wallet"
+ */
+export function getPaymentMethodLabel(method: string): string {
+  return PAYMENT_METHODS.find((option) => option.value === method)?.label || method;
+}
+
+/**
+ * Turn the tenders typed in at the till into what each one pays towards
+ * `due`, with the change owed on the cash
+ */
+export function summarizeTenders(inputs: TenderInput[], due: number): TenderSummary {
+  const dueCents = toCents(due);
+  const entered = inputs.filter((input) => (input.amount || 0) > 0);
+  let remainingCents = dueCents;
+  let error: string | null = null;
+
+  // Cards and e-wallets are charged the exact amount, so they go first
+  const exact = entered
+    .filter((input) => input.method !== "cash")
+    .map((input) => {
+      const cents = toCents(input.amount!);
+      remainingCents -= cents;
+      if (!input.reference.trim()) {
+        error = `${getPaymentMethodLabel(input.method)} payments need a reference number`;
+      }
+      return {
+        method: input.method,
+        amount: cents / 100,
+        tendered: cents / 100,
+        reference: input.reference.trim(),
+      };
+    });
+
+  if (remainingCents < 0) {
+    error = "Card and e-wallet amounts are more than the amount due";
+  }
+
+  const cash = entered
+    .filter((input) => input.method === "cash")
+    .map((input) => {
+      const tenderedCents = toCents(input.amount!);
+      const appliedCents = Math.min(tenderedCents, Math.max(remainingCents, 0));
+      remainingCents -= appliedCents;
+      if (appliedCents === 0) {
+        error = "Remove the cash that is not needed to pay the bill";
+      }
+      return {
+        method: input.method,
+        amount: appliedCents / 100,
+        tendered: tenderedCents / 100,
+        reference: input.reference.trim() || null,
+      };
+    });
+
+  const tenders = [...exact, ...cash];
+  const appliedCents = tenders.reduce((sum, tender) => sum + toCents(tender.amount), 0);
+  const changeCents = tenders.reduce(
+    (sum, tender) => sum + toCents(tender.tendered) - toCents(tender.amount),
+    0
+  );
+
+  return {
+    tenders,
+    applied: appliedCents / 100,
+    change: changeCents / 100,
+    remaining: Math.max(dueCents - appliedCents, 0) / 100,
+    error,
+  };
+}
+
+/**
+ * Round banknote amounts a customer is likely to hand over for `due`
+ */
+export function quickCashAmounts(due: number): number[] {
+  const amounts = [100, 200, 500, 1000]
+    .map((note) => Math.ceil(due / note) * note)
+    .filter((amount) => amount > due);
+  return [...new Set(amounts)].slice(0, 3);
+}
+
+/**
+ * Total taken per payment method, largest first. Rows may already be
+ * totals of several payments, with their count in `transactions`.
+ */
+export function totalsByMethod(
+  payments: (Pick<OrderPayment, "method" | "amount"> & { transactions?: number })[]
+): PaymentMethodTotal[] {
+  const total = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  return PAYMENT_METHODS.map((option) => {
+    const ofMethod = payments.filter((payment) => payment.method === option.value);
+    const amount = ofMethod.reduce((sum, payment) => sum + Number(payment.amount), 0);
+    return {
+      method: option.value,
+      label: option.label,
+      transactions: ofMethod.reduce(
+        (count, payment) => count + (payment.transactions ?? 1),
+        0
+      ),
+      amount,
+      percentage: total > 0 ? (amount / total) * 100 : 0,
+    };
+  })
+    .filter((entry) => entry.transactions > 0)
+    .sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,54 @@
+/**
+ * Placed Orders
+ *
+ * Remembers which orders were placed from this device, per table, so the
+ * waiting page follows the diner's own orders instead of whatever was placed
+ * last at the table.
+ */
+
+const STORAGE_PREFIX = "orders:table:";
+// Orders older than this are no longer followed
+const PLACED_ORDER_TTL_MS = 12 * 60 * 60 * 1000;
+
+interface PlacedOrder {
+  id: number;
+  placedAt: number;
+}
+
+const storageKey = (tableId: number) => `${STORAGE_PREFIX}${tableId}`;
+
+const readPlacedOrders = (tableId: number): PlacedOrder[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(tableId));
+    if (!stored) return [];
+    const orders: PlacedOrder[] = JSON.parse(stored);
+    return orders.filter(
+      (order) => Date.now() - order.placedAt < PLACED_ORDER_TTL_MS
+    );
+  } catch (err) {
+    console.error("Error reading placed orders:", err);
+    return [];
+  }
+};
+
+/**
+ * Record an order placed from this device
+ */
+export function rememberPlacedOrder(tableId: number, orderId: number): void {
+  const orders = readPlacedOrders(tableId).filter(
+    (order) => order.id !== orderId
+  );
+  orders.push({ id: orderId, placedAt: Date.now() });
+  try {
+    localStorage.setItem(storageKey(tableId), JSON.stringify(orders));
+  } catch (err) {
+    console.error("Error saving placed order:", err);
+  }
+}
+
+/**
+ * Ids of the orders placed from this device at a table, oldest first
+ */
+export function getPlacedOrderIds(tableId: number): number[] {
+  return readPlacedOrders(tableId).map((order) => order.id);
+}
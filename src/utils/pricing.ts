@@ -0,0 +1,185 @@
+/**
+ * Pricing
+ *
+ * VAT, service charge and senior citizen / PWD discounts, worked out the
+ * same way as `private.price_order` in the database so the cart can preview
+ * what the server will charge. The server's figures on the order are the
+ * ones that count.
+ *
+ * A group bill is discounted per eligible diner: with 4 diners and one
+ * senior, a quarter of the bill is VAT-exempt and gets the 20% discount.
+ * Service charge is on sales net of VAT, before discounts.
+ */
+
+export type DiscountType = "senior" | "pwd";
+
+export interface PricingSettings {
+  vat_rate: number;
+  prices_include_vat: boolean;
+  service_charge_rate: number;
+}
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  vat_rate: 0.12,
+  prices_include_vat: true,
+  service_charge_rate: 0,
+};
+
+export const STATUTORY_DISCOUNT_RATE = 0.2;
+
+export const DISCOUNT_TYPES: {
+  value: DiscountType;
+  label: string;
+  short: string;
+  idLabel: string;
+}[] = [
+  { value: "senior", label: "Senior Citizen", short: "SC", idLabel: "OSCA ID No." },
+  { value: "pwd", label: "Person with Disability", short: "PWD", idLabel: "PWD ID No." },
+];
+
+export interface PricingLine {
+  // What the line costs on the menu, VAT included unless the branch says not
+  amount: number;
+  vat_exempt?: boolean;
+}
+
+export interface PriceBreakdown {
+  subtotal: number;
+  vatable_sales: number;
+  vat_amount: number;
+  vat_exempt_sales: number;
+  discount_amount: number;
+  service_charge: number;
+  total: number;
+}
+
+/**
+ * A senior citizen or PWD diner as entered by the cashier
+ */
+export interface DiscountHolder {
+  discount_type: DiscountType;
+  id_number: string;
+  holder_name: string | null;
+}
+
+export interface OrderDiscount extends DiscountHolder {
+  id: number;
+  order_id: number;
+  amount: number;
+  created_at: string;
+}
+
+/**
+ * An `order_discounts` row as returned by Supabase, before its amount is
+ * converted
+ */
+export interface OrderDiscountRow extends Omit<OrderDiscount, "amount"> {
+  amount: number | string;
+  created_by: string | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Price a bill. `eligibleCount` of the `headcount` diners hold a senior
+ * citizen or PWD ID.
+ */
+export function priceOrder(
+  lines: PricingLine[],
+  settings: PricingSettings = DEFAULT_PRICING_SETTINGS,
+  headcount = 1,
+  eligibleCount = 0
+): PriceBreakdown {
+  const rate = settings.vat_rate;
+  const vatableGross = lines
+    .filter((line) => !line.vat_exempt)
+    .reduce((sum, line) => sum + line.amount, 0);
+  const exemptGross = lines
+    .filter((line) => line.vat_exempt)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  const diners = Math.max(headcount, 1);
+  const share = Math.min(eligibleCount, diners) / diners;
+
+  const netVatable = settings.prices_include_vat
+    ? vatableGross / (1 + rate)
+    : vatableGross;
+  const eligibleNet = (netVatable + exemptGross) * share;
+  const remainingGross = settings.prices_include_vat
+    ? vatableGross * (1 - share)
+    : netVatable * (1 - share) * (1 + rate);
+
+  const vatableSales = round2(remainingGross / (1 + rate));
+  const vatAmount = round2(round2(remainingGross) - vatableSales);
+  const vatExemptSales = round2(eligibleNet + exemptGross * (1 - share));
+  const discountAmount = round2(eligibleNet * STATUTORY_DISCOUNT_RATE);
+  const serviceCharge = round2(
+    (vatableSales + vatExemptSales) * settings.service_charge_rate
+  );
+
+  return {
+    subtotal: round2(vatableGross + exemptGross),
+    vatable_sales: vatableSales,
+    vat_amount: vatAmount,
+    vat_exempt_sales: vatExemptSales,
+    discount_amount: discountAmount,
+    service_charge: serviceCharge,
+    total: round2(
+      vatableSales + vatAmount + vatExemptSales - discountAmount + serviceCharge
+    ),
+  };
+}
+
+/**
+ * The breakdown the server stored on an order
+ */
+export function toPriceBreakdown(order: {
+  subtotal?: number | string | null;
+  vatable_sales?: number | string | null;
+  vat_amount?: number | string | null;
+  vat_exempt_sales?: number | string | null;
+  discount_amount?: number | string | null;
+  service_charge?: number | string | null;
+  total_amount?: number | string | null;
+}): PriceBreakdown {
+  return {
+    subtotal: Number(order.subtotal ?? order.total_amount ?? 0),
+    vatable_sales: Number(order.vatable_sales ?? 0),
+    vat_amount: Number(order.vat_amount ?? 0),
+    vat_exempt_sales: Number(order.vat_exempt_sales ?? 0),
+    discount_amount: Number(order.discount_amount ?? 0),
+    service_charge: Number(order.service_charge ?? 0),
+    total: Number(order.total_amount ?? 0),
+  };
+}
+
+/**
+ * VAT taken off (negative, for VAT-exempt diners) or added on top of menu
+ * prices (positive, when they exclude VAT)
+ */
+export function getVatAdjustment(breakdown: PriceBreakdown): number {
+  return round2(
+    breakdown.vatable_sales +
+      breakdown.vat_amount +
+      breakdown.vat_exempt_sales -
+      breakdown.subtotal
+  );
+}
+
+/**
+ * An `order_discounts` row with its amount as a number
+ */
+export function toOrderDiscount(row: OrderDiscountRow): OrderDiscount {
+  return { ...row, amount: Number(row.amount) };
+}
+
+export function getDiscountTypeLabel(type: DiscountType): string {
+  return DISCOUNT_TYPES.find((option) => option.value === type)?.short || type;
+}
+
+/**
+ * "12%" for 0.12
+ */
+export function formatRate(rate: number): string {
+  return `${round2(rate * 100)}%`;
+}
@@ -0,0 +1,408 @@
+/**
+ * Table QR Code PDF Export
+ *
+ * Lays out table QR codes for printing: an A4 sheet of stickers, one A6
+ * table tent per table, or one A4 poster per table. QR codes are drawn as
+ * vector squares so they stay sharp at any print size. Sizes are in mm.
+ *
+ * Bleed enlarges every page on all sides so the coloured header can run off
+ * the edge after trimming; crop marks show where to cut.
+ */
+
+import axios from "axios";
+import jsPDF from "jspdf";
+import QRCode from "qrcode";
+import type { LandingData } from "@/controller/landingController";
+
+export type QrPdfLayout = "stickers" | "tent" | "poster";
+
+export interface QrPdfOptions {
+  layout: QrPdfLayout;
+  // Safe area kept clear inside the trim edge
+  marginMm: number;
+  bleedMm: number;
+  cropMarks: boolean;
+  // Stickers per row on the A4 sheet
+  columns: number;
+}
+
+export interface QrPdfTable {
+  id: number;
+  label: string;
+  area: string;
+  link: string;
+}
+
+export interface CafeBranding {
+  name: string;
+  // Data URL of the logo, or null when it could not be loaded
+  logo: string | null;
+  // RGB of the theme's primary colour
+  color: [number, number, number];
+}
+
+export const QR_PDF_LAYOUTS: {
+  value: QrPdfLayout;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "stickers",
+    label: "A4 sticker sheet",
+    description: "A grid of stickers per page, to cut out",
+  },
+  {
+    value: "tent",
+    label: "A6 table tent",
+    description: "One card per table with logo and instructions",
+  },
+  {
+    value: "poster",
+    label: "A4 poster",
+    description: "One large code per table, for walls and counters",
+  },
+];
+
+export const DEFAULT_QR_PDF_OPTIONS: QrPdfOptions = {
+  layout: "tent",
+  marginMm: 8,
+  bleedMm: 3,
+  cropMarks: true,
+  columns: 3,
+};
+
+const PAGE_SIZES: Record<QrPdfLayout, { width: number; height: number }> = {
+  stickers: { width: 210, height: 297 },
+  tent: { width: 105, height: 148 },
+  poster: { width: 210, height: 297 },
+};
+
+const STICKER_GAP = 4;
+const DEFAULT_COLOR: [number, number, number] = [55, 5, 4];
+
+const SCAN_STEPS = [
+  "1. Open your phone camera",
+  "2. Point it at the code",
+  "3. Order and we'll bring it to your table",
+];
+
+function hexToRgb(hex: string | undefined): [number, number, number] {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex || "");
+  if (!match) return DEFAULT_COLOR;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+async function toDataUrl(src: string): Promise<string> {
+  const response = await axios.get<Blob>(src, { responseType: "blob" });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(response.data);
+  });
+}
+
+/**
+ * Café name, logo and colour from external-page.json. Anything missing is
+ * left out of the print rather than failing the export.
+ */
+export async function loadCafeBranding(): Promise<CafeBranding> {
+  const branding: CafeBranding = {
+    name: "Our Café",
+    logo: null,
+    color: DEFAULT_COLOR,
+  };
+
+  try {
+    const { data } = await axios.get<LandingData>("/data/external-page.json", {
+      timeout: 5000,
+    });
+    branding.name =
+      data.ui?.footer?.companyName || data.ui?.navbar?.title || branding.name;
+    branding.color = hexToRgb(data.theme?.primaryColor);
+
+    const logoSrc = data.ui?.navbar?.logo?.src;
+    if (logoSrc) {
+      branding.logo = await toDataUrl(logoSrc);
+    }
+  } catch (err) {
+    console.error("Error loading café branding for QR export:", err);
+  }
+
+  return branding;
+}
+
+/**
+ * Draw a QR code as filled squares, with a two-module quiet zone, inside a
+ * `size` × `size` square at (x, y)
+ */
+function drawQrCode(
+  pdf: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  size: number
+): void {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: "H" });
+  const cell = size / (modules.size + 4);
+
+  pdf.setFillColor(255, 255, 255);
+  pdf.rect(x, y, size, size, "F");
+  pdf.setFillColor(0, 0, 0);
+
+  for (let row = 0; row < modules.size; row++) {
+    // One rectangle per run of dark modules keeps the file small
+    let runStart = -1;
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col) === 1;
+      if (dark && runStart === -1) runStart = col;
+      if (!dark && runStart !== -1) {
+        pdf.rect(
+          x + (runStart + 2) * cell,
+          y + (row + 2) * cell,
+          (col - runStart) * cell,
+          cell,
+          "F"
+        );
+        runStart = -1;
+      }
+    }
+  }
+}
+
+function drawLogo(
+  pdf: jsPDF,
+  logo: string,
+  centreX: number,
+  y: number,
+  maxHeight: number
+): void {
+  try {
+    const { width, height, fileType } = pdf.getImageProperties(logo);
+    const drawHeight = maxHeight;
+    const drawWidth = (width / height) * drawHeight;
+    pdf.addImage(logo, fileType, centreX - drawWidth / 2, y, drawWidth, drawHeight);
+  } catch (err) {
+    console.error("Error drawing café logo:", err);
+  }
+}
+
+function drawCropMarks(
+  pdf: jsPDF,
+  bleed: number,
+  trimWidth: number,
+  trimHeight: number
+): void {
+  if (bleed <= 0) return;
+
+  const length = Math.max(bleed - 1, 2);
+  const left = bleed;
+  const top = bleed;
+  const right = bleed + trimWidth;
+  const bottom = bleed + trimHeight;
+
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setLineWidth(0.1);
+  for (const x of [left, right]) {
+    pdf.line(x, 0, x, length);
+    pdf.line(x, bottom + bleed - length, x, bottom + bleed);
+  }
+  for (const y of [top, bottom]) {
+    pdf.line(0, y, length, y);
+    pdf.line(right + bleed - length, y, right + bleed, y);
+  }
+}
+
+/**
+ * Coloured header band with the logo and café name, running into the bleed
+ */
+function drawHeader(
+  pdf: jsPDF,
+  branding: CafeBranding,
+  bleed: number,
+  trimWidth: number,
+  height: number
+): void {
+  pdf.setFillColor(...branding.color);
+  pdf.rect(0, 0, trimWidth + bleed * 2, bleed + height, "F");
+
+  const centreX = bleed + trimWidth / 2;
+  const logoHeight = height * 0.5;
+  if (branding.logo) {
+    drawLogo(pdf, branding.logo, centreX, bleed + height * 0.12, logoHeight);
+  }
+
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(height * 0.9);
+  pdf.text(branding.name, centreX, bleed + height * (branding.logo ? 0.85 : 0.6), {
+    align: "center",
+    maxWidth: trimWidth - 8,
+  });
+}
+
+/**
+ * One table tent or poster: header, table label, QR code and how to scan
+ */
+function drawCard(
+  pdf: jsPDF,
+  table: QrPdfTable,
+  branding: CafeBranding,
+  options: QrPdfOptions,
+  trimWidth: number,
+  trimHeight: number
+): void {
+  const bleed = options.bleedMm;
+  const margin = options.marginMm;
+  const scale = trimWidth / PAGE_SIZES.tent.width;
+  const centreX = bleed + trimWidth / 2;
+  const headerHeight = 24 * scale;
+
+  drawHeader(pdf, branding, bleed, trimWidth, headerHeight);
+
+  let y = bleed + headerHeight + 10 * scale;
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(20 * scale);
+  pdf.text(table.label, centreX, y, {
+    align: "center",
+    maxWidth: trimWidth - margin * 2,
+  });
+
+  y += 5 * scale;
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9 * scale);
+  pdf.setTextColor(90, 90, 90);
+  pdf.text(`Table No. ${table.id} · ${table.area}`, centreX, y, {
+    align: "center",
+  });
+
+  const footerHeight = 34 * scale;
+  const qrSize = Math.min(
+    trimWidth - margin * 2,
+    bleed + trimHeight - margin - footerHeight - (y + 4 * scale)
+  );
+  y += 4 * scale;
+  drawQrCode(pdf, table.link, centreX - qrSize / 2, y, qrSize);
+
+  y += qrSize + 9 * scale;
+  pdf.setTextColor(...branding.color);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(16 * scale);
+  pdf.text("Scan to order", centreX, y, { align: "center" });
+
+  pdf.setTextColor(60, 60, 60);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8.5 * scale);
+  SCAN_STEPS.forEach((step, index) => {
+    pdf.text(step, centreX, y + (6 + index * 4.5) * scale, { align: "center" });
+  });
+
+  if (options.cropMarks) drawCropMarks(pdf, bleed, trimWidth, trimHeight);
+}
+
+/**
+ * A4 sheets of stickers, `columns` per row, with dashed cut lines
+ */
+function drawStickerSheets(
+  pdf: jsPDF,
+  tables: QrPdfTable[],
+  branding: CafeBranding,
+  options: QrPdfOptions
+): void {
+  const { width: trimWidth, height: trimHeight } = PAGE_SIZES.stickers;
+  const bleed = options.bleedMm;
+  const margin = options.marginMm;
+  const columns = Math.min(Math.max(Math.round(options.columns), 1), 5);
+
+  const stickerWidth =
+    (trimWidth - margin * 2 - STICKER_GAP * (columns - 1)) / columns;
+  const stickerHeight = stickerWidth * 1.3;
+  const rows = Math.max(
+    1,
+    Math.floor((trimHeight - margin * 2 + STICKER_GAP) / (stickerHeight + STICKER_GAP))
+  );
+  const perPage = rows * columns;
+  const textScale = stickerWidth / 60;
+
+  tables.forEach((table, index) => {
+    if (index > 0 && index % perPage === 0) {
+      if (options.cropMarks) drawCropMarks(pdf, bleed, trimWidth, trimHeight);
+      pdf.addPage([trimWidth + bleed * 2, trimHeight + bleed * 2], "portrait");
+    }
+
+    const slot = index % perPage;
+    const x = bleed + margin + (slot % columns) * (stickerWidth + STICKER_GAP);
+    const y =
+      bleed + margin + Math.floor(slot / columns) * (stickerHeight + STICKER_GAP);
+    const centreX = x + stickerWidth / 2;
+
+    pdf.setDrawColor(180, 180, 180);
+    pdf.setLineWidth(0.2);
+    pdf.setLineDashPattern([1.5, 1.5], 0);
+    pdf.roundedRect(x, y, stickerWidth, stickerHeight, 3, 3, "S");
+    pdf.setLineDashPattern([], 0);
+
+    pdf.setTextColor(0, 0, 0);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(13 * textScale);
+    pdf.text(table.label, centreX, y + 8 * textScale, {
+      align: "center",
+      maxWidth: stickerWidth - 4,
+    });
+
+    const qrSize = stickerWidth * 0.78;
+    drawQrCode(pdf, table.link, centreX - qrSize / 2, y + 11 * textScale, qrSize);
+
+    pdf.setTextColor(...branding.color);
+    pdf.setFontSize(10 * textScale);
+    pdf.text("Scan to order", centreX, y + stickerHeight - 7 * textScale, {
+      align: "center",
+    });
+    pdf.setTextColor(90, 90, 90);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(7 * textScale);
+    pdf.text(
+      `${branding.name} · No. ${table.id}`,
+      centreX,
+      y + stickerHeight - 3 * textScale,
+      { align: "center", maxWidth: stickerWidth - 4 }
+    );
+  });
+
+  if (options.cropMarks) drawCropMarks(pdf, bleed, trimWidth, trimHeight);
+}
+
+/**
+ * Build the PDF for the given tables; call `.save(filename)` to download it
+ */
+export function buildQrPdf(
+  tables: QrPdfTable[],
+  options: QrPdfOptions,
+  branding: CafeBranding
+): jsPDF {
+  const { width, height } = PAGE_SIZES[options.layout];
+  const bleed = options.bleedMm;
+  const pageFormat = [width + bleed * 2, height + bleed * 2];
+
+  const pdf = new jsPDF({
+    orientation: "portrait",
+    unit: "mm",
+    format: pageFormat,
+    compress: true,
+  });
+  pdf.setProperties({ title: `${branding.name} table QR codes` });
+
+  if (options.layout === "stickers") {
+    drawStickerSheets(pdf, tables, branding, options);
+    return pdf;
+  }
+
+  tables.forEach((table, index) => {
+    if (index > 0) pdf.addPage(pageFormat, "portrait");
+    drawCard(pdf, table, branding, options, width, height);
+  });
+
+  return pdf;
+}
@@ -0,0 +1,38 @@
+/**
+ * Receipt
+ *
+ * What the receipt page shows. The page placing the order (or the cashier,
+ * for one payer's share of a split bill) puts it in sessionStorage under
+ * `receiptData` before opening the receipt.
+ */
+
+import type { OrderDiscount, PriceBreakdown } from "@/utils/pricing";
+
+export interface ReceiptLine {
+  // Null for dishes since deleted
+  id: number | null | undefined;
+  name: string;
+  price: number;
+  quantity: number;
+  // Modifiers or bundle components, e.g. "Large, Extra shot"
+  modifiers?: string;
+  special_instructions?: string | null;
+}
+
+// One payer's share of a split bill
+export interface ReceiptShare {
+  label: string;
+  payerNo: number;
+  payerCount: number;
+  orderTotal: number;
+}
+
+export interface ReceiptData {
+  // Unset until the order is placed
+  id?: number;
+  items: ReceiptLine[];
+  total: number;
+  pricing?: PriceBreakdown;
+  discounts?: OrderDiscount[];
+  share?: ReceiptShare;
+}
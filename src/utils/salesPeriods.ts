@@ -0,0 +1,80 @@
+/**
+ * Sales Periods
+ *
+ * Sales are reported per café day in Asia/Manila, whatever the time zone of
+ * the browser. Periods are passed around as inclusive YYYY-MM-DD dates, the
+ * way the `sales_*` database functions take them.
+ */
+
+import { formatScheduleTime, getCafeClock } from "@/utils/menuSchedule";
+
+export type SalesPeriod = "today" | "week" | "month" | "year";
+
+// One point per hour for a single day, per day otherwise
+export type TrendBucket = "hour" | "day";
+
+/**
+ * Move a YYYY-MM-DD date by whole days, months or years
+ */
+export function shiftDate(
+  date: string,
+  by: { days?: number; months?: number; years?: number }
+): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCFullYear(
+    shifted.getUTCFullYear() + (by.years || 0),
+    shifted.getUTCMonth() + (by.months || 0),
+    shifted.getUTCDate() + (by.days || 0)
+  );
+  return shifted.toISOString().split("T")[0];
+}
+
+/**
+ * The calendar date a date picker value stands for, as YYYY-MM-DD. Pickers
+ * give midnight in the browser's time zone, so `toISOString` would be a day
+ * early east of UTC.
+ */
+export function toDateKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * First and last café day of a period ending today
+ */
+export function getPeriodRange(period: SalesPeriod): [string, string] {
+  const today = getCafeClock().date;
+
+  switch (period) {
+    case "today":
+      return [today, today];
+    case "week":
+      return [shiftDate(today, { days: -7 }), today];
+    case "month":
+      return [shiftDate(today, { months: -1 }), today];
+    case "year":
+      return [shiftDate(today, { years: -1 }), today];
+  }
+}
+
+export function getTrendBucket(from: string, to: string): TrendBucket {
+  return from === to ? "hour" : "day";
+}
+
+/**
+ * "1 PM" for an hour bucket, "Oct 19" for a day bucket
+ */
+export function formatTrendLabel(bucket: string, size: TrendBucket): string {
+  const [date, time = "00:00"] = bucket.split("T");
+  if (size === "hour") {
+    return formatScheduleTime(Number(time.slice(0, 2)) * 60);
+  }
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
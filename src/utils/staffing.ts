@@ -0,0 +1,90 @@
+/**
+ * Staffing
+ *
+ * Suggests how many cooks and cashiers an hour of the week needs, from what
+ * a typical such hour sold over the reporting period. A cook is assumed to
+ * turn out a set number of dishes an hour and a cashier to take a set
+ * number of orders; when tables already waited longer than the target, the
+ * kitchen gets one more cook. Open hours always have one of each.
+ */
+
+import type { SalesHeatmapCell } from "@/stores/salesDatas";
+
+export interface StaffingCapacity {
+  dishesPerCookHour: number;
+  ordersPerCashierHour: number;
+  // Longest a table should wait for its food, in minutes
+  targetWaitMinutes: number;
+}
+
+export const DEFAULT_STAFFING_CAPACITY: StaffingCapacity = {
+  dishesPerCookHour: 30,
+  ordersPerCashierHour: 20,
+  targetWaitMinutes: 15,
+};
+
+export interface StaffingSuggestion {
+  weekday: number;
+  hour: number;
+  // In a typical such hour
+  ordersPerHour: number;
+  dishesPerHour: number;
+  cooks: number;
+  cashiers: number;
+  // Tables waited longer than the target
+  slowKitchen: boolean;
+}
+
+// Mon … Sun, the order a café week is read in
+export const HEATMAP_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+export function suggestStaffing(
+  cell: SalesHeatmapCell,
+  capacity: StaffingCapacity = DEFAULT_STAFFING_CAPACITY
+): StaffingSuggestion {
+  const days = Math.max(cell.days, 1);
+  const ordersPerHour = cell.orders / days;
+  const dishesPerHour = cell.itemsSold / days;
+  const slowKitchen =
+    cell.avgWaitMinutes !== null &&
+    cell.avgWaitMinutes > capacity.targetWaitMinutes;
+
+  const cooks =
+    Math.max(1, Math.ceil(dishesPerHour / Math.max(capacity.dishesPerCookHour, 1))) +
+    (slowKitchen ? 1 : 0);
+  const cashiers = Math.max(
+    1,
+    Math.ceil(ordersPerHour / Math.max(capacity.ordersPerCashierHour, 1))
+  );
+
+  return {
+    weekday: cell.weekday,
+    hour: cell.hour,
+    ordersPerHour,
+    dishesPerHour,
+    cooks,
+    cashiers,
+    slowKitchen,
+  };
+}
+
+/**
+ * First to last hour of the day that had any sales, for the grid rows
+ */
+export function getOpenHours(cells: SalesHeatmapCell[]): number[] {
+  if (cells.length === 0) return [];
+  const hours = cells.map((cell) => cell.hour);
+  const first = Math.min(...hours);
+  const last = Math.max(...hours);
+  return Array.from({ length: last - first + 1 }, (_, index) => first + index);
+}
+
+/**
+ * Look up the cell of a weekday and hour
+ */
+export function indexHeatmap(
+  cells: SalesHeatmapCell[]
+): (weekday: number, hour: number) => SalesHeatmapCell | undefined {
+  const byKey = new Map(cells.map((cell) => [`${cell.weekday}:${cell.hour}`, cell]));
+  return (weekday, hour) => byKey.get(`${weekday}:${hour}`);
+}
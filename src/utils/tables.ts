@@ -0,0 +1,66 @@
+/**
+ * Café Tables
+ *
+ * Areas a table can be in and the live statuses derived for it by the
+ * `table_status` view. Keep the values in sync with the checks on the
+ * `tables` table.
+ */
+
+export type TableArea = "indoor" | "al_fresco" | "second_floor";
+
+export type TableStatus =
+  | "free"
+  | "ordering"
+  | "waiting_for_food"
+  | "needs_bill"
+  | "needs_cleaning";
+
+export interface CafeTable {
+  // The table number, as printed on its QR code and stored on orders
+  id: number;
+  label: string;
+  area: TableArea;
+  capacity: number;
+  is_active: boolean;
+  cleaned_at: string | null;
+  created_at?: string;
+}
+
+export interface TableStatusRow {
+  table_id: number;
+  status: TableStatus;
+  open_order_count: number;
+  status_since: string | null;
+}
+
+export const TABLE_AREAS: { value: TableArea; label: string }[] = [
+  { value: "indoor", label: "Indoor" },
+  { value: "al_fresco", label: "Al fresco" },
+  { value: "second_floor", label: "Second floor" },
+];
+
+export const TABLE_STATUSES: Record<
+  TableStatus,
+  { label: string; color: string; icon: string }
+> = {
+  free: { label: "Free", color: "success", icon: "mdi-check-circle-outline" },
+  ordering: { label: "Ordering", color: "info", icon: "mdi-cellphone" },
+  waiting_for_food: {
+    label: "Waiting for food",
+    color: "warning",
+    icon: "mdi-chef-hat",
+  },
+  needs_bill: { label: "Needs bill", color: "purple", icon: "mdi-receipt" },
+  needs_cleaning: {
+    label: "Needs cleaning",
+    color: "error",
+    icon: "mdi-broom",
+  },
+};
+
+/**
+ * Display name of an area, e.g. "Al fresco"
+ */
+export function getAreaLabel(area: string): string {
+  return TABLE_AREAS.find((option) => option.value === area)?.label || area;
+}
@@ -0,0 +1,88 @@
+-- Order lifecycle: legal status transitions, per-transition timestamps and
+-- an audit trail of who moved each order. Mirrors src/utils/orderLifecycle.ts.
+
+alter table public.orders
+  add column if not exists confirmed_at timestamptz,
+  add column if not exists preparing_at timestamptz,
+  add column if not exists ready_at timestamptz,
+  add column if not exists completed_at timestamptz,
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists voided_at timestamptz,
+  add column if not exists status_updated_by uuid references auth.users (id),
+  add column if not exists cancellation_reason text;
+
+-- Existing rows written as "confirmed" by the old bulk approve are already in the kitchen
+update public.orders set status = 'preparing' where status = 'confirmed';
+
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders
+  add constraint orders_status_check
+  check (status in ('pending', 'confirmed', 'preparing', 'ready', 'completed', 'cancelled', 'voided'));
+
+create table if not exists public.order_status_history (
+  id bigint generated always as identity primary key,
+  order_id bigint not null references public.orders (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  changed_by uuid references auth.users (id),
+  reason text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_id_idx
+  on public.order_status_history (order_id, changed_at);
+
+create or replace function public.order_status_transition_allowed(from_status text, to_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select case from_status
+    when 'pending' then to_status in ('confirmed', 'preparing', 'cancelled')
+    when 'confirmed' then to_status in ('preparing', 'cancelled')
+    when 'preparing' then to_status in ('ready', 'cancelled')
+    when 'ready' then to_status in ('completed', 'voided')
+    when 'completed' then to_status in ('voided')
+    else false
+  end;
+$$;
+
+create or replace function public.enforce_order_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if not public.order_status_transition_allowed(old.status, new.status) then
+    raise exception 'Illegal order status transition for order %: % -> %', old.id, old.status, new.status
+      using errcode = 'P0001', hint = 'ILLEGAL_TRANSITION';
+  end if;
+
+  new.status_updated_by := coalesce(new.status_updated_by, auth.uid());
+
+  case new.status
+    when 'confirmed' then new.confirmed_at := coalesce(new.confirmed_at, now());
+    when 'preparing' then
+      new.preparing_at := coalesce(new.preparing_at, now());
+      new.confirmed_at := coalesce(new.confirmed_at, new.preparing_at);
+    when 'ready' then new.ready_at := coalesce(new.ready_at, now());
+    when 'completed' then new.completed_at := coalesce(new.completed_at, now());
+    when 'cancelled' then new.cancelled_at := coalesce(new.cancelled_at, now());
+    when 'voided' then new.voided_at := coalesce(new.voided_at, now());
+    else null;
+  end case;
+
+  insert into public.order_status_history (order_id, from_status, to_status, changed_by, reason)
+  values (new.id, old.status, new.status, new.status_updated_by, new.cancellation_reason);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_status_transition on public.orders;
+create trigger orders_status_transition
+  before update of status on public.orders
+  for each row execute function public.enforce_order_status_transition();
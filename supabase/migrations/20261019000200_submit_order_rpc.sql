@@ -0,0 +1,136 @@
+-- Atomic order submission. Replaces the multi-step client writes in
+-- useOrderDataStore.createOrderWithItems with one transaction that validates
+-- stock, prices lines from `menu` and is safe to retry with an idempotency key.
+
+alter table public.orders
+  add column if not exists idempotency_key uuid;
+
+create unique index if not exists orders_idempotency_key_key
+  on public.orders (idempotency_key)
+  where idempotency_key is not null;
+
+-- Order row with its items and their menu rows, shaped like OrderWithMeals
+create or replace function public.order_with_items_json(p_order_id bigint)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select to_jsonb(o) || jsonb_build_object(
+    'order_items_db',
+    coalesce(
+      (
+        select jsonb_agg(to_jsonb(oi) || jsonb_build_object('meal', to_jsonb(m)) order by oi.id)
+        from order_items oi
+        left join menu m on m.id = oi.meal_id
+        where oi.order_id = o.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  from orders o
+  where o.id = p_order_id;
+$$;
+
+create or replace function public.submit_order(
+  p_table_id bigint,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_menu record;
+  v_line record;
+  v_total numeric := 0;
+begin
+  if p_table_id is null or p_table_id <= 0 then
+    raise exception 'A valid table is required to place an order'
+      using errcode = '22023', hint = 'INVALID_TABLE';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Your order has no items'
+      using errcode = '22023', hint = 'EMPTY_ORDER';
+  end if;
+
+  -- Serialise submissions per table so retries and double taps see each other
+  perform pg_advisory_xact_lock(hashtext('submit_order'), p_table_id::integer);
+
+  if p_idempotency_key is not null then
+    select * into v_order from orders where idempotency_key = p_idempotency_key;
+    if found then
+      return order_with_items_json(v_order.id);
+    end if;
+  end if;
+
+  -- Lock menu rows in id order to avoid deadlocks between tables
+  for v_line in
+    select r.meal_id, sum(r.quantity)::integer as quantity
+    from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+    group by r.meal_id
+    order by r.meal_id
+  loop
+    if v_line.quantity is null or v_line.quantity <= 0 then
+      raise exception 'Invalid quantity for menu item %', v_line.meal_id
+        using errcode = '22023', hint = 'INVALID_QUANTITY';
+    end if;
+
+    select id, name, price, quantity into v_menu
+    from menu
+    where id = v_line.meal_id
+    for update;
+
+    if not found then
+      raise exception 'A menu item in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    if coalesce(v_menu.quantity, 0) < v_line.quantity then
+      raise exception 'Insufficient stock for "%". Available: %, Requested: %',
+        v_menu.name, coalesce(v_menu.quantity, 0), v_line.quantity
+        using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+    end if;
+
+    v_total := v_total + v_menu.price * v_line.quantity;
+  end loop;
+
+  -- A table keeps a single pending order; resubmitting replaces its items
+  select * into v_order
+  from orders
+  where table_id = p_table_id and status = 'pending'
+  order by created_at desc
+  limit 1
+  for update;
+
+  if found then
+    delete from order_items where order_id = v_order.id;
+
+    update orders
+    set total_amount = v_total,
+        created_at = now(),
+        idempotency_key = coalesce(p_idempotency_key, idempotency_key)
+    where id = v_order.id
+    returning * into v_order;
+  else
+    insert into orders (status, total_amount, table_id, idempotency_key)
+    values ('pending', v_total, p_table_id, p_idempotency_key)
+    returning * into v_order;
+  end if;
+
+  insert into order_items (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  return order_with_items_json(v_order.id);
+end;
+$$;
+
+grant execute on function public.submit_order(bigint, jsonb, uuid) to anon, authenticated;
+grant execute on function public.order_with_items_json(bigint) to anon, authenticated;
@@ -0,0 +1,240 @@
+-- Stock reservations: stock is held when an order is submitted, released when
+-- it is cancelled or deleted, and converted into a deduction on completion.
+-- Customers see available = quantity - reserved_quantity.
+
+alter table public.menu
+  add column if not exists reserved_quantity integer not null default 0
+    check (reserved_quantity >= 0);
+
+create table if not exists public.stock_reservations (
+  id bigint generated always as identity primary key,
+  order_id bigint not null references public.orders (id) on delete cascade,
+  meal_id bigint not null references public.menu (id),
+  quantity integer not null check (quantity > 0),
+  status text not null default 'held' check (status in ('held', 'released', 'consumed')),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create index if not exists stock_reservations_order_id_idx
+  on public.stock_reservations (order_id);
+create index if not exists stock_reservations_held_idx
+  on public.stock_reservations (meal_id)
+  where status = 'held';
+
+-- Release every held reservation of an order back to available stock
+create or replace function public.release_order_reservations(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with released as (
+    update stock_reservations
+    set status = 'released', resolved_at = now()
+    where order_id = p_order_id and status = 'held'
+    returning meal_id, quantity
+  ), per_meal as (
+    select meal_id, sum(quantity)::integer as quantity
+    from released
+    group by meal_id
+  )
+  update menu m
+  set reserved_quantity = greatest(0, m.reserved_quantity - per_meal.quantity)
+  from per_meal
+  where m.id = per_meal.meal_id;
+end;
+$$;
+
+-- Turn an order's reservations into a stock deduction and count the sale.
+-- Lines without a reservation (orders placed before reservations existed)
+-- are deducted from quantity on hand directly.
+create or replace function public.consume_order_reservations(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with consumed as (
+    update stock_reservations
+    set status = 'consumed', resolved_at = now()
+    where order_id = p_order_id and status = 'held'
+    returning meal_id, quantity
+  ), held as (
+    select meal_id, sum(quantity)::integer as quantity
+    from consumed
+    group by meal_id
+  ), ordered as (
+    select meal_id, sum(quantity)::integer as quantity
+    from order_items
+    where order_id = p_order_id
+    group by meal_id
+  )
+  update menu m
+  set quantity = greatest(0, m.quantity - ordered.quantity),
+      sales = coalesce(m.sales, 0) + ordered.quantity,
+      reserved_quantity = greatest(0, m.reserved_quantity - coalesce(held.quantity, 0))
+  from ordered
+  left join held on held.meal_id = ordered.meal_id
+  where m.id = ordered.meal_id;
+end;
+$$;
+
+create or replace function public.apply_order_stock_effects()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform release_order_reservations(old.id);
+    return old;
+  end if;
+
+  if new.status is distinct from old.status then
+    if new.status = 'cancelled' then
+      perform release_order_reservations(new.id);
+    elsif new.status = 'completed' then
+      perform consume_order_reservations(new.id);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_stock_effects on public.orders;
+create trigger orders_stock_effects
+  after update of status on public.orders
+  for each row execute function public.apply_order_stock_effects();
+
+drop trigger if exists orders_release_stock_on_delete on public.orders;
+create trigger orders_release_stock_on_delete
+  before delete on public.orders
+  for each row execute function public.apply_order_stock_effects();
+
+-- submit_order now checks and holds available stock instead of quantity on hand
+create or replace function public.submit_order(
+  p_table_id bigint,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_existing_id bigint;
+  v_menu record;
+  v_line record;
+  v_available integer;
+  v_total numeric := 0;
+begin
+  if p_table_id is null or p_table_id <= 0 then
+    raise exception 'A valid table is required to place an order'
+      using errcode = '22023', hint = 'INVALID_TABLE';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Your order has no items'
+      using errcode = '22023', hint = 'EMPTY_ORDER';
+  end if;
+
+  -- Serialise submissions per table so retries and double taps see each other
+  perform pg_advisory_xact_lock(hashtext('submit_order'), p_table_id::integer);
+
+  if p_idempotency_key is not null then
+    select * into v_order from orders where idempotency_key = p_idempotency_key;
+    if found then
+      return order_with_items_json(v_order.id);
+    end if;
+  end if;
+
+  -- A table keeps a single pending order; resubmitting replaces its items,
+  -- so its current holds go back to the pool before checking availability
+  select id into v_existing_id
+  from orders
+  where table_id = p_table_id and status = 'pending'
+  order by created_at desc
+  limit 1
+  for update;
+
+  if v_existing_id is not null then
+    perform release_order_reservations(v_existing_id);
+  end if;
+
+  -- Lock menu rows in id order to avoid deadlocks between tables
+  for v_line in
+    select r.meal_id, sum(r.quantity)::integer as quantity
+    from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+    group by r.meal_id
+    order by r.meal_id
+  loop
+    if v_line.quantity is null or v_line.quantity <= 0 then
+      raise exception 'Invalid quantity for menu item %', v_line.meal_id
+        using errcode = '22023', hint = 'INVALID_QUANTITY';
+    end if;
+
+    select id, name, price, quantity, reserved_quantity into v_menu
+    from menu
+    where id = v_line.meal_id
+    for update;
+
+    if not found then
+      raise exception 'A menu item in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    v_available := greatest(0, coalesce(v_menu.quantity, 0) - v_menu.reserved_quantity);
+
+    if v_available < v_line.quantity then
+      if v_available = 0 then
+        raise exception 'Sorry, "%" just sold out. Please remove it from your order.', v_menu.name
+          using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+      end if;
+      raise exception 'Sorry, only % "%" left. Please update your order.', v_available, v_menu.name
+        using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+    end if;
+
+    update menu
+    set reserved_quantity = reserved_quantity + v_line.quantity
+    where id = v_line.meal_id;
+
+    v_total := v_total + v_menu.price * v_line.quantity;
+  end loop;
+
+  if v_existing_id is not null then
+    delete from order_items where order_id = v_existing_id;
+
+    update orders
+    set total_amount = v_total,
+        created_at = now(),
+        idempotency_key = coalesce(p_idempotency_key, idempotency_key)
+    where id = v_existing_id
+    returning * into v_order;
+  else
+    insert into orders (status, total_amount, table_id, idempotency_key)
+    values ('pending', v_total, p_table_id, p_idempotency_key)
+    returning * into v_order;
+  end if;
+
+  insert into order_items (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  insert into stock_reservations (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  return order_with_items_json(v_order.id);
+end;
+$$;
+
+grant execute on function public.release_order_reservations(bigint) to authenticated;
@@ -0,0 +1,371 @@
+-- Inventory movement ledger. Every change to menu.quantity or
+-- menu.reserved_quantity is an appended stock_movements row; the menu columns
+-- are a running balance maintained by the ledger trigger and cannot be
+-- written directly.
+
+create table if not exists public.stock_movements (
+  id bigint generated always as identity primary key,
+  meal_id bigint not null references public.menu (id) on delete cascade,
+  movement_type text not null check (movement_type in (
+    'sale',
+    'reservation',
+    'reservation_release',
+    'restock',
+    'waste',
+    'adjustment',
+    'count_correction'
+  )),
+  quantity_delta integer not null default 0,
+  reserved_delta integer not null default 0,
+  quantity_after integer,
+  reason text,
+  order_id bigint references public.orders (id) on delete set null,
+  performed_by uuid references auth.users (id),
+  performed_by_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_meal_id_idx
+  on public.stock_movements (meal_id, created_at desc);
+create index if not exists stock_movements_order_id_idx
+  on public.stock_movements (order_id);
+
+-- Opening balance so the ledger sums to today's stock
+insert into public.stock_movements (meal_id, movement_type, quantity_delta, reserved_delta, quantity_after, reason)
+select id, 'adjustment', quantity, reserved_quantity, quantity, 'Opening balance'
+from public.menu
+where (quantity <> 0 or reserved_quantity <> 0)
+  and not exists (select 1 from public.stock_movements);
+
+-- Apply a movement to the menu balance
+create or replace function public.apply_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quantity integer;
+  v_reserved integer;
+begin
+  select quantity, reserved_quantity into v_quantity, v_reserved
+  from menu
+  where id = new.meal_id
+  for update;
+
+  if not found then
+    raise exception 'Menu item % not found', new.meal_id using errcode = 'P0002';
+  end if;
+
+  -- Never drive a balance below zero; record what actually moved
+  new.quantity_delta := greatest(new.quantity_delta, -coalesce(v_quantity, 0));
+  new.reserved_delta := greatest(new.reserved_delta, -coalesce(v_reserved, 0));
+
+  new.performed_by := coalesce(new.performed_by, auth.uid());
+  if new.performed_by is not null and new.performed_by_name is null then
+    select coalesce(raw_user_meta_data ->> 'full_name', email) into new.performed_by_name
+    from auth.users
+    where id = new.performed_by;
+  end if;
+
+  perform set_config('app.stock_ledger', 'on', true);
+
+  update menu
+  set quantity = coalesce(quantity, 0) + new.quantity_delta,
+      reserved_quantity = reserved_quantity + new.reserved_delta,
+      sales = case
+        when new.movement_type = 'sale' then coalesce(sales, 0) - new.quantity_delta
+        else sales
+      end
+  where id = new.meal_id
+  returning quantity into new.quantity_after;
+
+  perform set_config('app.stock_ledger', 'off', true);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists stock_movements_apply on public.stock_movements;
+create trigger stock_movements_apply
+  before insert on public.stock_movements
+  for each row execute function public.apply_stock_movement();
+
+-- Stock balances on menu are only writable by the ledger
+create or replace function public.guard_menu_stock_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.stock_ledger', true), 'off') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    -- Opening stock for new items is recorded as a restock movement
+    new.quantity := 0;
+    new.reserved_quantity := 0;
+    return new;
+  end if;
+
+  if new.quantity is distinct from old.quantity
+    or new.reserved_quantity is distinct from old.reserved_quantity then
+    raise exception 'Stock for "%" can only change through a stock movement', old.name
+      using errcode = 'P0001', hint = 'USE_STOCK_MOVEMENT';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists menu_guard_stock_columns on public.menu;
+create trigger menu_guard_stock_columns
+  before insert or update on public.menu
+  for each row execute function public.guard_menu_stock_columns();
+
+-- Manual movements recorded by staff from the inventory screen
+create or replace function public.record_stock_movement(
+  p_meal_id bigint,
+  p_movement_type text,
+  p_quantity integer,
+  p_reason text default null
+)
+returns public.stock_movements
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_menu record;
+  v_delta integer;
+  v_movement stock_movements;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to change stock' using errcode = '42501';
+  end if;
+
+  if p_quantity is null then
+    raise exception 'A quantity is required' using errcode = '22023';
+  end if;
+
+  if p_movement_type in ('waste', 'adjustment', 'count_correction')
+    and coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required for % movements', replace(p_movement_type, '_', ' ')
+      using errcode = '22023', hint = 'REASON_REQUIRED';
+  end if;
+
+  select id, name, quantity, reserved_quantity into v_menu
+  from menu
+  where id = p_meal_id
+  for update;
+
+  if not found then
+    raise exception 'Menu item % not found', p_meal_id using errcode = 'P0002';
+  end if;
+
+  case p_movement_type
+    when 'restock' then
+      v_delta := abs(p_quantity);
+    when 'waste' then
+      v_delta := -abs(p_quantity);
+      if abs(p_quantity) > coalesce(v_menu.quantity, 0) - v_menu.reserved_quantity then
+        raise exception 'Cannot waste % of "%": only % on hand are not reserved',
+          abs(p_quantity), v_menu.name, coalesce(v_menu.quantity, 0) - v_menu.reserved_quantity
+          using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+      end if;
+    when 'adjustment' then
+      v_delta := p_quantity;
+    when 'count_correction' then
+      if p_quantity < 0 then
+        raise exception 'A stock count cannot be negative' using errcode = '22023';
+      end if;
+      v_delta := p_quantity - coalesce(v_menu.quantity, 0);
+    else
+      raise exception 'Movement type "%" cannot be recorded manually', p_movement_type
+        using errcode = '22023', hint = 'INVALID_MOVEMENT_TYPE';
+  end case;
+
+  insert into stock_movements (meal_id, movement_type, quantity_delta, reason)
+  values (p_meal_id, p_movement_type, v_delta, nullif(trim(p_reason), ''))
+  returning * into v_movement;
+
+  return v_movement;
+end;
+$$;
+
+grant execute on function public.record_stock_movement(bigint, text, integer, text) to authenticated;
+
+-- Reservation helpers now write to the ledger instead of the menu
+
+create or replace function public.release_order_reservations(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with released as (
+    update stock_reservations
+    set status = 'released', resolved_at = now()
+    where order_id = p_order_id and status = 'held'
+    returning meal_id, quantity
+  )
+  insert into stock_movements (meal_id, movement_type, reserved_delta, order_id, reason)
+  select meal_id, 'reservation_release', -sum(quantity)::integer, p_order_id, 'Order cancelled'
+  from released
+  group by meal_id
+  order by meal_id;
+end;
+$$;
+
+create or replace function public.consume_order_reservations(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with consumed as (
+    update stock_reservations
+    set status = 'consumed', resolved_at = now()
+    where order_id = p_order_id and status = 'held'
+    returning meal_id, quantity
+  ), held as (
+    select meal_id, sum(quantity)::integer as quantity
+    from consumed
+    group by meal_id
+  ), ordered as (
+    select meal_id, sum(quantity)::integer as quantity
+    from order_items
+    where order_id = p_order_id
+    group by meal_id
+  )
+  insert into stock_movements (meal_id, movement_type, quantity_delta, reserved_delta, order_id, reason)
+  select ordered.meal_id, 'sale', -ordered.quantity, -coalesce(held.quantity, 0), p_order_id, 'Order completed'
+  from ordered
+  left join held on held.meal_id = ordered.meal_id
+  order by ordered.meal_id;
+end;
+$$;
+
+create or replace function public.submit_order(
+  p_table_id bigint,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_existing_id bigint;
+  v_menu record;
+  v_line record;
+  v_available integer;
+  v_total numeric := 0;
+begin
+  if p_table_id is null or p_table_id <= 0 then
+    raise exception 'A valid table is required to place an order'
+      using errcode = '22023', hint = 'INVALID_TABLE';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Your order has no items'
+      using errcode = '22023', hint = 'EMPTY_ORDER';
+  end if;
+
+  -- Serialise submissions per table so retries and double taps see each other
+  perform pg_advisory_xact_lock(hashtext('submit_order'), p_table_id::integer);
+
+  if p_idempotency_key is not null then
+    select * into v_order from orders where idempotency_key = p_idempotency_key;
+    if found then
+      return order_with_items_json(v_order.id);
+    end if;
+  end if;
+
+  -- A table keeps a single pending order; resubmitting replaces its items,
+  -- so its current holds go back to the pool before checking availability
+  select id into v_existing_id
+  from orders
+  where table_id = p_table_id and status = 'pending'
+  order by created_at desc
+  limit 1
+  for update;
+
+  if v_existing_id is not null then
+    perform release_order_reservations(v_existing_id);
+  end if;
+
+  -- Lock menu rows in id order to avoid deadlocks between tables
+  for v_line in
+    select r.meal_id, sum(r.quantity)::integer as quantity
+    from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+    group by r.meal_id
+    order by r.meal_id
+  loop
+    if v_line.quantity is null or v_line.quantity <= 0 then
+      raise exception 'Invalid quantity for menu item %', v_line.meal_id
+        using errcode = '22023', hint = 'INVALID_QUANTITY';
+    end if;
+
+    select id, name, price, quantity, reserved_quantity into v_menu
+    from menu
+    where id = v_line.meal_id
+    for update;
+
+    if not found then
+      raise exception 'A menu item in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    v_available := greatest(0, coalesce(v_menu.quantity, 0) - v_menu.reserved_quantity);
+
+    if v_available < v_line.quantity then
+      if v_available = 0 then
+        raise exception 'Sorry, "%" just sold out. Please remove it from your order.', v_menu.name
+          using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+      end if;
+      raise exception 'Sorry, only % "%" left. Please update your order.', v_available, v_menu.name
+        using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+    end if;
+
+    v_total := v_total + v_menu.price * v_line.quantity;
+  end loop;
+
+  if v_existing_id is not null then
+    delete from order_items where order_id = v_existing_id;
+
+    update orders
+    set total_amount = v_total,
+        created_at = now(),
+        idempotency_key = coalesce(p_idempotency_key, idempotency_key)
+    where id = v_existing_id
+    returning * into v_order;
+  else
+    insert into orders (status, total_amount, table_id, idempotency_key)
+    values ('pending', v_total, p_table_id, p_idempotency_key)
+    returning * into v_order;
+  end if;
+
+  insert into order_items (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  insert into stock_reservations (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  insert into stock_movements (meal_id, movement_type, reserved_delta, order_id, reason)
+  select r.meal_id, 'reservation', sum(r.quantity)::integer, v_order.id, 'Order submitted'
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id
+  order by r.meal_id;
+
+  return order_with_items_json(v_order.id);
+end;
+$$;
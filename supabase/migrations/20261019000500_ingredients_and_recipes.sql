@@ -0,0 +1,336 @@
+-- Ingredient-level inventory. Menu items can have a recipe of ingredient
+-- quantities; completing an order deducts those ingredients, and a dish with a
+-- recipe is available for as many portions as its scarcest ingredient allows.
+-- Dishes without a recipe keep using their own counted menu.quantity.
+
+create table if not exists public.ingredients (
+  id bigint generated always as identity primary key,
+  name text not null unique,
+  unit text not null check (unit in ('g', 'kg', 'ml', 'l', 'pcs', 'pack')),
+  quantity numeric(12, 3) not null default 0 check (quantity >= 0),
+  reorder_level numeric(12, 3) not null default 0 check (reorder_level >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.recipe_items (
+  id bigint generated always as identity primary key,
+  meal_id bigint not null references public.menu (id) on delete cascade,
+  ingredient_id bigint not null references public.ingredients (id) on delete restrict,
+  quantity numeric(12, 3) not null check (quantity > 0),
+  created_at timestamptz not null default now(),
+  unique (meal_id, ingredient_id)
+);
+
+create index if not exists recipe_items_ingredient_id_idx
+  on public.recipe_items (ingredient_id);
+
+create or replace function public.touch_ingredient_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists ingredients_touch_updated_at on public.ingredients;
+create trigger ingredients_touch_updated_at
+  before update on public.ingredients
+  for each row execute function public.touch_ingredient_updated_at();
+
+-- Ingredient stock not yet committed to submitted orders. Reserved dishes
+-- still hold their ingredients until the order completes or is cancelled.
+create or replace view public.ingredient_stock as
+select
+  i.id as ingredient_id,
+  i.name,
+  i.unit,
+  i.quantity,
+  i.reorder_level,
+  coalesce(committed.quantity, 0) as committed_quantity,
+  greatest(0, i.quantity - coalesce(committed.quantity, 0)) as free_quantity
+from public.ingredients i
+left join (
+  select ri.ingredient_id, sum(ri.quantity * m.reserved_quantity) as quantity
+  from public.recipe_items ri
+  join public.menu m on m.id = ri.meal_id
+  group by ri.ingredient_id
+) committed on committed.ingredient_id = i.id;
+
+-- What customers can still order of each dish, and which ingredient limits it
+create or replace view public.menu_availability as
+select
+  m.id as meal_id,
+  case
+    when recipe.meal_id is null
+      then greatest(0, coalesce(m.quantity, 0) - m.reserved_quantity)
+    else recipe.portions
+  end::integer as available,
+  recipe.limiting_ingredient_id,
+  recipe.limiting_ingredient_name
+from public.menu m
+left join lateral (
+  select
+    ri.meal_id,
+    floor(s.free_quantity / ri.quantity)::integer as portions,
+    s.ingredient_id as limiting_ingredient_id,
+    s.name as limiting_ingredient_name
+  from public.recipe_items ri
+  join public.ingredient_stock s on s.ingredient_id = ri.ingredient_id
+  where ri.meal_id = m.id
+  order by floor(s.free_quantity / ri.quantity), s.name
+  limit 1
+) recipe on true;
+
+grant select on public.ingredient_stock to authenticated;
+grant select on public.menu_availability to anon, authenticated;
+
+-- Replace a dish's recipe in one go
+create or replace function public.set_menu_recipe(
+  p_meal_id bigint,
+  p_items jsonb
+)
+returns setof public.recipe_items
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to edit recipes' using errcode = '42501';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' then
+    raise exception 'A recipe must be a list of ingredients'
+      using errcode = '22023', hint = 'INVALID_RECIPE';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(p_items) as r(ingredient_id bigint, quantity numeric)
+    where r.quantity is null or r.quantity <= 0
+  ) then
+    raise exception 'Every ingredient in a recipe needs a quantity above zero'
+      using errcode = '22023', hint = 'INVALID_QUANTITY';
+  end if;
+
+  perform 1 from menu where id = p_meal_id for update;
+  if not found then
+    raise exception 'Menu item % not found', p_meal_id using errcode = 'P0002';
+  end if;
+
+  delete from recipe_items where meal_id = p_meal_id;
+
+  return query
+  insert into recipe_items (meal_id, ingredient_id, quantity)
+  select p_meal_id, r.ingredient_id, sum(r.quantity)
+  from jsonb_to_recordset(p_items) as r(ingredient_id bigint, quantity numeric)
+  group by r.ingredient_id
+  returning *;
+end;
+$$;
+
+grant execute on function public.set_menu_recipe(bigint, jsonb) to authenticated;
+
+-- Completing an order also deducts the ingredients of every dish on it
+create or replace function public.consume_order_reservations(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with consumed as (
+    update stock_reservations
+    set status = 'consumed', resolved_at = now()
+    where order_id = p_order_id and status = 'held'
+    returning meal_id, quantity
+  ), held as (
+    select meal_id, sum(quantity)::integer as quantity
+    from consumed
+    group by meal_id
+  ), ordered as (
+    select meal_id, sum(quantity)::integer as quantity
+    from order_items
+    where order_id = p_order_id
+    group by meal_id
+  )
+  insert into stock_movements (meal_id, movement_type, quantity_delta, reserved_delta, order_id, reason)
+  select ordered.meal_id, 'sale', -ordered.quantity, -coalesce(held.quantity, 0), p_order_id, 'Order completed'
+  from ordered
+  left join held on held.meal_id = ordered.meal_id
+  order by ordered.meal_id;
+
+  update ingredients i
+  set quantity = greatest(0, i.quantity - used.quantity)
+  from (
+    select ri.ingredient_id, sum(ri.quantity * oi.quantity) as quantity
+    from order_items oi
+    join recipe_items ri on ri.meal_id = oi.meal_id
+    where oi.order_id = p_order_id
+    group by ri.ingredient_id
+  ) used
+  where i.id = used.ingredient_id;
+end;
+$$;
+
+-- Availability now comes from menu_availability, so dishes with a recipe are
+-- checked against their ingredients rather than a counted quantity
+create or replace function public.submit_order(
+  p_table_id bigint,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_existing_id bigint;
+  v_menu record;
+  v_line record;
+  v_available integer;
+  v_short record;
+  v_total numeric := 0;
+begin
+  if p_table_id is null or p_table_id <= 0 then
+    raise exception 'A valid table is required to place an order'
+      using errcode = '22023', hint = 'INVALID_TABLE';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Your order has no items'
+      using errcode = '22023', hint = 'EMPTY_ORDER';
+  end if;
+
+  -- Serialise submissions per table so retries and double taps see each other
+  perform pg_advisory_xact_lock(hashtext('submit_order'), p_table_id::integer);
+
+  if p_idempotency_key is not null then
+    select * into v_order from orders where idempotency_key = p_idempotency_key;
+    if found then
+      return order_with_items_json(v_order.id);
+    end if;
+  end if;
+
+  -- Lock the ingredients this order draws on so tables sharing an
+  -- ingredient cannot both take the last of it
+  perform 1
+  from ingredients
+  where id in (
+    select ri.ingredient_id
+    from recipe_items ri
+    join jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+      on r.meal_id = ri.meal_id
+  )
+  order by id
+  for update;
+
+  -- A table keeps a single pending order; resubmitting replaces its items,
+  -- so its current holds go back to the pool before checking availability
+  select id into v_existing_id
+  from orders
+  where table_id = p_table_id and status = 'pending'
+  order by created_at desc
+  limit 1
+  for update;
+
+  if v_existing_id is not null then
+    perform release_order_reservations(v_existing_id);
+  end if;
+
+  -- Lock menu rows in id order to avoid deadlocks between tables
+  for v_line in
+    select r.meal_id, sum(r.quantity)::integer as quantity
+    from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+    group by r.meal_id
+    order by r.meal_id
+  loop
+    if v_line.quantity is null or v_line.quantity <= 0 then
+      raise exception 'Invalid quantity for menu item %', v_line.meal_id
+        using errcode = '22023', hint = 'INVALID_QUANTITY';
+    end if;
+
+    select id, name, price into v_menu
+    from menu
+    where id = v_line.meal_id
+    for update;
+
+    if not found then
+      raise exception 'A menu item in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    select available into v_available
+    from menu_availability
+    where meal_id = v_line.meal_id;
+
+    if v_available < v_line.quantity then
+      if v_available = 0 then
+        raise exception 'Sorry, "%" just sold out. Please remove it from your order.', v_menu.name
+          using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+      end if;
+      raise exception 'Sorry, only % "%" left. Please update your order.', v_available, v_menu.name
+        using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+    end if;
+
+    v_total := v_total + v_menu.price * v_line.quantity;
+  end loop;
+
+  if v_existing_id is not null then
+    delete from order_items where order_id = v_existing_id;
+
+    update orders
+    set total_amount = v_total,
+        created_at = now(),
+        idempotency_key = coalesce(p_idempotency_key, idempotency_key)
+    where id = v_existing_id
+    returning * into v_order;
+  else
+    insert into orders (status, total_amount, table_id, idempotency_key)
+    values ('pending', v_total, p_table_id, p_idempotency_key)
+    returning * into v_order;
+  end if;
+
+  insert into order_items (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  insert into stock_reservations (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  insert into stock_movements (meal_id, movement_type, reserved_delta, order_id, reason)
+  select r.meal_id, 'reservation', sum(r.quantity)::integer, v_order.id, 'Order submitted'
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id
+  order by r.meal_id;
+
+  -- Dishes in one order can share an ingredient; each passed on its own,
+  -- so make sure the ingredients cover all of them together
+  select s.name into v_short
+  from ingredient_stock s
+  where s.committed_quantity > s.quantity
+    and s.ingredient_id in (
+      select ri.ingredient_id
+      from recipe_items ri
+      join order_items oi on oi.meal_id = ri.meal_id
+      where oi.order_id = v_order.id
+    )
+  order by s.name
+  limit 1;
+
+  if found then
+    raise exception 'Sorry, we don''t have enough % for everything in your order. Please remove an item.', v_short.name
+      using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+  end if;
+
+  return order_with_items_json(v_order.id);
+end;
+$$;
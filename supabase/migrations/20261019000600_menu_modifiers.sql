@@ -0,0 +1,371 @@
+-- Modifier groups and options per menu item (sizes, add-ons, removals).
+-- Order lines keep a snapshot of the chosen options and any special
+-- instructions, and submit_order validates and prices the selections.
+
+create table if not exists public.modifier_groups (
+  id bigint generated always as identity primary key,
+  meal_id bigint not null references public.menu (id) on delete cascade,
+  name text not null,
+  is_required boolean not null default false,
+  min_select integer not null default 0 check (min_select >= 0),
+  max_select integer not null default 1 check (max_select >= 1),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  check (min_select <= max_select),
+  check (not is_required or min_select >= 1)
+);
+
+create index if not exists modifier_groups_meal_id_idx
+  on public.modifier_groups (meal_id, sort_order);
+
+create table if not exists public.modifier_options (
+  id bigint generated always as identity primary key,
+  group_id bigint not null references public.modifier_groups (id) on delete cascade,
+  name text not null,
+  price_delta numeric(10, 2) not null default 0,
+  is_available boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists modifier_options_group_id_idx
+  on public.modifier_options (group_id, sort_order);
+
+-- Snapshot of the chosen options: [{group_id, group_name, option_id, name, price_delta}]
+alter table public.order_items
+  add column if not exists modifiers jsonb not null default '[]'::jsonb,
+  add column if not exists special_instructions text;
+
+-- Replace all modifier groups of a menu item in one go
+create or replace function public.set_menu_modifier_groups(
+  p_meal_id bigint,
+  p_groups jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_group record;
+  v_group_id bigint;
+  v_option_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to edit modifiers' using errcode = '42501';
+  end if;
+
+  if p_groups is null or jsonb_typeof(p_groups) <> 'array' then
+    raise exception 'Modifiers must be a list of groups'
+      using errcode = '22023', hint = 'INVALID_MODIFIERS';
+  end if;
+
+  perform 1 from menu where id = p_meal_id for update;
+  if not found then
+    raise exception 'Menu item % not found', p_meal_id using errcode = 'P0002';
+  end if;
+
+  delete from modifier_groups where meal_id = p_meal_id;
+
+  for v_group in
+    select g.value as data, g.ordinality
+    from jsonb_array_elements(p_groups) with ordinality as g(value, ordinality)
+  loop
+    if coalesce(trim(v_group.data ->> 'name'), '') = '' then
+      raise exception 'Every modifier group needs a name'
+        using errcode = '22023', hint = 'INVALID_MODIFIERS';
+    end if;
+
+    v_option_count := jsonb_array_length(coalesce(v_group.data -> 'options', '[]'::jsonb));
+    if v_option_count = 0 then
+      raise exception 'Modifier group "%" needs at least one option', v_group.data ->> 'name'
+        using errcode = '22023', hint = 'INVALID_MODIFIERS';
+    end if;
+
+    if coalesce((v_group.data ->> 'min_select')::integer, 0) > v_option_count then
+      raise exception 'Modifier group "%" requires more choices than it has options', v_group.data ->> 'name'
+        using errcode = '22023', hint = 'INVALID_MODIFIERS';
+    end if;
+
+    insert into modifier_groups (meal_id, name, is_required, min_select, max_select, sort_order)
+    values (
+      p_meal_id,
+      trim(v_group.data ->> 'name'),
+      coalesce((v_group.data ->> 'is_required')::boolean, false),
+      -- A required group always needs at least one choice
+      greatest(
+        coalesce((v_group.data ->> 'min_select')::integer, 0),
+        case when coalesce((v_group.data ->> 'is_required')::boolean, false) then 1 else 0 end
+      ),
+      least(coalesce((v_group.data ->> 'max_select')::integer, 1), v_option_count),
+      v_group.ordinality
+    )
+    returning id into v_group_id;
+
+    insert into modifier_options (group_id, name, price_delta, is_available, sort_order)
+    select
+      v_group_id,
+      coalesce(trim(o.value ->> 'name'), ''),
+      coalesce((o.value ->> 'price_delta')::numeric, 0),
+      coalesce((o.value ->> 'is_available')::boolean, true),
+      o.ordinality
+    from jsonb_array_elements(v_group.data -> 'options') with ordinality as o(value, ordinality);
+
+    if exists (
+      select 1 from modifier_options where group_id = v_group_id and name = ''
+    ) then
+      raise exception 'Every option in "%" needs a name', v_group.data ->> 'name'
+        using errcode = '22023', hint = 'INVALID_MODIFIERS';
+    end if;
+  end loop;
+end;
+$$;
+
+grant execute on function public.set_menu_modifier_groups(bigint, jsonb) to authenticated;
+
+-- Each line now carries option_ids and special_instructions; lines are kept
+-- separate so two "Iced Coffee" lines with different sizes stay distinct
+create or replace function public.submit_order(
+  p_table_id bigint,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_existing_id bigint;
+  v_menu record;
+  v_line record;
+  v_group record;
+  v_available integer;
+  v_short record;
+  v_meal_id bigint;
+  v_quantity integer;
+  v_option_ids bigint[];
+  v_modifiers jsonb;
+  v_unit_price numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+begin
+  if p_table_id is null or p_table_id <= 0 then
+    raise exception 'A valid table is required to place an order'
+      using errcode = '22023', hint = 'INVALID_TABLE';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Your order has no items'
+      using errcode = '22023', hint = 'EMPTY_ORDER';
+  end if;
+
+  -- Serialise submissions per table so retries and double taps see each other
+  perform pg_advisory_xact_lock(hashtext('submit_order'), p_table_id::integer);
+
+  if p_idempotency_key is not null then
+    select * into v_order from orders where idempotency_key = p_idempotency_key;
+    if found then
+      return order_with_items_json(v_order.id);
+    end if;
+  end if;
+
+  -- Lock the ingredients this order draws on so tables sharing an
+  -- ingredient cannot both take the last of it
+  perform 1
+  from ingredients
+  where id in (
+    select ri.ingredient_id
+    from recipe_items ri
+    join jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+      on r.meal_id = ri.meal_id
+  )
+  order by id
+  for update;
+
+  -- A table keeps a single pending order; resubmitting replaces its items,
+  -- so its current holds go back to the pool before checking availability
+  select id into v_existing_id
+  from orders
+  where table_id = p_table_id and status = 'pending'
+  order by created_at desc
+  limit 1
+  for update;
+
+  if v_existing_id is not null then
+    perform release_order_reservations(v_existing_id);
+  end if;
+
+  -- Lock menu rows in id order to avoid deadlocks between tables
+  for v_line in
+    select r.meal_id, sum(r.quantity)::integer as quantity
+    from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+    group by r.meal_id
+    order by r.meal_id
+  loop
+    if v_line.quantity is null or v_line.quantity <= 0 then
+      raise exception 'Invalid quantity for menu item %', v_line.meal_id
+        using errcode = '22023', hint = 'INVALID_QUANTITY';
+    end if;
+
+    select id, name, price into v_menu
+    from menu
+    where id = v_line.meal_id
+    for update;
+
+    if not found then
+      raise exception 'A menu item in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    select available into v_available
+    from menu_availability
+    where meal_id = v_line.meal_id;
+
+    if v_available < v_line.quantity then
+      if v_available = 0 then
+        raise exception 'Sorry, "%" just sold out. Please remove it from your order.', v_menu.name
+          using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+      end if;
+      raise exception 'Sorry, only % "%" left. Please update your order.', v_available, v_menu.name
+        using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+    end if;
+  end loop;
+
+  -- Validate and price the chosen options of every line
+  for v_line in
+    select value as data
+    from jsonb_array_elements(p_items)
+  loop
+    v_meal_id := (v_line.data ->> 'meal_id')::bigint;
+    v_quantity := (v_line.data ->> 'quantity')::integer;
+
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for menu item %', v_meal_id
+        using errcode = '22023', hint = 'INVALID_QUANTITY';
+    end if;
+
+    select coalesce(array_agg(distinct x::bigint), '{}') into v_option_ids
+    from jsonb_array_elements_text(coalesce(v_line.data -> 'option_ids', '[]'::jsonb)) as x;
+
+    select id, name, price into v_menu from menu where id = v_meal_id;
+
+    if exists (
+      select 1
+      from unnest(v_option_ids) as chosen(id)
+      where not exists (
+        select 1
+        from modifier_options mo
+        join modifier_groups mg on mg.id = mo.group_id
+        where mo.id = chosen.id and mg.meal_id = v_meal_id and mo.is_available
+      )
+    ) then
+      raise exception 'Sorry, an option you picked for "%" is no longer available. Please choose again.', v_menu.name
+        using errcode = 'P0001', hint = 'OPTION_UNAVAILABLE';
+    end if;
+
+    for v_group in
+      select mg.name, mg.min_select, mg.max_select,
+        (select count(*) from modifier_options mo
+          where mo.group_id = mg.id and mo.id = any (v_option_ids)) as selected
+      from modifier_groups mg
+      where mg.meal_id = v_meal_id
+      order by mg.sort_order, mg.id
+    loop
+      if v_group.selected < v_group.min_select then
+        raise exception 'Please choose % for "%" (%).',
+          case when v_group.min_select = 1 then 'an option' else v_group.min_select || ' options' end,
+          v_group.name, v_menu.name
+          using errcode = '22023', hint = 'MODIFIER_REQUIRED';
+      end if;
+
+      if v_group.selected > v_group.max_select then
+        raise exception 'You can choose up to % for "%" (%).', v_group.max_select, v_group.name, v_menu.name
+          using errcode = '22023', hint = 'TOO_MANY_MODIFIERS';
+      end if;
+    end loop;
+
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'group_id', mg.id,
+          'group_name', mg.name,
+          'option_id', mo.id,
+          'name', mo.name,
+          'price_delta', mo.price_delta
+        )
+        order by mg.sort_order, mg.id, mo.sort_order, mo.id
+      ),
+      '[]'::jsonb
+    ) into v_modifiers
+    from modifier_options mo
+    join modifier_groups mg on mg.id = mo.group_id
+    where mo.id = any (v_option_ids);
+
+    v_unit_price := v_menu.price + coalesce((
+      select sum(mo.price_delta) from modifier_options mo where mo.id = any (v_option_ids)
+    ), 0);
+
+    v_total := v_total + v_unit_price * v_quantity;
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'meal_id', v_meal_id,
+      'quantity', v_quantity,
+      'modifiers', v_modifiers,
+      'special_instructions', left(nullif(trim(v_line.data ->> 'special_instructions'), ''), 200)
+    ));
+  end loop;
+
+  if v_existing_id is not null then
+    delete from order_items where order_id = v_existing_id;
+
+    update orders
+    set total_amount = v_total,
+        created_at = now(),
+        idempotency_key = coalesce(p_idempotency_key, idempotency_key)
+    where id = v_existing_id
+    returning * into v_order;
+  else
+    insert into orders (status, total_amount, table_id, idempotency_key)
+    values ('pending', v_total, p_table_id, p_idempotency_key)
+    returning * into v_order;
+  end if;
+
+  insert into order_items (order_id, meal_id, quantity, modifiers, special_instructions)
+  select v_order.id, r.meal_id, r.quantity, r.modifiers, r.special_instructions
+  from jsonb_to_recordset(v_lines)
+    as r(meal_id bigint, quantity integer, modifiers jsonb, special_instructions text);
+
+  insert into stock_reservations (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  insert into stock_movements (meal_id, movement_type, reserved_delta, order_id, reason)
+  select r.meal_id, 'reservation', sum(r.quantity)::integer, v_order.id, 'Order submitted'
+  from jsonb_to_recordset(p_items) as r(meal_id bigint, quantity integer)
+  group by r.meal_id
+  order by r.meal_id;
+
+  -- Dishes in one order can share an ingredient; each passed on its own,
+  -- so make sure the ingredients cover all of them together
+  select s.name into v_short
+  from ingredient_stock s
+  where s.committed_quantity > s.quantity
+    and s.ingredient_id in (
+      select ri.ingredient_id
+      from recipe_items ri
+      join order_items oi on oi.meal_id = ri.meal_id
+      where oi.order_id = v_order.id
+    )
+  order by s.name
+  limit 1;
+
+  if found then
+    raise exception 'Sorry, we don''t have enough % for everything in your order. Please remove an item.', v_short.name
+      using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+  end if;
+
+  return order_with_items_json(v_order.id);
+end;
+$$;
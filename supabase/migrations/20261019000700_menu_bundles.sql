@@ -0,0 +1,550 @@
+-- Combo meals and bundles ("silog + drink") sold at a set price. A bundle is
+-- made of slots; each slot is filled by one menu item, either a fixed dish or
+-- a choice from a list or a whole category ("any beverage"). Orders explode a
+-- bundle into ordinary order_items rows so stock, reservations and the
+-- kitchen keep working per menu item, and each component carries its share
+-- of the bundle price for sales reporting.
+
+create table if not exists public.bundles (
+  id bigint generated always as identity primary key,
+  name text not null,
+  description text not null default '',
+  price numeric(10, 2) not null check (price >= 0),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.bundle_slots (
+  id bigint generated always as identity primary key,
+  bundle_id bigint not null references public.bundles (id) on delete cascade,
+  name text not null,
+  quantity integer not null default 1 check (quantity > 0),
+  -- Any menu item in this category fills the slot, on top of bundle_slot_items
+  category text,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists bundle_slots_bundle_id_idx
+  on public.bundle_slots (bundle_id, sort_order);
+
+create table if not exists public.bundle_slot_items (
+  slot_id bigint not null references public.bundle_slots (id) on delete cascade,
+  meal_id bigint not null references public.menu (id) on delete cascade,
+  primary key (slot_id, meal_id)
+);
+
+create index if not exists bundle_slot_items_meal_id_idx
+  on public.bundle_slot_items (meal_id);
+
+-- One row per bundle ordered; its components are the order_items pointing at it
+create table if not exists public.order_bundles (
+  id bigint generated always as identity primary key,
+  order_id bigint not null references public.orders (id) on delete cascade,
+  bundle_id bigint references public.bundles (id) on delete set null,
+  name text not null,
+  unit_price numeric(10, 2) not null,
+  quantity integer not null check (quantity > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_bundles_order_id_idx
+  on public.order_bundles (order_id);
+
+-- allocated_amount: the component's share of the bundle price, for the whole line
+alter table public.order_items
+  add column if not exists order_bundle_id bigint references public.order_bundles (id) on delete cascade,
+  add column if not exists allocated_amount numeric(10, 2);
+
+create index if not exists order_items_order_bundle_id_idx
+  on public.order_items (order_bundle_id)
+  where order_bundle_id is not null;
+
+-- Menu items that can fill a slot
+create or replace function public.bundle_slot_meal_ids(p_slot_id bigint)
+returns setof bigint
+language sql
+stable
+set search_path = public
+as $$
+  select si.meal_id from bundle_slot_items si where si.slot_id = p_slot_id
+  union
+  select m.id
+  from menu m
+  join bundle_slots s on s.id = p_slot_id
+  where s.category is not null and m.category = s.category;
+$$;
+
+-- How many of each bundle can still be sold. Slots are counted on their
+-- own, so a dish shared by two slots is an upper bound; submit_order checks
+-- the chosen components exactly.
+create or replace view public.bundle_availability as
+select
+  b.id as bundle_id,
+  coalesce(min(slots.available), 0)::integer as available
+from public.bundles b
+left join lateral (
+  select
+    s.id,
+    coalesce(sum(ma.available / s.quantity), 0) as available
+  from public.bundle_slots s
+  left join public.menu_availability ma
+    on ma.meal_id in (select public.bundle_slot_meal_ids(s.id))
+  where s.bundle_id = b.id
+  group by s.id
+) slots on true
+group by b.id;
+
+grant select on public.bundle_availability to anon, authenticated;
+
+-- Replace all slots of a bundle in one go
+create or replace function public.set_bundle_slots(
+  p_bundle_id bigint,
+  p_slots jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_slot record;
+  v_slot_id bigint;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to edit bundles' using errcode = '42501';
+  end if;
+
+  if p_slots is null or jsonb_typeof(p_slots) <> 'array' or jsonb_array_length(p_slots) = 0 then
+    raise exception 'A bundle needs at least one item'
+      using errcode = '22023', hint = 'INVALID_BUNDLE';
+  end if;
+
+  perform 1 from bundles where id = p_bundle_id for update;
+  if not found then
+    raise exception 'Bundle % not found', p_bundle_id using errcode = 'P0002';
+  end if;
+
+  delete from bundle_slots where bundle_id = p_bundle_id;
+
+  for v_slot in
+    select s.value as data, s.ordinality
+    from jsonb_array_elements(p_slots) with ordinality as s(value, ordinality)
+  loop
+    if coalesce(trim(v_slot.data ->> 'name'), '') = '' then
+      raise exception 'Every bundle item needs a name'
+        using errcode = '22023', hint = 'INVALID_BUNDLE';
+    end if;
+
+    insert into bundle_slots (bundle_id, name, quantity, category, sort_order)
+    values (
+      p_bundle_id,
+      trim(v_slot.data ->> 'name'),
+      greatest(1, coalesce((v_slot.data ->> 'quantity')::integer, 1)),
+      nullif(trim(v_slot.data ->> 'category'), ''),
+      v_slot.ordinality
+    )
+    returning id into v_slot_id;
+
+    insert into bundle_slot_items (slot_id, meal_id)
+    select distinct v_slot_id, x::bigint
+    from jsonb_array_elements_text(coalesce(v_slot.data -> 'meal_ids', '[]'::jsonb)) as x;
+
+    if not exists (select 1 from bundle_slot_meal_ids(v_slot_id)) then
+      raise exception 'Choose at least one menu item or a category for "%"', v_slot.data ->> 'name'
+        using errcode = '22023', hint = 'INVALID_BUNDLE';
+    end if;
+  end loop;
+end;
+$$;
+
+grant execute on function public.set_bundle_slots(bigint, jsonb) to authenticated;
+
+-- Order items now carry the bundle they belong to
+create or replace function public.order_with_items_json(p_order_id bigint)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select to_jsonb(o) || jsonb_build_object(
+    'order_items_db',
+    coalesce(
+      (
+        select jsonb_agg(
+          to_jsonb(oi) || jsonb_build_object(
+            'meal', to_jsonb(m),
+            'order_bundle', to_jsonb(ob)
+          )
+          order by oi.id
+        )
+        from order_items oi
+        left join menu m on m.id = oi.meal_id
+        left join order_bundles ob on ob.id = oi.order_bundle_id
+        where oi.order_id = o.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  from orders o
+  where o.id = p_order_id;
+$$;
+
+-- Items are either menu lines {meal_id, quantity, option_ids,
+-- special_instructions} or bundle lines {bundle_id, quantity,
+-- components: [{slot_id, meal_id}]}. Bundle components are exploded into
+-- the stock checks, reservations and order_items alongside menu lines.
+create or replace function public.submit_order(
+  p_table_id bigint,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_existing_id bigint;
+  v_menu record;
+  v_line record;
+  v_group record;
+  v_slot record;
+  v_bundle bundles;
+  v_bundle_line record;
+  v_available integer;
+  v_short record;
+  v_meal_id bigint;
+  v_quantity integer;
+  v_option_ids bigint[];
+  v_modifiers jsonb;
+  v_unit_price numeric;
+  v_components jsonb;
+  v_order_bundle_id bigint;
+  v_list_total numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_bundles jsonb := '[]'::jsonb;
+  -- Every menu item the order draws on, menu lines and bundle components alike
+  v_stock_lines jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+begin
+  if p_table_id is null or p_table_id <= 0 then
+    raise exception 'A valid table is required to place an order'
+      using errcode = '22023', hint = 'INVALID_TABLE';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Your order has no items'
+      using errcode = '22023', hint = 'EMPTY_ORDER';
+  end if;
+
+  -- Serialise submissions per table so retries and double taps see each other
+  perform pg_advisory_xact_lock(hashtext('submit_order'), p_table_id::integer);
+
+  if p_idempotency_key is not null then
+    select * into v_order from orders where idempotency_key = p_idempotency_key;
+    if found then
+      return order_with_items_json(v_order.id);
+    end if;
+  end if;
+
+  -- Explode bundles into their chosen components
+  for v_line in
+    select value as data
+    from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_line.data ->> 'quantity')::integer;
+
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity in your order'
+        using errcode = '22023', hint = 'INVALID_QUANTITY';
+    end if;
+
+    if not v_line.data ? 'bundle_id' then
+      v_stock_lines := v_stock_lines || jsonb_build_array(jsonb_build_object(
+        'meal_id', (v_line.data ->> 'meal_id')::bigint,
+        'quantity', v_quantity
+      ));
+      continue;
+    end if;
+
+    select * into v_bundle
+    from bundles
+    where id = (v_line.data ->> 'bundle_id')::bigint and is_active;
+
+    if not found then
+      raise exception 'A set meal in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    v_components := '[]'::jsonb;
+
+    for v_slot in
+      select s.id, s.name, s.quantity
+      from bundle_slots s
+      where s.bundle_id = v_bundle.id
+      order by s.sort_order, s.id
+    loop
+      select (c.value ->> 'meal_id')::bigint into v_meal_id
+      from jsonb_array_elements(coalesce(v_line.data -> 'components', '[]'::jsonb)) as c
+      where (c.value ->> 'slot_id')::bigint = v_slot.id
+      limit 1;
+
+      if v_meal_id is null or v_meal_id not in (select bundle_slot_meal_ids(v_slot.id)) then
+        raise exception 'Please choose "%" for "%".', v_slot.name, v_bundle.name
+          using errcode = '22023', hint = 'BUNDLE_CHOICE_REQUIRED';
+      end if;
+
+      v_components := v_components || jsonb_build_array(jsonb_build_object(
+        'meal_id', v_meal_id,
+        'quantity', v_slot.quantity * v_quantity
+      ));
+    end loop;
+
+    if jsonb_array_length(v_components) = 0 then
+      raise exception 'A set meal in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    v_stock_lines := v_stock_lines || v_components;
+    v_total := v_total + v_bundle.price * v_quantity;
+    v_bundles := v_bundles || jsonb_build_array(jsonb_build_object(
+      'bundle_id', v_bundle.id,
+      'name', v_bundle.name,
+      'unit_price', v_bundle.price,
+      'quantity', v_quantity,
+      'components', v_components
+    ));
+  end loop;
+
+  -- Lock the ingredients this order draws on so tables sharing an
+  -- ingredient cannot both take the last of it
+  perform 1
+  from ingredients
+  where id in (
+    select ri.ingredient_id
+    from recipe_items ri
+    join jsonb_to_recordset(v_stock_lines) as r(meal_id bigint, quantity integer)
+      on r.meal_id = ri.meal_id
+  )
+  order by id
+  for update;
+
+  -- A table keeps a single pending order; resubmitting replaces its items,
+  -- so its current holds go back to the pool before checking availability
+  select id into v_existing_id
+  from orders
+  where table_id = p_table_id and status = 'pending'
+  order by created_at desc
+  limit 1
+  for update;
+
+  if v_existing_id is not null then
+    perform release_order_reservations(v_existing_id);
+  end if;
+
+  -- Lock menu rows in id order to avoid deadlocks between tables
+  for v_line in
+    select r.meal_id, sum(r.quantity)::integer as quantity
+    from jsonb_to_recordset(v_stock_lines) as r(meal_id bigint, quantity integer)
+    group by r.meal_id
+    order by r.meal_id
+  loop
+    select id, name, price into v_menu
+    from menu
+    where id = v_line.meal_id
+    for update;
+
+    if not found then
+      raise exception 'A menu item in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    select available into v_available
+    from menu_availability
+    where meal_id = v_line.meal_id;
+
+    if v_available < v_line.quantity then
+      if v_available = 0 then
+        raise exception 'Sorry, "%" just sold out. Please remove it from your order.', v_menu.name
+          using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+      end if;
+      raise exception 'Sorry, only % "%" left. Please update your order.', v_available, v_menu.name
+        using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+    end if;
+  end loop;
+
+  -- Validate and price the chosen options of every menu line
+  for v_line in
+    select value as data
+    from jsonb_array_elements(p_items)
+    where not value ? 'bundle_id'
+  loop
+    v_meal_id := (v_line.data ->> 'meal_id')::bigint;
+    v_quantity := (v_line.data ->> 'quantity')::integer;
+
+    select coalesce(array_agg(distinct x::bigint), '{}') into v_option_ids
+    from jsonb_array_elements_text(coalesce(v_line.data -> 'option_ids', '[]'::jsonb)) as x;
+
+    select id, name, price into v_menu from menu where id = v_meal_id;
+
+    if exists (
+      select 1
+      from unnest(v_option_ids) as chosen(id)
+      where not exists (
+        select 1
+        from modifier_options mo
+        join modifier_groups mg on mg.id = mo.group_id
+        where mo.id = chosen.id and mg.meal_id = v_meal_id and mo.is_available
+      )
+    ) then
+      raise exception 'Sorry, an option you picked for "%" is no longer available. Please choose again.', v_menu.name
+        using errcode = 'P0001', hint = 'OPTION_UNAVAILABLE';
+    end if;
+
+    for v_group in
+      select mg.name, mg.min_select, mg.max_select,
+        (select count(*) from modifier_options mo
+          where mo.group_id = mg.id and mo.id = any (v_option_ids)) as selected
+      from modifier_groups mg
+      where mg.meal_id = v_meal_id
+      order by mg.sort_order, mg.id
+    loop
+      if v_group.selected < v_group.min_select then
+        raise exception 'Please choose % for "%" (%).',
+          case when v_group.min_select = 1 then 'an option' else v_group.min_select || ' options' end,
+          v_group.name, v_menu.name
+          using errcode = '22023', hint = 'MODIFIER_REQUIRED';
+      end if;
+
+      if v_group.selected > v_group.max_select then
+        raise exception 'You can choose up to % for "%" (%).', v_group.max_select, v_group.name, v_menu.name
+          using errcode = '22023', hint = 'TOO_MANY_MODIFIERS';
+      end if;
+    end loop;
+
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'group_id', mg.id,
+          'group_name', mg.name,
+          'option_id', mo.id,
+          'name', mo.name,
+          'price_delta', mo.price_delta
+        )
+        order by mg.sort_order, mg.id, mo.sort_order, mo.id
+      ),
+      '[]'::jsonb
+    ) into v_modifiers
+    from modifier_options mo
+    join modifier_groups mg on mg.id = mo.group_id
+    where mo.id = any (v_option_ids);
+
+    v_unit_price := v_menu.price + coalesce((
+      select sum(mo.price_delta) from modifier_options mo where mo.id = any (v_option_ids)
+    ), 0);
+
+    v_total := v_total + v_unit_price * v_quantity;
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'meal_id', v_meal_id,
+      'quantity', v_quantity,
+      'modifiers', v_modifiers,
+      'special_instructions', left(nullif(trim(v_line.data ->> 'special_instructions'), ''), 200)
+    ));
+  end loop;
+
+  if v_existing_id is not null then
+    delete from order_items where order_id = v_existing_id;
+    delete from order_bundles where order_id = v_existing_id;
+
+    update orders
+    set total_amount = v_total,
+        created_at = now(),
+        idempotency_key = coalesce(p_idempotency_key, idempotency_key)
+    where id = v_existing_id
+    returning * into v_order;
+  else
+    insert into orders (status, total_amount, table_id, idempotency_key)
+    values ('pending', v_total, p_table_id, p_idempotency_key)
+    returning * into v_order;
+  end if;
+
+  insert into order_items (order_id, meal_id, quantity, modifiers, special_instructions)
+  select v_order.id, r.meal_id, r.quantity, r.modifiers, r.special_instructions
+  from jsonb_to_recordset(v_lines)
+    as r(meal_id bigint, quantity integer, modifiers jsonb, special_instructions text);
+
+  -- The bundle price is split across its components by their menu prices
+  for v_bundle_line in
+    select *
+    from jsonb_to_recordset(v_bundles)
+      as b(bundle_id bigint, name text, unit_price numeric, quantity integer, components jsonb)
+  loop
+    insert into order_bundles (order_id, bundle_id, name, unit_price, quantity)
+    values (v_order.id, v_bundle_line.bundle_id, v_bundle_line.name, v_bundle_line.unit_price, v_bundle_line.quantity)
+    returning id into v_order_bundle_id;
+
+    select coalesce(sum(m.price * c.quantity), 0) into v_list_total
+    from jsonb_to_recordset(v_bundle_line.components) as c(meal_id bigint, quantity integer)
+    join menu m on m.id = c.meal_id;
+
+    insert into order_items (order_id, meal_id, quantity, order_bundle_id, allocated_amount)
+    select
+      v_order.id,
+      c.meal_id,
+      c.quantity,
+      v_order_bundle_id,
+      round(
+        v_bundle_line.unit_price * v_bundle_line.quantity * case
+          when v_list_total > 0 then m.price * c.quantity / v_list_total
+          else 1.0 / jsonb_array_length(v_bundle_line.components)
+        end,
+        2
+      )
+    from jsonb_to_recordset(v_bundle_line.components) as c(meal_id bigint, quantity integer)
+    join menu m on m.id = c.meal_id;
+
+    -- Rounding leftovers go to the last component so the shares add up
+    update order_items
+    set allocated_amount = allocated_amount + (
+      v_bundle_line.unit_price * v_bundle_line.quantity
+      - (select sum(allocated_amount) from order_items where order_bundle_id = v_order_bundle_id)
+    )
+    where id = (select max(id) from order_items where order_bundle_id = v_order_bundle_id);
+  end loop;
+
+  insert into stock_reservations (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(v_stock_lines) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  insert into stock_movements (meal_id, movement_type, reserved_delta, order_id, reason)
+  select r.meal_id, 'reservation', sum(r.quantity)::integer, v_order.id, 'Order submitted'
+  from jsonb_to_recordset(v_stock_lines) as r(meal_id bigint, quantity integer)
+  group by r.meal_id
+  order by r.meal_id;
+
+  -- Dishes in one order can share an ingredient; each passed on its own,
+  -- so make sure the ingredients cover all of them together
+  select s.name into v_short
+  from ingredient_stock s
+  where s.committed_quantity > s.quantity
+    and s.ingredient_id in (
+      select ri.ingredient_id
+      from recipe_items ri
+      join order_items oi on oi.meal_id = ri.meal_id
+      where oi.order_id = v_order.id
+    )
+  order by s.name
+  limit 1;
+
+  if found then
+    raise exception 'Sorry, we don''t have enough % for everything in your order. Please remove an item.', v_short.name
+      using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+  end if;
+
+  return order_with_items_json(v_order.id);
+end;
+$$;
@@ -0,0 +1,154 @@
+-- Time-based menu availability. A schedule is a window of days of the week,
+-- hours and an optional date range (for seasonal items) that applies to a
+-- whole category or to chosen menu items. An item with schedules can only be
+-- ordered while one of them is open; items without any are always on.
+-- Times are the café's local time (Asia/Manila, see cafe_local_time()).
+
+create table if not exists public.menu_schedules (
+  id bigint generated always as identity primary key,
+  name text not null,
+  -- 0 = Sunday … 6 = Saturday
+  days_of_week smallint[] not null default '{0,1,2,3,4,5,6}',
+  -- Null start and end means all day; an end before the start runs past midnight
+  start_time time,
+  end_time time,
+  start_date date,
+  end_date date,
+  -- Applies to every item in this category, on top of menu_schedule_items
+  category text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (days_of_week <@ '{0,1,2,3,4,5,6}'::smallint[] and cardinality(days_of_week) > 0),
+  check ((start_time is null) = (end_time is null)),
+  check (start_date is null or end_date is null or start_date <= end_date)
+);
+
+create table if not exists public.menu_schedule_items (
+  schedule_id bigint not null references public.menu_schedules (id) on delete cascade,
+  meal_id bigint not null references public.menu (id) on delete cascade,
+  primary key (schedule_id, meal_id)
+);
+
+create index if not exists menu_schedule_items_meal_id_idx
+  on public.menu_schedule_items (meal_id);
+
+-- Replace the menu items a schedule applies to in one go
+create or replace function public.set_menu_schedule_items(
+  p_schedule_id bigint,
+  p_meal_ids bigint[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to edit menu schedules' using errcode = '42501';
+  end if;
+
+  perform 1 from menu_schedules where id = p_schedule_id for update;
+  if not found then
+    raise exception 'Menu schedule % not found', p_schedule_id using errcode = 'P0002';
+  end if;
+
+  delete from menu_schedule_items where schedule_id = p_schedule_id;
+
+  insert into menu_schedule_items (schedule_id, meal_id)
+  select distinct p_schedule_id, meal_id
+  from unnest(coalesce(p_meal_ids, '{}')) as meal_id;
+
+  if not exists (select 1 from menu_schedule_items where schedule_id = p_schedule_id)
+    and (select category from menu_schedules where id = p_schedule_id) is null then
+    raise exception 'Choose at least one menu item or a category for this schedule'
+      using errcode = '22023', hint = 'INVALID_SCHEDULE';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_menu_schedule_items(bigint, bigint[]) to authenticated;
+
+-- Current wall-clock time at the café
+create or replace function public.cafe_local_time()
+returns timestamp
+language sql
+stable
+as $$
+  select now() at time zone 'Asia/Manila';
+$$;
+
+-- Whether a schedule is open at a local time
+create or replace function public.menu_schedule_is_open(
+  p_schedule public.menu_schedules,
+  p_at timestamp
+)
+returns boolean
+language sql
+immutable
+as $$
+  select
+    p_schedule.is_active
+    and (p_schedule.start_date is null or p_at::date >= p_schedule.start_date)
+    and (p_schedule.end_date is null or p_at::date <= p_schedule.end_date)
+    and case
+      when p_schedule.start_time is null then
+        extract(dow from p_at)::smallint = any (p_schedule.days_of_week)
+      when p_schedule.start_time < p_schedule.end_time then
+        extract(dow from p_at)::smallint = any (p_schedule.days_of_week)
+        and p_at::time >= p_schedule.start_time
+        and p_at::time < p_schedule.end_time
+      else
+        -- Overnight window: the late part belongs to the day it started on
+        (extract(dow from p_at)::smallint = any (p_schedule.days_of_week)
+          and p_at::time >= p_schedule.start_time)
+        or (extract(dow from p_at - interval '1 day')::smallint = any (p_schedule.days_of_week)
+          and p_at::time < p_schedule.end_time)
+    end;
+$$;
+
+-- Whether a menu item can be ordered now
+create or replace function public.menu_item_is_on_schedule(p_meal_id bigint)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  -- No schedules at all means always available
+  select coalesce(bool_or(menu_schedule_is_open(s, cafe_local_time())), true)
+  from menu_schedules s
+  join menu m on m.id = p_meal_id
+  where s.is_active
+    and (
+      s.category = m.category
+      or exists (
+        select 1 from menu_schedule_items si
+        where si.schedule_id = s.id and si.meal_id = p_meal_id
+      )
+    );
+$$;
+
+grant execute on function public.menu_item_is_on_schedule(bigint) to anon, authenticated;
+
+-- Reject order lines for items outside their window, whichever way the
+-- order was placed
+create or replace function public.check_order_item_schedule()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_name text;
+begin
+  if not menu_item_is_on_schedule(new.meal_id) then
+    select name into v_name from menu where id = new.meal_id;
+    raise exception 'Sorry, "%" is not being served right now. Please remove it from your order.', v_name
+      using errcode = 'P0001', hint = 'ITEM_NOT_SCHEDULED';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists order_items_check_schedule on public.order_items;
+create trigger order_items_check_schedule
+  before insert on public.order_items
+  for each row execute function public.check_order_item_schedule();
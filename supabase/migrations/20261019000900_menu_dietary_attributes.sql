@@ -0,0 +1,19 @@
+-- Allergen and dietary attributes on menu items, so customers can see and
+-- filter what a dish contains and the kitchen is warned on tickets.
+-- Keep the allowed values in sync with src/utils/dietary.ts.
+
+alter table public.menu
+  add column if not exists allergens text[] not null default '{}',
+  add column if not exists dietary_tags text[] not null default '{}',
+  add column if not exists spice_level smallint not null default 0;
+
+alter table public.menu
+  drop constraint if exists menu_allergens_check,
+  add constraint menu_allergens_check
+    check (allergens <@ array['nuts', 'shellfish', 'fish', 'dairy', 'egg', 'gluten', 'soy']::text[]),
+  drop constraint if exists menu_dietary_tags_check,
+  add constraint menu_dietary_tags_check
+    check (dietary_tags <@ array['vegetarian', 'vegan', 'pork_free']::text[]),
+  drop constraint if exists menu_spice_level_check,
+  add constraint menu_spice_level_check
+    check (spice_level between 0 and 3);
@@ -0,0 +1,281 @@
+-- Signed table QR codes and table sessions.
+-- A table's QR code carries a token signed with a server-side secret. Scanning
+-- it opens (or joins) the table's session, and orders can only be placed
+-- through an open session, so editing `?table=` in the URL no longer lets
+-- anyone order to any table. Sessions close once every order in them is
+-- settled, when they expire, or when staff rotate the table's QR code.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- Secrets live outside the API-exposed schema
+create schema if not exists private;
+
+create table if not exists private.app_secrets (
+  name text primary key,
+  value text not null
+);
+
+insert into private.app_secrets (name, value)
+values ('table_qr', encode(extensions.gen_random_bytes(32), 'hex'))
+on conflict (name) do nothing;
+
+-- Bumping a table's version invalidates its printed QR code
+create table if not exists public.table_qr_tokens (
+  table_number integer primary key check (table_number > 0),
+  token_version integer not null default 1 check (token_version > 0),
+  rotated_at timestamptz not null default now(),
+  rotated_by uuid references auth.users (id)
+);
+
+create table if not exists public.table_sessions (
+  id bigint generated always as identity primary key,
+  table_number integer not null check (table_number > 0),
+  session_key uuid not null default gen_random_uuid() unique,
+  opened_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '4 hours',
+  closed_at timestamptz,
+  close_reason text check (close_reason in ('settled', 'expired', 'token_rotated', 'closed_by_staff'))
+);
+
+-- At most one open session per table; everyone who scans joins it
+create unique index if not exists table_sessions_one_open_idx
+  on public.table_sessions (table_number)
+  where closed_at is null;
+
+alter table public.orders
+  add column if not exists table_session_id bigint references public.table_sessions (id);
+
+create index if not exists orders_table_session_id_idx
+  on public.orders (table_session_id);
+
+-- Session keys are bearer credentials; customers never read them back
+revoke all on table public.table_sessions from anon;
+revoke all on table public.table_qr_tokens from anon;
+
+create or replace function private.table_qr_signature(p_table_number integer, p_version integer)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select substr(
+    encode(
+      extensions.hmac(
+        format('table:%s:v%s', p_table_number, p_version),
+        (select value from private.app_secrets where name = 'table_qr'),
+        'sha256'
+      ),
+      'hex'
+    ),
+    1,
+    32
+  );
+$$;
+
+-- Current QR tokens for a set of tables, e.g. "1.9f86d081884c7d65..."
+create or replace function public.get_table_qr_tokens(p_table_numbers integer[])
+returns table (table_number integer, token text, rotated_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to view table QR codes' using errcode = '42501';
+  end if;
+
+  insert into table_qr_tokens (table_number)
+  select distinct n
+  from unnest(coalesce(p_table_numbers, '{}')) as n
+  where n > 0
+  on conflict do nothing;
+
+  return query
+  select t.table_number,
+         t.token_version || '.' || private.table_qr_signature(t.table_number, t.token_version),
+         t.rotated_at
+  from table_qr_tokens t
+  where t.table_number = any (p_table_numbers)
+  order by t.table_number;
+end;
+$$;
+
+-- Invalidate a table's printed QR code and end its open session
+create or replace function public.rotate_table_qr_token(p_table_number integer)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version integer;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to rotate table QR codes' using errcode = '42501';
+  end if;
+
+  insert into table_qr_tokens (table_number, token_version, rotated_at, rotated_by)
+  values (p_table_number, 2, now(), auth.uid())
+  on conflict (table_number) do update
+    set token_version = table_qr_tokens.token_version + 1,
+        rotated_at = now(),
+        rotated_by = auth.uid()
+  returning token_version into v_version;
+
+  update table_sessions
+  set closed_at = now(), close_reason = 'token_rotated'
+  where table_number = p_table_number and closed_at is null;
+
+  return v_version || '.' || private.table_qr_signature(p_table_number, v_version);
+end;
+$$;
+
+-- Open the table's session from a scanned QR token, or join the open one
+create or replace function public.open_table_session(p_table_number integer, p_token text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version integer;
+  v_session table_sessions;
+begin
+  select token_version into v_version
+  from table_qr_tokens
+  where table_number = p_table_number;
+
+  if not found
+    or p_token is null
+    or p_token <> v_version || '.' || private.table_qr_signature(p_table_number, v_version) then
+    raise exception 'This table QR code is not valid. Please scan the code on your table.'
+      using errcode = '22023', hint = 'INVALID_TABLE_TOKEN';
+  end if;
+
+  -- Serialise scans per table so two phones do not open two sessions
+  perform pg_advisory_xact_lock(hashtext('table_session'), p_table_number);
+
+  update table_sessions
+  set closed_at = now(), close_reason = 'expired'
+  where table_number = p_table_number and closed_at is null and expires_at <= now();
+
+  update table_sessions
+  set last_seen_at = now(),
+      expires_at = greatest(expires_at, now() + interval '4 hours')
+  where table_number = p_table_number and closed_at is null
+  returning * into v_session;
+
+  if not found then
+    insert into table_sessions (table_number)
+    values (p_table_number)
+    returning * into v_session;
+  end if;
+
+  return jsonb_build_object(
+    'session_key', v_session.session_key,
+    'table_number', v_session.table_number,
+    'expires_at', v_session.expires_at
+  );
+end;
+$$;
+
+-- The only way customers place orders: through an open table session
+create or replace function public.submit_table_order(
+  p_session_key uuid,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session table_sessions;
+  v_order jsonb;
+begin
+  select * into v_session
+  from table_sessions
+  where session_key = p_session_key
+  for update;
+
+  if not found or v_session.closed_at is not null or v_session.expires_at <= now() then
+    raise exception 'Your table session has ended. Please scan your table QR code again.'
+      using errcode = '22023', hint = 'SESSION_EXPIRED';
+  end if;
+
+  v_order := submit_order(v_session.table_number, p_items, p_idempotency_key);
+
+  update orders
+  set table_session_id = v_session.id
+  where id = (v_order ->> 'id')::bigint and table_session_id is null;
+
+  update table_sessions
+  set last_seen_at = now(),
+      expires_at = greatest(expires_at, now() + interval '4 hours')
+  where id = v_session.id;
+
+  return v_order || jsonb_build_object('table_session_id', v_session.id);
+end;
+$$;
+
+-- Staff can end a table's session, e.g. when the party leaves without ordering
+create or replace function public.close_table_session(p_table_number integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to close table sessions' using errcode = '42501';
+  end if;
+
+  update table_sessions
+  set closed_at = now(), close_reason = 'closed_by_staff'
+  where table_number = p_table_number and closed_at is null;
+end;
+$$;
+
+-- The bill is settled once no order in the session is still open
+create or replace function public.close_settled_table_session()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.table_session_id is not null
+    and new.status in ('completed', 'cancelled', 'voided')
+    and not exists (
+      select 1 from orders
+      where table_session_id = new.table_session_id
+        and status in ('pending', 'confirmed', 'preparing', 'ready')
+    ) then
+    update table_sessions
+    set closed_at = now(), close_reason = 'settled'
+    where id = new.table_session_id and closed_at is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_close_settled_session on public.orders;
+create trigger orders_close_settled_session
+  after update of status on public.orders
+  for each row
+  when (old.status is distinct from new.status)
+  execute function public.close_settled_table_session();
+
+-- Orders must come through a table session, not the old RPC or direct inserts
+revoke execute on function public.submit_order(bigint, jsonb, uuid) from public, anon, authenticated;
+revoke insert, update, delete on table public.orders, public.order_items from anon;
+
+revoke execute on function private.table_qr_signature(integer, integer) from public, anon, authenticated;
+grant execute on function public.get_table_qr_tokens(integer[]) to authenticated;
+grant execute on function public.rotate_table_qr_token(integer) to authenticated;
+grant execute on function public.open_table_session(integer, text) to anon, authenticated;
+grant execute on function public.submit_table_order(uuid, jsonb, uuid) to anon, authenticated;
+grant execute on function public.close_table_session(integer) to authenticated;
@@ -0,0 +1,179 @@
+-- Tables as a first-class entity instead of a count kept in each admin's
+-- browser. A table's id is its number: the one printed on its QR code and
+-- stored in orders.table_id. Its live status is derived from its orders and
+-- table session by the `table_status` view.
+
+create table if not exists public.tables (
+  id integer primary key check (id > 0),
+  label text not null check (length(trim(label)) > 0),
+  area text not null default 'indoor' check (area in ('indoor', 'al_fresco', 'second_floor')),
+  capacity smallint not null default 4 check (capacity between 1 and 50),
+  is_active boolean not null default true,
+  -- Last time staff cleared the table after a party left
+  cleaned_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Every table already in use, plus the 10 the QR generator defaulted to
+insert into public.tables (id, label)
+select n, 'Table ' || n
+from (
+  select generate_series(1, 10) as n
+  union
+  select distinct table_id::integer from public.orders where table_id > 0
+  union
+  select table_number from public.table_qr_tokens
+  union
+  select table_number from public.table_sessions
+) as existing
+on conflict (id) do nothing;
+
+alter table public.orders
+  drop constraint if exists orders_table_id_fkey,
+  add constraint orders_table_id_fkey
+    foreign key (table_id) references public.tables (id);
+
+alter table public.table_qr_tokens
+  drop constraint if exists table_qr_tokens_table_number_fkey,
+  add constraint table_qr_tokens_table_number_fkey
+    foreign key (table_number) references public.tables (id) on delete cascade;
+
+alter table public.table_sessions
+  drop constraint if exists table_sessions_table_number_fkey,
+  add constraint table_sessions_table_number_fkey
+    foreign key (table_number) references public.tables (id);
+
+-- Tokens are only issued for tables that exist
+create or replace function public.get_table_qr_tokens(p_table_numbers integer[])
+returns table (table_number integer, token text, rotated_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to view table QR codes' using errcode = '42501';
+  end if;
+
+  insert into table_qr_tokens (table_number)
+  select t.id
+  from tables t
+  where t.id = any (coalesce(p_table_numbers, '{}'))
+  on conflict do nothing;
+
+  return query
+  select t.table_number,
+         t.token_version || '.' || private.table_qr_signature(t.table_number, t.token_version),
+         t.rotated_at
+  from table_qr_tokens t
+  where t.table_number = any (p_table_numbers)
+  order by t.table_number;
+end;
+$$;
+
+-- Inactive tables cannot open sessions, even with a valid QR code
+create or replace function public.open_table_session(p_table_number integer, p_token text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version integer;
+  v_session table_sessions;
+begin
+  select q.token_version into v_version
+  from table_qr_tokens q
+  join tables t on t.id = q.table_number
+  where q.table_number = p_table_number and t.is_active;
+
+  if not found
+    or p_token is null
+    or p_token <> v_version || '.' || private.table_qr_signature(p_table_number, v_version) then
+    raise exception 'This table QR code is not valid. Please scan the code on your table.'
+      using errcode = '22023', hint = 'INVALID_TABLE_TOKEN';
+  end if;
+
+  -- Serialise scans per table so two phones do not open two sessions
+  perform pg_advisory_xact_lock(hashtext('table_session'), p_table_number);
+
+  update table_sessions
+  set closed_at = now(), close_reason = 'expired'
+  where table_number = p_table_number and closed_at is null and expires_at <= now();
+
+  update table_sessions
+  set last_seen_at = now(),
+      expires_at = greatest(expires_at, now() + interval '4 hours')
+  where table_number = p_table_number and closed_at is null
+  returning * into v_session;
+
+  if not found then
+    insert into table_sessions (table_number)
+    values (p_table_number)
+    returning * into v_session;
+  end if;
+
+  return jsonb_build_object(
+    'session_key', v_session.session_key,
+    'table_number', v_session.table_number,
+    'expires_at', v_session.expires_at
+  );
+end;
+$$;
+
+-- Live status per table, most urgent first:
+--   waiting_for_food  an order is pending, confirmed or being prepared
+--   needs_bill        food is served (ready) but not yet paid (completed)
+--   ordering          someone scanned the QR and has not ordered yet
+--   needs_cleaning    the party settled and staff have not cleared the table
+--   free              none of the above
+-- Orders older than 12 hours are ignored so a forgotten order cannot hold a
+-- table forever.
+create or replace view public.table_status as
+select
+  t.id as table_id,
+  case
+    when open_orders.cooking > 0 then 'waiting_for_food'
+    when open_orders.served > 0 then 'needs_bill'
+    when s.id is not null then 'ordering'
+    when settled.closed_at is not null
+      and (t.cleaned_at is null or t.cleaned_at < settled.closed_at) then 'needs_cleaning'
+    else 'free'
+  end as status,
+  coalesce(open_orders.cooking + open_orders.served, 0)::integer as open_order_count,
+  coalesce(open_orders.since, s.opened_at, settled.closed_at) as status_since
+from public.tables t
+left join public.table_sessions s
+  on s.table_number = t.id and s.closed_at is null and s.expires_at > now()
+left join lateral (
+  select
+    count(*) filter (where o.status in ('pending', 'confirmed', 'preparing')) as cooking,
+    count(*) filter (where o.status = 'ready') as served,
+    min(o.created_at) as since
+  from public.orders o
+  where o.table_id = t.id
+    and o.status in ('pending', 'confirmed', 'preparing', 'ready')
+    and o.created_at > now() - interval '12 hours'
+) open_orders on true
+left join lateral (
+  select max(ts.closed_at) as closed_at
+  from public.table_sessions ts
+  where ts.table_number = t.id and ts.close_reason = 'settled'
+) settled on true
+where t.is_active;
+
+revoke all on table public.table_status from anon;
+grant select on table public.table_status to authenticated;
+
+-- Live status follows session changes as well as orders
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'table_sessions'
+    ) then
+    alter publication supabase_realtime add table public.table_sessions;
+  end if;
+end;
+$$;
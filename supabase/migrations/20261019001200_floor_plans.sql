@@ -0,0 +1,82 @@
+-- Floor plans: where each table sits on the café floor, for the admin editor
+-- and the live floor view used by cashiers and servers. There is one plan per
+-- branch; a table's area (indoor, al fresco, second floor) decides which tab
+-- of the plan it is drawn on. Coordinates are the centre of the table in plan
+-- units, rotation is in degrees clockwise.
+
+create table if not exists public.floor_plans (
+  id bigint generated always as identity primary key,
+  branch_id integer not null default 1 unique,
+  width integer not null default 1200 check (width between 400 and 4000),
+  height integer not null default 800 check (height between 300 and 4000),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+create table if not exists public.floor_plan_tables (
+  floor_plan_id bigint not null references public.floor_plans (id) on delete cascade,
+  table_id integer not null references public.tables (id) on delete cascade,
+  shape text not null default 'square' check (shape in ('round', 'square', 'rectangle')),
+  x integer not null check (x >= 0),
+  y integer not null check (y >= 0),
+  width integer not null default 80 check (width between 30 and 400),
+  height integer not null default 80 check (height between 30 and 400),
+  rotation smallint not null default 0 check (rotation between 0 and 359),
+  primary key (floor_plan_id, table_id)
+);
+
+-- Replace a branch's plan in one go, creating it on first save.
+-- p_tables: [{ table_id, shape, x, y, width, height, rotation }]
+create or replace function public.save_floor_plan(
+  p_branch_id integer,
+  p_width integer,
+  p_height integer,
+  p_tables jsonb
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_plan_id bigint;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to edit the floor plan' using errcode = '42501';
+  end if;
+
+  if jsonb_typeof(coalesce(p_tables, '[]'::jsonb)) <> 'array' then
+    raise exception 'Floor plan tables must be a list'
+      using errcode = '22023', hint = 'INVALID_FLOOR_PLAN';
+  end if;
+
+  insert into floor_plans (branch_id, width, height, updated_by)
+  values (p_branch_id, p_width, p_height, auth.uid())
+  on conflict (branch_id) do update
+    set width = excluded.width,
+        height = excluded.height,
+        updated_at = now(),
+        updated_by = excluded.updated_by
+  returning id into v_plan_id;
+
+  delete from floor_plan_tables where floor_plan_id = v_plan_id;
+
+  insert into floor_plan_tables (floor_plan_id, table_id, shape, x, y, width, height, rotation)
+  select v_plan_id,
+         (t ->> 'table_id')::integer,
+         coalesce(t ->> 'shape', 'square'),
+         least(greatest((t ->> 'x')::integer, 0), p_width),
+         least(greatest((t ->> 'y')::integer, 0), p_height),
+         coalesce((t ->> 'width')::integer, 80),
+         coalesce((t ->> 'height')::integer, 80),
+         ((coalesce((t ->> 'rotation')::integer, 0) % 360) + 360) % 360
+  from jsonb_array_elements(coalesce(p_tables, '[]'::jsonb)) as t
+  where exists (select 1 from tables where id = (t ->> 'table_id')::integer);
+
+  return v_plan_id;
+end;
+$$;
+
+revoke all on table public.floor_plans from anon;
+revoke all on table public.floor_plan_tables from anon;
+grant execute on function public.save_floor_plan(integer, integer, integer, jsonb) to authenticated;
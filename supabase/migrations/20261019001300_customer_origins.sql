@@ -0,0 +1,23 @@
+-- Where table QR codes send diners, per branch and deployment environment.
+-- Codes generated on a staging or local deployment must not point at
+-- production, so each environment keeps its own origin. Origins are scheme
+-- and host only (plus an optional port); the menu path is added by the app.
+
+create table if not exists public.customer_origins (
+  branch_id integer not null default 1,
+  environment text not null check (environment in ('production', 'staging', 'development')),
+  origin text not null check (
+    origin ~ '^https://[a-z0-9.-]+(:[0-9]{1,5})?$'
+    or origin ~ '^http://(localhost|127\.0\.0\.1)(:[0-9]{1,5})?$'
+  ),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null,
+  primary key (branch_id, environment)
+);
+
+-- Keep the production origin the QR codes used before this setting existed
+insert into public.customer_origins (branch_id, environment, origin)
+values (1, 'production', 'https://dhome-makers.vercel.app')
+on conflict do nothing;
+
+revoke all on table public.customer_origins from anon;
@@ -0,0 +1,213 @@
+-- Split bills. An order can be paid as several shares instead of one bill:
+--   items  each order line (or some of its units) is assigned to a payer
+--   seats  lines are tagged with a seat number and each seat pays its lines
+--   even   the total is divided equally between N payers
+-- Shares always add up to orders.total_amount, so order and sales totals do
+-- not change; an order with shares can only be completed once all are paid.
+
+alter table public.order_items
+  add column if not exists seat_no smallint check (seat_no between 1 and 50);
+
+create table if not exists public.bill_shares (
+  id bigint generated always as identity primary key,
+  order_id bigint not null references public.orders (id) on delete cascade,
+  split_method text not null check (split_method in ('items', 'seats', 'even')),
+  -- 1-based position of the payer, e.g. "Payer 2 of 3"
+  payer_no smallint not null check (payer_no > 0),
+  label text not null,
+  seat_no smallint check (seat_no between 1 and 50),
+  amount numeric(10, 2) not null check (amount >= 0),
+  paid_at timestamptz,
+  paid_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (order_id, payer_no)
+);
+
+-- Units of each order line a share pays for; empty for even splits
+create table if not exists public.bill_share_items (
+  share_id bigint not null references public.bill_shares (id) on delete cascade,
+  order_item_id bigint not null references public.order_items (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  primary key (share_id, order_item_id)
+);
+
+create index if not exists bill_shares_order_id_idx on public.bill_shares (order_id);
+
+-- Replace an order's split in one go.
+-- p_shares: [{ label, seat_no?, amount, items?: [{ order_item_id, quantity }] }]
+create or replace function public.split_order_bill(
+  p_order_id bigint,
+  p_method text,
+  p_shares jsonb
+)
+returns setof public.bill_shares
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_share jsonb;
+  v_share_id bigint;
+  v_payer smallint := 0;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to split bills' using errcode = '42501';
+  end if;
+
+  select * into v_order from orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.status in ('completed', 'cancelled', 'voided') then
+    raise exception 'Order % is already %', p_order_id, v_order.status
+      using errcode = '22023', hint = 'ORDER_CLOSED';
+  end if;
+
+  if p_method not in ('items', 'seats', 'even') then
+    raise exception 'Unknown split method %', p_method
+      using errcode = '22023', hint = 'INVALID_SPLIT';
+  end if;
+
+  if jsonb_typeof(p_shares) <> 'array' or jsonb_array_length(p_shares) < 2 then
+    raise exception 'A split bill needs at least two payers'
+      using errcode = '22023', hint = 'INVALID_SPLIT';
+  end if;
+
+  if exists (select 1 from bill_shares where order_id = p_order_id and paid_at is not null) then
+    raise exception 'Part of this bill is already paid; it cannot be split again'
+      using errcode = '22023', hint = 'BILL_ALREADY_PAID';
+  end if;
+
+  if (select sum((s ->> 'amount')::numeric) from jsonb_array_elements(p_shares) s)
+    <> v_order.total_amount then
+    raise exception 'The shares must add up to the order total of %', v_order.total_amount
+      using errcode = '22023', hint = 'SPLIT_TOTAL_MISMATCH';
+  end if;
+
+  -- Item and seat splits must cover every unit of every line exactly once
+  if p_method <> 'even' and exists (
+    select 1
+    from (select id, quantity from order_items where order_id = p_order_id) oi
+    full join (
+      select (i ->> 'order_item_id')::bigint as order_item_id,
+             sum((i ->> 'quantity')::integer) as quantity
+      from jsonb_array_elements(p_shares) s,
+           jsonb_array_elements(coalesce(s -> 'items', '[]'::jsonb)) i
+      group by 1
+    ) assigned on assigned.order_item_id = oi.id
+    where oi.quantity is distinct from assigned.quantity
+  ) then
+    raise exception 'Every item on the order must be assigned to exactly one payer'
+      using errcode = '22023', hint = 'SPLIT_ITEMS_MISMATCH';
+  end if;
+
+  delete from bill_shares where order_id = p_order_id;
+
+  for v_share in select * from jsonb_array_elements(p_shares) loop
+    v_payer := v_payer + 1;
+
+    insert into bill_shares (order_id, split_method, payer_no, label, seat_no, amount)
+    values (
+      p_order_id,
+      p_method,
+      v_payer,
+      coalesce(nullif(trim(v_share ->> 'label'), ''), 'Payer ' || v_payer),
+      (v_share ->> 'seat_no')::smallint,
+      (v_share ->> 'amount')::numeric
+    )
+    returning id into v_share_id;
+
+    insert into bill_share_items (share_id, order_item_id, quantity)
+    select v_share_id, (i ->> 'order_item_id')::bigint, (i ->> 'quantity')::integer
+    from jsonb_array_elements(coalesce(v_share -> 'items', '[]'::jsonb)) i;
+
+    if p_method = 'seats' then
+      update order_items
+      set seat_no = (v_share ->> 'seat_no')::smallint
+      where order_id = p_order_id
+        and id in (
+          select (i ->> 'order_item_id')::bigint
+          from jsonb_array_elements(coalesce(v_share -> 'items', '[]'::jsonb)) i
+        );
+    end if;
+  end loop;
+
+  return query select * from bill_shares where order_id = p_order_id order by payer_no;
+end;
+$$;
+
+-- Go back to a single bill, as long as nobody has paid yet
+create or replace function public.clear_order_bill_split(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to split bills' using errcode = '42501';
+  end if;
+
+  if exists (select 1 from bill_shares where order_id = p_order_id and paid_at is not null) then
+    raise exception 'Part of this bill is already paid; it cannot be merged again'
+      using errcode = '22023', hint = 'BILL_ALREADY_PAID';
+  end if;
+
+  delete from bill_shares where order_id = p_order_id;
+end;
+$$;
+
+create or replace function public.mark_bill_share_paid(p_share_id bigint)
+returns public.bill_shares
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_share bill_shares;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to take payments' using errcode = '42501';
+  end if;
+
+  update bill_shares
+  set paid_at = coalesce(paid_at, now()),
+      paid_by = coalesce(paid_by, auth.uid())
+  where id = p_share_id
+  returning * into v_share;
+
+  if not found then
+    raise exception 'Bill share % not found', p_share_id using errcode = 'P0002';
+  end if;
+
+  return v_share;
+end;
+$$;
+
+-- A split order is only complete once every share is paid
+create or replace function public.enforce_bill_shares_paid()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'completed' and old.status is distinct from 'completed'
+    and exists (select 1 from public.bill_shares where order_id = new.id and paid_at is null) then
+    raise exception 'Order % still has unpaid shares of its split bill', new.id
+      using errcode = 'P0001', hint = 'BILL_NOT_SETTLED';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_bill_shares_paid on public.orders;
+create trigger orders_bill_shares_paid
+  before update of status on public.orders
+  for each row execute function public.enforce_bill_shares_paid();
+
+revoke all on table public.bill_shares from anon;
+revoke all on table public.bill_share_items from anon;
+grant execute on function public.split_order_bill(bigint, text, jsonb) to authenticated;
+grant execute on function public.clear_order_bill_split(bigint) to authenticated;
+grant execute on function public.mark_bill_share_paid(bigint) to authenticated;
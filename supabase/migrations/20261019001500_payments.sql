@@ -0,0 +1,192 @@
+-- Payments. Each row is one tender taken against an order (or one share of
+-- a split bill): cash with the amount handed over and the change given back,
+-- or an e-wallet / card payment with its reference number. Several tenders
+-- can settle one bill, and a bill can be paid in parts; an order can only be
+-- completed once its tenders cover the total.
+
+create table if not exists public.order_payments (
+  id bigint generated always as identity primary key,
+  order_id bigint not null references public.orders (id) on delete cascade,
+  bill_share_id bigint references public.bill_shares (id) on delete set null,
+  method text not null check (method in ('cash', 'ewallet', 'card')),
+  -- Part of the bill this tender settles
+  amount numeric(10, 2) not null check (amount > 0),
+  -- What the customer handed over; more than amount only for cash
+  tendered numeric(10, 2) not null,
+  change_given numeric(10, 2) generated always as (tendered - amount) stored,
+  reference text,
+  received_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (tendered >= amount),
+  check (method = 'cash' or tendered = amount),
+  check (method = 'cash' or nullif(trim(reference), '') is not null)
+);
+
+create index if not exists order_payments_order_id_idx on public.order_payments (order_id);
+create index if not exists order_payments_created_at_idx on public.order_payments (created_at);
+
+-- Record the tenders for an order, or for one share of its split bill.
+-- p_tenders: [{ method, amount, tendered?, reference? }]
+create or replace function public.record_order_payment(
+  p_order_id bigint,
+  p_tenders jsonb,
+  p_share_id bigint default null
+)
+returns setof public.order_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_share bill_shares;
+  v_tender jsonb;
+  v_method text;
+  v_amount numeric;
+  v_due numeric;
+  v_total numeric := 0;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to take payments' using errcode = '42501';
+  end if;
+
+  select * into v_order from orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.status in ('completed', 'cancelled', 'voided') then
+    raise exception 'Order % is already %', p_order_id, v_order.status
+      using errcode = '22023', hint = 'ORDER_CLOSED';
+  end if;
+
+  if jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'A payment needs at least one tender'
+      using errcode = '22023', hint = 'INVALID_TENDER';
+  end if;
+
+  if p_share_id is not null then
+    select * into v_share from bill_shares
+    where id = p_share_id and order_id = p_order_id
+    for update;
+
+    if not found then
+      raise exception 'Bill share % is not part of order %', p_share_id, p_order_id
+        using errcode = 'P0002';
+    end if;
+
+    v_due := v_share.amount - coalesce(
+      (select sum(amount) from order_payments where bill_share_id = p_share_id), 0);
+  elsif exists (select 1 from bill_shares where order_id = p_order_id) then
+    raise exception 'Order % has a split bill; take payment for each share'
+      using errcode = '22023', hint = 'BILL_IS_SPLIT';
+  else
+    v_due := v_order.total_amount - coalesce(
+      (select sum(amount) from order_payments where order_id = p_order_id), 0);
+  end if;
+
+  for v_tender in select * from jsonb_array_elements(p_tenders) loop
+    v_method := v_tender ->> 'method';
+    v_amount := (v_tender ->> 'amount')::numeric;
+
+    if v_method not in ('cash', 'ewallet', 'card') then
+      raise exception 'Unknown payment method %', v_method
+        using errcode = '22023', hint = 'INVALID_TENDER';
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Each tender must be for more than zero'
+        using errcode = '22023', hint = 'INVALID_TENDER';
+    end if;
+
+    if v_method <> 'cash' and nullif(trim(v_tender ->> 'reference'), '') is null then
+      raise exception 'E-wallet and card payments need a reference number'
+        using errcode = '22023', hint = 'REFERENCE_REQUIRED';
+    end if;
+
+    if v_method = 'cash' and coalesce((v_tender ->> 'tendered')::numeric, v_amount) < v_amount then
+      raise exception 'Cash handed over is less than the amount it pays'
+        using errcode = '22023', hint = 'INVALID_TENDER';
+    end if;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  if v_total > v_due then
+    raise exception 'Tenders of % are more than the % still due', v_total, v_due
+      using errcode = '22023', hint = 'OVERPAYMENT';
+  end if;
+
+  insert into order_payments (order_id, bill_share_id, method, amount, tendered, reference, received_by)
+  select
+    p_order_id,
+    p_share_id,
+    t ->> 'method',
+    (t ->> 'amount')::numeric,
+    case when t ->> 'method' = 'cash'
+      then coalesce((t ->> 'tendered')::numeric, (t ->> 'amount')::numeric)
+      else (t ->> 'amount')::numeric
+    end,
+    nullif(trim(t ->> 'reference'), ''),
+    auth.uid()
+  from jsonb_array_elements(p_tenders) t;
+
+  -- A share is paid once its tenders cover it
+  if p_share_id is not null and v_total = v_due then
+    update bill_shares
+    set paid_at = now(),
+        paid_by = auth.uid()
+    where id = p_share_id;
+  end if;
+
+  return query select * from order_payments where order_id = p_order_id order by created_at, id;
+end;
+$$;
+
+-- Shares are now paid through their tenders
+drop function if exists public.mark_bill_share_paid(bigint);
+
+-- Once money has been taken the bill can no longer be (re)split
+create or replace function public.prevent_split_after_payment()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from public.order_payments where order_id = new.order_id) then
+    raise exception 'Part of this bill is already paid; it cannot be split again'
+      using errcode = '22023', hint = 'BILL_ALREADY_PAID';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bill_shares_unpaid_order on public.bill_shares;
+create trigger bill_shares_unpaid_order
+  before insert on public.bill_shares
+  for each row execute function public.prevent_split_after_payment();
+
+-- An order is only complete once it is paid in full
+create or replace function public.enforce_order_paid()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'completed' and old.status is distinct from 'completed'
+    and coalesce((select sum(amount) from public.order_payments where order_id = new.id), 0)
+      < new.total_amount then
+    raise exception 'Order % has not been paid in full', new.id
+      using errcode = 'P0001', hint = 'ORDER_NOT_PAID';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_paid_before_completion on public.orders;
+create trigger orders_paid_before_completion
+  before update of status on public.orders
+  for each row execute function public.enforce_order_paid();
+
+revoke all on table public.order_payments from anon;
+revoke insert, update, delete on table public.order_payments from authenticated;
+grant select on table public.order_payments to authenticated;
+grant execute on function public.record_order_payment(bigint, jsonb, bigint) to authenticated;
@@ -0,0 +1,401 @@
+-- Online payments. Customers can pay from their phones through a payment
+-- provider (e-wallet / QR). Each attempt is a payment intent: the provider
+-- confirms it by webhook (confirm_payment_intent, service role only) or, for
+-- the local simulator, by simulate_payment_result. A confirmed intent becomes
+-- an e-wallet tender in order_payments.
+--
+-- With "pay first" on, orders are placed with payment_required set and stay
+-- pending, out of the kitchen, until they are paid; payment confirms them.
+
+create table if not exists public.payment_settings (
+  branch_id integer primary key default 1,
+  pay_first boolean not null default false,
+  provider text not null default 'simulator' check (provider in ('simulator')),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+insert into public.payment_settings (branch_id) values (1)
+on conflict (branch_id) do nothing;
+
+alter table public.orders
+  add column if not exists payment_required boolean not null default false;
+
+create table if not exists public.payment_intents (
+  id uuid primary key default gen_random_uuid(),
+  order_id bigint not null references public.orders (id) on delete cascade,
+  provider text not null,
+  -- The provider's own id for the payment, shown as the reference number
+  provider_ref text,
+  amount numeric(10, 2) not null check (amount > 0),
+  status text not null default 'requires_payment'
+    check (status in ('requires_payment', 'succeeded', 'failed', 'expired', 'refunded')),
+  checkout_url text,
+  failure_reason text,
+  expires_at timestamptz not null,
+  confirmed_at timestamptz,
+  refunded_at timestamptz,
+  refunded_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payment_intents_order_id_idx on public.payment_intents (order_id);
+
+alter table public.order_payments
+  add column if not exists payment_intent_id uuid references public.payment_intents (id) on delete set null;
+
+-- Orders follow the branch's pay-first setting at the moment they are placed.
+-- Orders are not per-branch yet, so the first branch's setting applies.
+create or replace function public.set_order_payment_required()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.payment_required := coalesce(
+    (select pay_first from payment_settings order by branch_id limit 1),
+    false
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_payment_required on public.orders;
+create trigger orders_payment_required
+  before insert on public.orders
+  for each row execute function public.set_order_payment_required();
+
+-- A pay-first order only reaches the kitchen once it is paid
+create or replace function public.enforce_pay_first()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.payment_required
+    and old.status = 'pending'
+    and new.status in ('confirmed', 'preparing')
+    and coalesce((select sum(amount) from public.order_payments where order_id = new.id), 0)
+      < new.total_amount then
+    raise exception 'Order % must be paid before it goes to the kitchen', new.id
+      using errcode = 'P0001', hint = 'PAYMENT_REQUIRED';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_pay_first on public.orders;
+create trigger orders_pay_first
+  before update of status on public.orders
+  for each row execute function public.enforce_pay_first();
+
+-- Intents that ran out of time without being paid
+create or replace function private.expire_payment_intents(p_order_id bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update payment_intents
+  set status = 'expired', failure_reason = coalesce(failure_reason, 'Payment timed out')
+  where order_id = p_order_id
+    and status = 'requires_payment'
+    and expires_at <= now();
+$$;
+
+-- The order an open table session may pay for
+create or replace function private.session_order(p_session_key uuid, p_order_id bigint)
+returns orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+begin
+  select o.* into v_order
+  from orders o
+  join table_sessions s on s.id = o.table_session_id
+  where o.id = p_order_id
+    and s.session_key = p_session_key
+  for update of o;
+
+  if not found then
+    raise exception 'Order % is not part of your table session', p_order_id
+      using errcode = '42501', hint = 'SESSION_EXPIRED';
+  end if;
+
+  return v_order;
+end;
+$$;
+
+-- Start paying for an order from the customer's phone. Reuses the order's
+-- open intent if there is one.
+create or replace function public.create_payment_intent(
+  p_session_key uuid,
+  p_order_id bigint,
+  p_provider text,
+  p_expires_in_seconds integer default 900
+)
+returns public.payment_intents
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_intent payment_intents;
+  v_due numeric;
+begin
+  v_order := private.session_order(p_session_key, p_order_id);
+
+  if v_order.status in ('completed', 'cancelled', 'voided') then
+    raise exception 'Order % is already %', p_order_id, v_order.status
+      using errcode = '22023', hint = 'ORDER_CLOSED';
+  end if;
+
+  if p_provider is distinct from (select provider from payment_settings order by branch_id limit 1) then
+    raise exception 'Payments through % are not available', p_provider
+      using errcode = '22023', hint = 'PROVIDER_UNAVAILABLE';
+  end if;
+
+  perform private.expire_payment_intents(p_order_id);
+
+  v_due := v_order.total_amount - coalesce(
+    (select sum(amount) from order_payments where order_id = p_order_id), 0);
+
+  -- Items added to a pending order change what is due
+  update payment_intents
+  set status = 'failed', failure_reason = 'The order changed before it was paid'
+  where order_id = p_order_id
+    and status = 'requires_payment'
+    and amount <> v_due;
+
+  select * into v_intent
+  from payment_intents
+  where order_id = p_order_id and status = 'requires_payment'
+  order by created_at desc
+  limit 1;
+
+  if found then
+    return v_intent;
+  end if;
+
+  if v_due <= 0 then
+    raise exception 'Order % is already paid', p_order_id
+      using errcode = '22023', hint = 'ALREADY_PAID';
+  end if;
+
+  insert into payment_intents (order_id, provider, provider_ref, amount, expires_at)
+  values (
+    p_order_id,
+    p_provider,
+    upper(p_provider) || '-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10)),
+    v_due,
+    now() + make_interval(secs => least(greatest(coalesce(p_expires_in_seconds, 900), 10), 1800))
+  )
+  returning * into v_intent;
+
+  return v_intent;
+end;
+$$;
+
+-- Poll an intent from the customer's phone
+create or replace function public.get_payment_intent(p_session_key uuid, p_intent_id uuid)
+returns public.payment_intents
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_intent payment_intents;
+begin
+  select * into v_intent from payment_intents where id = p_intent_id;
+  if not found then
+    raise exception 'Payment % not found', p_intent_id using errcode = 'P0002';
+  end if;
+
+  perform private.session_order(p_session_key, v_intent.order_id);
+  perform private.expire_payment_intents(v_intent.order_id);
+
+  select * into v_intent from payment_intents where id = p_intent_id;
+  return v_intent;
+end;
+$$;
+
+-- Record the provider's verdict on an intent. Success adds the e-wallet
+-- tender and sends a waiting pay-first order to the kitchen.
+create or replace function private.settle_payment_intent(
+  p_intent_id uuid,
+  p_succeeded boolean,
+  p_provider_ref text default null,
+  p_failure_reason text default null
+)
+returns public.payment_intents
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_intent payment_intents;
+  v_order orders;
+begin
+  select * into v_intent from payment_intents where id = p_intent_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_intent_id using errcode = 'P0002';
+  end if;
+
+  -- Webhooks are retried, so settling twice is a no-op
+  if v_intent.status <> 'requires_payment' then
+    return v_intent;
+  end if;
+
+  if not p_succeeded then
+    update payment_intents
+    set status = 'failed',
+        failure_reason = coalesce(p_failure_reason, 'Payment was declined')
+    where id = p_intent_id
+    returning * into v_intent;
+    return v_intent;
+  end if;
+
+  update payment_intents
+  set status = 'succeeded',
+      confirmed_at = now(),
+      provider_ref = coalesce(p_provider_ref, provider_ref)
+  where id = p_intent_id
+  returning * into v_intent;
+
+  insert into order_payments (order_id, method, amount, tendered, reference, payment_intent_id)
+  values (v_intent.order_id, 'ewallet', v_intent.amount, v_intent.amount, v_intent.provider_ref, v_intent.id);
+
+  select * into v_order from orders where id = v_intent.order_id for update;
+  if v_order.payment_required
+    and v_order.status = 'pending'
+    and (select sum(amount) from order_payments where order_id = v_order.id) >= v_order.total_amount then
+    update orders set status = 'confirmed' where id = v_order.id;
+  end if;
+
+  return v_intent;
+end;
+$$;
+
+-- Called by the provider's webhook handler with the service role key
+create or replace function public.confirm_payment_intent(
+  p_intent_id uuid,
+  p_succeeded boolean,
+  p_provider_ref text default null,
+  p_failure_reason text default null
+)
+returns public.payment_intents
+language sql
+security definer
+set search_path = public
+as $$
+  select private.settle_payment_intent(p_intent_id, p_succeeded, p_provider_ref, p_failure_reason);
+$$;
+
+-- The local simulator stands in for the provider's webhook. It only works
+-- while the branch is set to use the simulator.
+create or replace function public.simulate_payment_result(
+  p_session_key uuid,
+  p_intent_id uuid,
+  p_outcome text
+)
+returns public.payment_intents
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_intent payment_intents;
+begin
+  select * into v_intent from payment_intents where id = p_intent_id;
+  if not found then
+    raise exception 'Payment % not found', p_intent_id using errcode = 'P0002';
+  end if;
+
+  perform private.session_order(p_session_key, v_intent.order_id);
+
+  if v_intent.provider <> 'simulator'
+    or (select provider from payment_settings order by branch_id limit 1) <> 'simulator' then
+    raise exception 'The payment simulator is not enabled'
+      using errcode = '42501', hint = 'PROVIDER_UNAVAILABLE';
+  end if;
+
+  if p_outcome not in ('succeed', 'fail') then
+    raise exception 'Unknown simulator outcome %', p_outcome
+      using errcode = '22023', hint = 'INVALID_OUTCOME';
+  end if;
+
+  perform private.expire_payment_intents(v_intent.order_id);
+
+  return private.settle_payment_intent(
+    p_intent_id,
+    p_outcome = 'succeed',
+    null,
+    case when p_outcome = 'fail' then 'Declined by the payment simulator' end
+  );
+end;
+$$;
+
+-- Staff give the money back, e.g. when a paid order is rejected. The tender
+-- is removed so the order no longer counts as paid; the intent keeps the
+-- record of the refund.
+create or replace function public.refund_payment_intent(p_intent_id uuid)
+returns public.payment_intents
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_intent payment_intents;
+  v_order orders;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to refund payments' using errcode = '42501';
+  end if;
+
+  select * into v_intent from payment_intents where id = p_intent_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_intent_id using errcode = 'P0002';
+  end if;
+
+  if v_intent.status <> 'succeeded' then
+    raise exception 'Only successful payments can be refunded'
+      using errcode = '22023', hint = 'NOT_REFUNDABLE';
+  end if;
+
+  select * into v_order from orders where id = v_intent.order_id;
+  if v_order.status = 'completed' then
+    raise exception 'Void order % before refunding it', v_order.id
+      using errcode = '22023', hint = 'NOT_REFUNDABLE';
+  end if;
+
+  delete from order_payments where payment_intent_id = p_intent_id;
+
+  update payment_intents
+  set status = 'refunded',
+      refunded_at = now(),
+      refunded_by = auth.uid()
+  where id = p_intent_id
+  returning * into v_intent;
+
+  return v_intent;
+end;
+$$;
+
+revoke all on table public.payment_intents from anon;
+revoke insert, update, delete on table public.payment_intents from authenticated;
+grant select on table public.payment_intents to authenticated;
+
+-- Customers read the settings to know whether to pay up front
+revoke insert, update, delete on table public.payment_settings from anon;
+grant select on table public.payment_settings to anon, authenticated;
+
+revoke all on function public.confirm_payment_intent(uuid, boolean, text, text) from public, anon, authenticated;
+grant execute on function public.confirm_payment_intent(uuid, boolean, text, text) to service_role;
+grant execute on function public.create_payment_intent(uuid, bigint, text, integer) to anon, authenticated;
+grant execute on function public.get_payment_intent(uuid, uuid) to anon, authenticated;
+grant execute on function public.simulate_payment_result(uuid, uuid, text) to anon, authenticated;
+grant execute on function public.refund_payment_intent(uuid) to authenticated;
@@ -0,0 +1,299 @@
+-- VAT, service charge and senior citizen / PWD discounts. Menu prices are
+-- VAT-inclusive by default; some items (e.g. unprocessed goods) are sold
+-- VAT-exempt. Every order is priced from its lines by private.price_order:
+--
+--   vatable_sales     lines that carry VAT, net of VAT
+--   vat_amount        the VAT on them
+--   vat_exempt_sales  VAT-exempt lines, plus the eligible diners' share net of VAT
+--   discount_amount   the 20% statutory discount on the eligible diners' share
+--   service_charge    on sales net of VAT, before discounts
+--   total_amount      what the table pays
+--
+-- A group bill is discounted per eligible diner: with 4 diners and one
+-- senior, a quarter of the bill is VAT-exempt and gets the 20% discount.
+-- Each discount records the holder's ID number for the BIR sales book.
+
+create table if not exists public.pricing_settings (
+  branch_id integer primary key default 1,
+  vat_rate numeric(5, 4) not null default 0.12 check (vat_rate >= 0 and vat_rate < 1),
+  prices_include_vat boolean not null default true,
+  service_charge_rate numeric(5, 4) not null default 0
+    check (service_charge_rate >= 0 and service_charge_rate <= 0.3),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+insert into public.pricing_settings (branch_id) values (1)
+on conflict (branch_id) do nothing;
+
+alter table public.menu
+  add column if not exists vat_exempt boolean not null default false;
+
+alter table public.orders
+  add column if not exists headcount smallint not null default 1 check (headcount between 1 and 50),
+  add column if not exists subtotal numeric(10, 2) not null default 0,
+  add column if not exists vatable_sales numeric(10, 2) not null default 0,
+  add column if not exists vat_amount numeric(10, 2) not null default 0,
+  add column if not exists vat_exempt_sales numeric(10, 2) not null default 0,
+  add column if not exists discount_amount numeric(10, 2) not null default 0,
+  add column if not exists service_charge numeric(10, 2) not null default 0;
+
+-- Orders placed so far were plain VAT-inclusive sums
+update public.orders
+set subtotal = total_amount,
+    vatable_sales = round(total_amount / 1.12, 2),
+    vat_amount = total_amount - round(total_amount / 1.12, 2)
+where subtotal = 0 and total_amount > 0;
+
+create table if not exists public.order_discounts (
+  id bigint generated always as identity primary key,
+  order_id bigint not null references public.orders (id) on delete cascade,
+  discount_type text not null check (discount_type in ('senior', 'pwd')),
+  -- OSCA or PWD ID number as shown on the card
+  id_number text not null check (length(trim(id_number)) > 0),
+  holder_name text,
+  amount numeric(10, 2) not null default 0,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (order_id, id_number)
+);
+
+create index if not exists order_discounts_order_id_idx on public.order_discounts (order_id);
+
+-- Price an open order from its lines, its discounts and the branch's
+-- settings. Orders are not per-branch yet, so the first branch's settings
+-- apply. Closed orders keep the prices they were paid at.
+create or replace function private.price_order(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_vat_rate numeric := 0.12;
+  v_includes_vat boolean := true;
+  v_service_rate numeric := 0;
+  v_vatable_gross numeric;
+  v_exempt_gross numeric;
+  v_net_vatable numeric;
+  v_eligible integer;
+  v_share numeric;
+  v_eligible_net numeric;
+  v_remaining_gross numeric;
+  v_vatable_sales numeric;
+  v_vat numeric;
+  v_exempt_sales numeric;
+  v_discount numeric;
+  v_service numeric;
+  v_discount_cents bigint;
+begin
+  select * into v_order from orders where id = p_order_id for update;
+  if not found or v_order.status in ('completed', 'cancelled', 'voided') then
+    return;
+  end if;
+
+  select vat_rate, prices_include_vat, service_charge_rate
+  into v_vat_rate, v_includes_vat, v_service_rate
+  from pricing_settings
+  order by branch_id
+  limit 1;
+
+  v_vat_rate := coalesce(v_vat_rate, 0.12);
+  v_includes_vat := coalesce(v_includes_vat, true);
+  v_service_rate := coalesce(v_service_rate, 0);
+
+  -- Bundle components carry their share of the bundle price
+  select
+    coalesce(sum(l.amount) filter (where not l.vat_exempt), 0),
+    coalesce(sum(l.amount) filter (where l.vat_exempt), 0)
+  into v_vatable_gross, v_exempt_gross
+  from (
+    select
+      coalesce(m.vat_exempt, false) as vat_exempt,
+      case
+        when oi.allocated_amount is not null then oi.allocated_amount
+        else (
+          coalesce(m.price, 0) + coalesce((
+            select sum((x ->> 'price_delta')::numeric)
+            from jsonb_array_elements(oi.modifiers) x
+          ), 0)
+        ) * oi.quantity
+      end as amount
+    from order_items oi
+    left join menu m on m.id = oi.meal_id
+    where oi.order_id = p_order_id
+  ) l;
+
+  select count(*) into v_eligible from order_discounts where order_id = p_order_id;
+  v_share := least(v_eligible, v_order.headcount)::numeric / v_order.headcount;
+
+  v_net_vatable := case when v_includes_vat then v_vatable_gross / (1 + v_vat_rate) else v_vatable_gross end;
+  v_eligible_net := (v_net_vatable + v_exempt_gross) * v_share;
+  v_remaining_gross := case
+    when v_includes_vat then v_vatable_gross * (1 - v_share)
+    else v_net_vatable * (1 - v_share) * (1 + v_vat_rate)
+  end;
+
+  v_vatable_sales := round(v_remaining_gross / (1 + v_vat_rate), 2);
+  v_vat := round(v_remaining_gross, 2) - v_vatable_sales;
+  v_exempt_sales := round(v_eligible_net + v_exempt_gross * (1 - v_share), 2);
+  v_discount := round(v_eligible_net * 0.20, 2);
+  v_service := round((v_vatable_sales + v_exempt_sales) * v_service_rate, 2);
+
+  update orders
+  set subtotal = round(v_vatable_gross + v_exempt_gross, 2),
+      vatable_sales = v_vatable_sales,
+      vat_amount = v_vat,
+      vat_exempt_sales = v_exempt_sales,
+      discount_amount = v_discount,
+      service_charge = v_service,
+      total_amount = v_vatable_sales + v_vat + v_exempt_sales - v_discount + v_service
+  where id = p_order_id;
+
+  -- Each holder gets an equal part of the discount, leftover centavos first
+  if v_eligible > 0 then
+    v_discount_cents := round(v_discount * 100);
+
+    with ranked as (
+      select id, row_number() over (order by id) as rn
+      from order_discounts
+      where order_id = p_order_id
+    )
+    update order_discounts d
+    set amount = (
+      v_discount_cents / v_eligible
+      + case when r.rn <= v_discount_cents % v_eligible then 1 else 0 end
+    )::numeric / 100
+    from ranked r
+    where r.id = d.id;
+  end if;
+end;
+$$;
+
+create or replace function public.reprice_order_from_items()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform private.price_order(coalesce(new.order_id, old.order_id));
+  return null;
+end;
+$$;
+
+drop trigger if exists order_items_price_order on public.order_items;
+create trigger order_items_price_order
+  after insert or delete or update of quantity, meal_id, modifiers, allocated_amount
+  on public.order_items
+  for each row execute function public.reprice_order_from_items();
+
+-- Staff record the senior citizen / PWD diners at a table and how many
+-- diners share the bill. Replaces any discounts recorded before, so it is
+-- also how discounts are removed. Must happen before payment is taken and
+-- before the bill is split.
+create or replace function public.apply_order_discounts(
+  p_order_id bigint,
+  p_headcount integer,
+  p_discounts jsonb
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_discounts jsonb := coalesce(p_discounts, '[]'::jsonb);
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to apply discounts' using errcode = '42501';
+  end if;
+
+  select * into v_order from orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id using errcode = 'P0002';
+  end if;
+
+  if v_order.status in ('completed', 'cancelled', 'voided') then
+    raise exception 'Order % is already %', p_order_id, v_order.status
+      using errcode = '22023', hint = 'ORDER_CLOSED';
+  end if;
+
+  if exists (select 1 from order_payments where order_id = p_order_id) then
+    raise exception 'Apply discounts before taking payment for order %', p_order_id
+      using errcode = '22023', hint = 'BILL_ALREADY_PAID';
+  end if;
+
+  if exists (select 1 from bill_shares where order_id = p_order_id) then
+    raise exception 'Clear the split bill of order % before applying discounts', p_order_id
+      using errcode = '22023', hint = 'BILL_SPLIT';
+  end if;
+
+  if p_headcount is null or p_headcount < 1 or p_headcount > 50 then
+    raise exception 'Enter how many diners share the bill (1 to 50)'
+      using errcode = '22023', hint = 'INVALID_HEADCOUNT';
+  end if;
+
+  if jsonb_typeof(v_discounts) <> 'array' then
+    raise exception 'Discounts must be a list'
+      using errcode = '22023', hint = 'INVALID_DISCOUNT';
+  end if;
+
+  if jsonb_array_length(v_discounts) > p_headcount then
+    raise exception 'There are more discounts than diners'
+      using errcode = '22023', hint = 'TOO_MANY_DISCOUNTS';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(v_discounts) d
+    where coalesce(d ->> 'discount_type', '') not in ('senior', 'pwd')
+  ) then
+    raise exception 'Discounts must be for a senior citizen or a PWD'
+      using errcode = '22023', hint = 'INVALID_DISCOUNT';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(v_discounts) d
+    where nullif(trim(d ->> 'id_number'), '') is null
+  ) then
+    raise exception 'Every senior citizen or PWD discount needs the ID number'
+      using errcode = '22023', hint = 'DISCOUNT_ID_REQUIRED';
+  end if;
+
+  if (select count(distinct upper(trim(d ->> 'id_number'))) from jsonb_array_elements(v_discounts) d)
+    < jsonb_array_length(v_discounts) then
+    raise exception 'The same ID number was entered twice'
+      using errcode = '22023', hint = 'DUPLICATE_DISCOUNT_ID';
+  end if;
+
+  delete from order_discounts where order_id = p_order_id;
+
+  insert into order_discounts (order_id, discount_type, id_number, holder_name, created_by)
+  select
+    p_order_id,
+    d ->> 'discount_type',
+    upper(trim(d ->> 'id_number')),
+    nullif(trim(d ->> 'holder_name'), ''),
+    auth.uid()
+  from jsonb_array_elements(v_discounts) d;
+
+  update orders set headcount = p_headcount where id = p_order_id;
+
+  perform private.price_order(p_order_id);
+
+  select * into v_order from orders where id = p_order_id;
+  return v_order;
+end;
+$$;
+
+revoke insert, update, delete on table public.order_discounts from anon, authenticated;
+grant select on table public.order_discounts to authenticated;
+
+-- Customers read the settings to preview service charge and VAT
+revoke insert, update, delete on table public.pricing_settings from anon;
+grant select on table public.pricing_settings to anon, authenticated;
+
+revoke all on function public.apply_order_discounts(bigint, integer, jsonb) from public, anon;
+grant execute on function public.apply_order_discounts(bigint, integer, jsonb) to authenticated;
@@ -0,0 +1,230 @@
+-- Order lines keep what was sold as it was when the order was placed: the
+-- item's name, category, unit price and VAT treatment, plus the line's share
+-- of any senior citizen / PWD discount. Receipts, history and sales reports
+-- read these instead of the live menu, so repricing or renaming a dish does
+-- not rewrite past sales, and deleting one leaves its orders intact.
+--
+--   unit_price       menu price of one unit, before options; option prices
+--                    are already kept in modifiers
+--   discount_amount  the line's share of orders.discount_amount
+--
+-- Bundle components still carry their share of the bundle price in
+-- allocated_amount; the bundle itself is kept in order_bundles.
+
+alter table public.order_items
+  add column if not exists item_name text,
+  add column if not exists category text,
+  add column if not exists unit_price numeric(10, 2),
+  add column if not exists vat_exempt boolean not null default false,
+  add column if not exists discount_amount numeric(10, 2) not null default 0;
+
+-- Lines placed so far get the menu as it is now, the closest we have
+update public.order_items oi
+set item_name = m.name,
+    category = m.category,
+    unit_price = m.price,
+    vat_exempt = m.vat_exempt
+from public.menu m
+where m.id = oi.meal_id and oi.unit_price is null;
+
+update public.order_items
+set item_name = coalesce(item_name, 'Deleted item'),
+    unit_price = coalesce(unit_price, 0)
+where item_name is null or unit_price is null;
+
+alter table public.order_items
+  alter column item_name set not null,
+  alter column unit_price set not null;
+
+-- Deleting a menu item keeps the orders and stock history that mention it
+alter table public.order_items alter column meal_id drop not null;
+alter table public.order_items drop constraint if exists order_items_meal_id_fkey;
+alter table public.order_items
+  add constraint order_items_meal_id_fkey
+  foreign key (meal_id) references public.menu (id) on delete set null;
+
+alter table public.stock_reservations alter column meal_id drop not null;
+alter table public.stock_reservations drop constraint if exists stock_reservations_meal_id_fkey;
+alter table public.stock_reservations
+  add constraint stock_reservations_meal_id_fkey
+  foreign key (meal_id) references public.menu (id) on delete set null;
+
+-- Take the snapshot as the line is written
+create or replace function public.snapshot_order_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_meal menu;
+begin
+  if tg_op = 'UPDATE' and new.meal_id is not distinct from old.meal_id then
+    return new;
+  end if;
+
+  -- The menu item was deleted: keep what the line already says
+  if new.meal_id is null then
+    return new;
+  end if;
+
+  select * into v_meal from menu where id = new.meal_id;
+  if found then
+    new.item_name := v_meal.name;
+    new.category := v_meal.category;
+    new.unit_price := v_meal.price;
+    new.vat_exempt := coalesce(v_meal.vat_exempt, false);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists order_items_snapshot on public.order_items;
+create trigger order_items_snapshot
+  before insert or update of meal_id on public.order_items
+  for each row execute function public.snapshot_order_item();
+
+-- What a line is charged before VAT, discounts and service charge
+create or replace function private.order_line_amount(p_line public.order_items)
+returns numeric
+language sql
+immutable
+as $$
+  select coalesce(
+    p_line.allocated_amount,
+    (
+      p_line.unit_price + coalesce((
+        select sum((x ->> 'price_delta')::numeric)
+        from jsonb_array_elements(p_line.modifiers) x
+      ), 0)
+    ) * p_line.quantity
+  );
+$$;
+
+-- Same pricing as before, from the lines' snapshots rather than the menu.
+-- Each line also gets its share of the discount, in proportion to its sales
+-- net of VAT.
+create or replace function private.price_order(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_vat_rate numeric := 0.12;
+  v_includes_vat boolean := true;
+  v_service_rate numeric := 0;
+  v_vatable_gross numeric;
+  v_exempt_gross numeric;
+  v_net_vatable numeric;
+  v_eligible integer;
+  v_share numeric;
+  v_eligible_net numeric;
+  v_remaining_gross numeric;
+  v_vatable_sales numeric;
+  v_vat numeric;
+  v_exempt_sales numeric;
+  v_discount numeric;
+  v_service numeric;
+  v_discount_cents bigint;
+begin
+  select * into v_order from orders where id = p_order_id for update;
+  if not found or v_order.status in ('completed', 'cancelled', 'voided') then
+    return;
+  end if;
+
+  select vat_rate, prices_include_vat, service_charge_rate
+  into v_vat_rate, v_includes_vat, v_service_rate
+  from pricing_settings
+  order by branch_id
+  limit 1;
+
+  v_vat_rate := coalesce(v_vat_rate, 0.12);
+  v_includes_vat := coalesce(v_includes_vat, true);
+  v_service_rate := coalesce(v_service_rate, 0);
+
+  select
+    coalesce(sum(private.order_line_amount(oi)) filter (where not oi.vat_exempt), 0),
+    coalesce(sum(private.order_line_amount(oi)) filter (where oi.vat_exempt), 0)
+  into v_vatable_gross, v_exempt_gross
+  from order_items oi
+  where oi.order_id = p_order_id;
+
+  select count(*) into v_eligible from order_discounts where order_id = p_order_id;
+  v_share := least(v_eligible, v_order.headcount)::numeric / v_order.headcount;
+
+  v_net_vatable := case when v_includes_vat then v_vatable_gross / (1 + v_vat_rate) else v_vatable_gross end;
+  v_eligible_net := (v_net_vatable + v_exempt_gross) * v_share;
+  v_remaining_gross := case
+    when v_includes_vat then v_vatable_gross * (1 - v_share)
+    else v_net_vatable * (1 - v_share) * (1 + v_vat_rate)
+  end;
+
+  v_vatable_sales := round(v_remaining_gross / (1 + v_vat_rate), 2);
+  v_vat := round(v_remaining_gross, 2) - v_vatable_sales;
+  v_exempt_sales := round(v_eligible_net + v_exempt_gross * (1 - v_share), 2);
+  v_discount := round(v_eligible_net * 0.20, 2);
+  v_service := round((v_vatable_sales + v_exempt_sales) * v_service_rate, 2);
+
+  update orders
+  set subtotal = round(v_vatable_gross + v_exempt_gross, 2),
+      vatable_sales = v_vatable_sales,
+      vat_amount = v_vat,
+      vat_exempt_sales = v_exempt_sales,
+      discount_amount = v_discount,
+      service_charge = v_service,
+      total_amount = v_vatable_sales + v_vat + v_exempt_sales - v_discount + v_service
+  where id = p_order_id;
+
+  -- Each holder gets an equal part of the discount, leftover centavos first
+  if v_eligible > 0 then
+    v_discount_cents := round(v_discount * 100);
+
+    with ranked as (
+      select id, row_number() over (order by id) as rn
+      from order_discounts
+      where order_id = p_order_id
+    )
+    update order_discounts d
+    set amount = (
+      v_discount_cents / v_eligible
+      + case when r.rn <= v_discount_cents % v_eligible then 1 else 0 end
+    )::numeric / 100
+    from ranked r
+    where r.id = d.id;
+  end if;
+
+  -- Running totals so the lines' centavos add up to the order's discount
+  v_discount_cents := round(v_discount * 100);
+
+  with lines as (
+    select
+      oi.id,
+      case
+        when oi.vat_exempt or not v_includes_vat then private.order_line_amount(oi)
+        else private.order_line_amount(oi) / (1 + v_vat_rate)
+      end as weight
+    from order_items oi
+    where oi.order_id = p_order_id
+  ), running as (
+    select
+      id,
+      sum(weight) over (order by id) as upto,
+      sum(weight) over (order by id) - weight as before,
+      sum(weight) over () as total
+    from lines
+  )
+  update order_items oi
+  set discount_amount = case
+    when r.total > 0 then
+      (round(v_discount_cents * r.upto / r.total) - round(v_discount_cents * r.before / r.total)) / 100
+    else 0
+  end
+  from running r
+  where r.id = oi.id;
+end;
+$$;
+
+revoke execute on function private.order_line_amount(public.order_items) from public, anon, authenticated;
@@ -0,0 +1,360 @@
+-- Sales dashboard aggregates. The dashboard used to download every order
+-- and order line of the period and add them up in the browser; these
+-- functions return the totals instead.
+--
+-- Periods are whole café days in Asia/Manila, from p_from to p_to
+-- inclusive, whatever the time zone of the browser asking. Sales are orders
+-- that are ready or completed. Lines count at the price they were sold at
+-- (see order_line_snapshots).
+
+create index if not exists orders_sales_created_at_idx
+  on public.orders (created_at)
+  where status in ('completed', 'ready');
+
+-- Start of a café day as a point in time
+create or replace function private.cafe_day_start(p_day date)
+returns timestamptz
+language sql
+immutable
+as $$
+  select p_day::timestamp at time zone 'Asia/Manila';
+$$;
+
+-- Orders that count as sales in a period
+create or replace function private.sales_orders(p_from date, p_to date)
+returns setof public.orders
+language sql
+stable
+as $$
+  select *
+  from public.orders
+  where status in ('completed', 'ready')
+    and created_at >= private.cafe_day_start(p_from)
+    and created_at < private.cafe_day_start(p_to + 1);
+$$;
+
+create or replace function private.sales_totals(p_from date, p_to date)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'revenue', coalesce(sum(o.total_amount), 0),
+    'orders', count(*),
+    'items_sold', coalesce((
+      select sum(oi.quantity)
+      from public.order_items oi
+      join private.sales_orders(p_from, p_to) so on so.id = oi.order_id
+    ), 0)
+  )
+  from private.sales_orders(p_from, p_to) o;
+$$;
+
+-- Staff only; every sales function starts with this
+create or replace function private.assert_sales_period(p_from date, p_to date)
+returns void
+language plpgsql
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to view sales' using errcode = '42501';
+  end if;
+
+  if p_from is null or p_to is null or p_from > p_to then
+    raise exception 'Choose a start date on or before the end date'
+      using errcode = '22023', hint = 'INVALID_PERIOD';
+  end if;
+
+  if p_to - p_from > 366 * 2 then
+    raise exception 'Sales can be reported for up to two years at a time'
+      using errcode = '22023', hint = 'PERIOD_TOO_LONG';
+  end if;
+end;
+$$;
+
+-- Revenue, orders and items sold in a period and in the period it is
+-- compared with: by default the same number of days just before it.
+-- Returns { current: {revenue, orders, items_sold}, previous: {...} }
+create or replace function public.sales_summary(
+  p_from date,
+  p_to date,
+  p_compare_from date default null,
+  p_compare_to date default null
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_days integer;
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  v_days := p_to - p_from + 1;
+  p_compare_from := coalesce(p_compare_from, p_from - v_days);
+  p_compare_to := coalesce(p_compare_to, p_from - 1);
+
+  if p_compare_from > p_compare_to then
+    raise exception 'Choose a comparison start date on or before its end date'
+      using errcode = '22023', hint = 'INVALID_PERIOD';
+  end if;
+
+  return jsonb_build_object(
+    'current', private.sales_totals(p_from, p_to),
+    'previous', private.sales_totals(p_compare_from, p_compare_to)
+  );
+end;
+$$;
+
+-- Best-selling dishes by revenue. Dishes since deleted are grouped by the
+-- name they were sold under.
+create or replace function public.sales_top_items(
+  p_from date,
+  p_to date,
+  p_limit integer default 10
+)
+returns table (
+  meal_id bigint,
+  name text,
+  category text,
+  image text,
+  quantity_sold bigint,
+  revenue numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  return query
+  select
+    l.meal_id,
+    -- The name and category it was last sold under
+    (array_agg(l.item_name order by l.id desc))[1],
+    (array_agg(coalesce(l.category, 'Uncategorized') order by l.id desc))[1],
+    max(m.image),
+    sum(l.quantity)::bigint,
+    round(sum(private.order_line_amount(l)), 2)
+  from order_items l
+  join private.sales_orders(p_from, p_to) o on o.id = l.order_id
+  left join menu m on m.id = l.meal_id
+  group by l.meal_id, case when l.meal_id is null then l.item_name end
+  order by 6 desc
+  limit greatest(coalesce(p_limit, 10), 1);
+end;
+$$;
+
+-- Revenue per category the dishes were sold under
+create or replace function public.sales_by_category(p_from date, p_to date)
+returns table (category text, items_sold bigint, revenue numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  return query
+  select
+    coalesce(l.category, 'Uncategorized'),
+    sum(l.quantity)::bigint,
+    round(sum(private.order_line_amount(l)), 2)
+  from order_items l
+  join private.sales_orders(p_from, p_to) o on o.id = l.order_id
+  group by 1
+  order by 3 desc;
+end;
+$$;
+
+-- Revenue and orders per hour or per day of café time, with empty buckets
+-- included so charts show the quiet times
+create or replace function public.sales_trend(
+  p_from date,
+  p_to date,
+  p_bucket text default 'day'
+)
+returns table (bucket timestamp, revenue numeric, orders bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_step interval;
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  if p_bucket not in ('hour', 'day') then
+    raise exception 'Sales can be grouped by hour or by day'
+      using errcode = '22023', hint = 'INVALID_BUCKET';
+  end if;
+
+  v_step := case p_bucket when 'hour' then interval '1 hour' else interval '1 day' end;
+
+  return query
+  with totals as (
+    select
+      date_trunc(p_bucket, o.created_at at time zone 'Asia/Manila') as bucket,
+      sum(o.total_amount) as revenue,
+      count(*) as orders
+    from private.sales_orders(p_from, p_to) o
+    group by 1
+  )
+  select
+    b.bucket,
+    coalesce(t.revenue, 0),
+    coalesce(t.orders, 0)
+  from generate_series(
+    p_from::timestamp,
+    (p_to + 1)::timestamp - v_step,
+    v_step
+  ) as b (bucket)
+  left join totals t on t.bucket = b.bucket
+  order by b.bucket;
+end;
+$$;
+
+-- Bundles sold and what each of their dishes brought in. Bundles since
+-- deleted are grouped by name.
+-- Returns [{ bundle_id, name, quantity_sold, revenue,
+--            components: [{ name, quantity_sold, revenue }] }]
+create or replace function public.sales_bundles(p_from date, p_to date)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_result jsonb;
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  with sold as (
+    select ob.*
+    from order_bundles ob
+    join private.sales_orders(p_from, p_to) o on o.id = ob.order_id
+  ), bundles as (
+    select
+      max(s.bundle_id) as bundle_id,
+      -- The name it was last sold under
+      (array_agg(s.name order by s.id desc))[1] as name,
+      sum(s.quantity) as quantity_sold,
+      sum(s.unit_price * s.quantity) as revenue,
+      array_agg(s.id) as order_bundle_ids
+    from sold s
+    group by coalesce(s.bundle_id::text, 'name:' || s.name)
+  )
+  select coalesce(jsonb_agg(
+    jsonb_build_object(
+      'bundle_id', b.bundle_id,
+      'name', b.name,
+      'quantity_sold', b.quantity_sold,
+      'revenue', b.revenue,
+      'components', coalesce((
+        select jsonb_agg(c order by c.revenue desc)
+        from (
+          select
+            oi.item_name as name,
+            sum(oi.quantity) as quantity_sold,
+            coalesce(sum(oi.allocated_amount), 0) as revenue
+          from order_items oi
+          where oi.order_bundle_id = any (b.order_bundle_ids)
+          group by oi.item_name
+        ) c
+      ), '[]'::jsonb)
+    )
+    order by b.revenue desc
+  ), '[]'::jsonb)
+  into v_result
+  from bundles b;
+
+  return v_result;
+end;
+$$;
+
+-- What was taken with each payment method for sales in a period
+create or replace function public.sales_payment_methods(p_from date, p_to date)
+returns table (method text, transactions bigint, amount numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  return query
+  select p.method, count(*), sum(p.amount)
+  from order_payments p
+  join private.sales_orders(p_from, p_to) o on o.id = p.order_id
+  group by p.method;
+end;
+$$;
+
+-- VAT, service charge and senior citizen / PWD discount totals for the BIR
+-- sales summary
+create or replace function public.sales_tax_summary(p_from date, p_to date)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_result jsonb;
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  select jsonb_build_object(
+    'gross_sales', coalesce(sum(o.subtotal), 0),
+    'vatable_sales', coalesce(sum(o.vatable_sales), 0),
+    'vat_amount', coalesce(sum(o.vat_amount), 0),
+    'vat_exempt_sales', coalesce(sum(o.vat_exempt_sales), 0),
+    'discount_amount', coalesce(sum(o.discount_amount), 0),
+    'service_charge', coalesce(sum(o.service_charge), 0),
+    'net_sales', coalesce(sum(o.total_amount), 0),
+    'senior_discounts', (
+      select count(*) from order_discounts d
+      join private.sales_orders(p_from, p_to) so on so.id = d.order_id
+      where d.discount_type = 'senior'
+    ),
+    'pwd_discounts', (
+      select count(*) from order_discounts d
+      join private.sales_orders(p_from, p_to) so on so.id = d.order_id
+      where d.discount_type = 'pwd'
+    )
+  )
+  into v_result
+  from private.sales_orders(p_from, p_to) o;
+
+  return v_result;
+end;
+$$;
+
+revoke execute on function private.cafe_day_start(date) from public, anon, authenticated;
+revoke execute on function private.sales_orders(date, date) from public, anon, authenticated;
+revoke execute on function private.sales_totals(date, date) from public, anon, authenticated;
+revoke execute on function private.assert_sales_period(date, date) from public, anon, authenticated;
+
+revoke all on function public.sales_summary(date, date, date, date) from public, anon;
+revoke all on function public.sales_top_items(date, date, integer) from public, anon;
+revoke all on function public.sales_by_category(date, date) from public, anon;
+revoke all on function public.sales_trend(date, date, text) from public, anon;
+revoke all on function public.sales_bundles(date, date) from public, anon;
+revoke all on function public.sales_payment_methods(date, date) from public, anon;
+revoke all on function public.sales_tax_summary(date, date) from public, anon;
+
+grant execute on function public.sales_summary(date, date, date, date) to authenticated;
+grant execute on function public.sales_top_items(date, date, integer) to authenticated;
+grant execute on function public.sales_by_category(date, date) to authenticated;
+grant execute on function public.sales_trend(date, date, text) to authenticated;
+grant execute on function public.sales_bundles(date, date) to authenticated;
+grant execute on function public.sales_payment_methods(date, date) to authenticated;
+grant execute on function public.sales_tax_summary(date, date) to authenticated;
@@ -0,0 +1,71 @@
+-- Sales by weekday and hour of café time, for the heatmap and the staffing
+-- suggestions on the Sales dashboard. Each slot also reports how long its
+-- orders took, from the order status timestamps:
+--
+--   prep  preparing_at -> ready_at  (time in the kitchen)
+--   wait  created_at   -> ready_at  (time the table waited for its food)
+--
+-- days is how many times the weekday occurs in the period, so the
+-- dashboard can turn totals into a typical hour.
+
+create or replace function public.sales_heatmap(p_from date, p_to date)
+returns table (
+  weekday smallint,
+  hour smallint,
+  days integer,
+  orders bigint,
+  items_sold bigint,
+  revenue numeric,
+  avg_prep_minutes numeric,
+  avg_wait_minutes numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  return query
+  with slots as (
+    select
+      extract(dow from o.created_at at time zone 'Asia/Manila')::smallint as weekday,
+      extract(hour from o.created_at at time zone 'Asia/Manila')::smallint as hour,
+      o.id,
+      o.total_amount,
+      o.created_at,
+      o.preparing_at,
+      o.ready_at
+    from private.sales_orders(p_from, p_to) o
+  ), items as (
+    select oi.order_id, sum(oi.quantity) as quantity
+    from order_items oi
+    join slots s on s.id = oi.order_id
+    group by oi.order_id
+  ), day_counts as (
+    select extract(dow from g.day)::smallint as weekday, count(*)::integer as days
+    from generate_series(p_from::timestamp, p_to::timestamp, interval '1 day') as g (day)
+    group by 1
+  )
+  select
+    s.weekday,
+    s.hour,
+    dc.days,
+    count(*)::bigint,
+    coalesce(sum(i.quantity), 0)::bigint,
+    round(sum(s.total_amount), 2),
+    round(avg(extract(epoch from s.ready_at - s.preparing_at) / 60)
+      filter (where s.ready_at >= s.preparing_at), 1),
+    round(avg(extract(epoch from s.ready_at - s.created_at) / 60)
+      filter (where s.ready_at >= s.created_at), 1)
+  from slots s
+  left join items i on i.order_id = s.id
+  join day_counts dc on dc.weekday = s.weekday
+  group by s.weekday, s.hour, dc.days
+  order by s.weekday, s.hour;
+end;
+$$;
+
+revoke all on function public.sales_heatmap(date, date) from public, anon;
+grant execute on function public.sales_heatmap(date, date) to authenticated;
@@ -0,0 +1,89 @@
+-- What a serving of each dish costs to make, for the menu engineering report
+-- on the Sales dashboard. Order lines keep the cost as it was when they were
+-- placed, alongside the price (see 20261019001800_order_line_snapshots), so
+-- a later change in food costs does not rewrite past margins. Null means the
+-- cost was never entered.
+
+alter table public.menu
+  add column if not exists cost numeric(10, 2) check (cost is null or cost >= 0);
+
+alter table public.order_items
+  add column if not exists unit_cost numeric(10, 2);
+
+-- Same snapshot as before, with the cost
+create or replace function public.snapshot_order_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_meal menu;
+begin
+  if tg_op = 'UPDATE' and new.meal_id is not distinct from old.meal_id then
+    return new;
+  end if;
+
+  -- The menu item was deleted: keep what the line already says
+  if new.meal_id is null then
+    return new;
+  end if;
+
+  select * into v_meal from menu where id = new.meal_id;
+  if found then
+    new.item_name := v_meal.name;
+    new.category := v_meal.category;
+    new.unit_price := v_meal.price;
+    new.unit_cost := v_meal.cost;
+    new.vat_exempt := coalesce(v_meal.vat_exempt, false);
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Units sold, revenue and food cost of every dish sold in the period, for
+-- the popularity / contribution margin matrix. Lines placed before a cost
+-- was entered fall back to the dish's current cost; unit_cost is null when
+-- the dish has none at all. Dishes sold in a bundle count with their share
+-- of the bundle price, as in sales_top_items.
+create or replace function public.sales_menu_engineering(p_from date, p_to date)
+returns table (
+  meal_id bigint,
+  name text,
+  category text,
+  quantity_sold bigint,
+  revenue numeric,
+  unit_cost numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  return query
+  select
+    l.meal_id,
+    (array_agg(l.item_name order by l.id desc))[1],
+    (array_agg(coalesce(l.category, 'Uncategorized') order by l.id desc))[1],
+    sum(l.quantity)::bigint,
+    round(sum(private.order_line_amount(l)), 2),
+    -- Average over the units that have a cost
+    round(
+      sum(coalesce(l.unit_cost, m.cost) * l.quantity)
+        / nullif(sum(l.quantity) filter (where coalesce(l.unit_cost, m.cost) is not null), 0),
+      2
+    )
+  from order_items l
+  join private.sales_orders(p_from, p_to) o on o.id = l.order_id
+  left join menu m on m.id = l.meal_id
+  group by l.meal_id, case when l.meal_id is null then l.item_name end
+  order by 5 desc;
+end;
+$$;
+
+revoke all on function public.sales_menu_engineering(date, date) from public, anon;
+grant execute on function public.sales_menu_engineering(date, date) to authenticated;
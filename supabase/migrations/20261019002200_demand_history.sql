@@ -0,0 +1,57 @@
+-- Servings sold of each dish per café day and hour, the history the demand
+-- forecast on the prep list is worked out from (see utils/demandForecast).
+-- Lines are grouped by the dish and carry the name and category it was last
+-- sold under, as in sales_top_items.
+
+create or replace function public.sales_item_hours(p_from date, p_to date)
+returns table (
+  meal_id bigint,
+  name text,
+  category text,
+  day date,
+  hour smallint,
+  quantity bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform private.assert_sales_period(p_from, p_to);
+
+  return query
+  with lines as (
+    select
+      l.meal_id,
+      l.item_name,
+      coalesce(l.category, 'Uncategorized') as category,
+      l.id,
+      l.quantity,
+      (o.created_at at time zone 'Asia/Manila')::date as day,
+      extract(hour from o.created_at at time zone 'Asia/Manila')::smallint as hour
+    from order_items l
+    join private.sales_orders(p_from, p_to) o on o.id = l.order_id
+  ), latest as (
+    select distinct on (x.meal_id)
+      x.meal_id, x.item_name, x.category
+    from lines x
+    where x.meal_id is not null
+    order by x.meal_id, x.id desc
+  )
+  select
+    x.meal_id,
+    coalesce(n.item_name, x.item_name),
+    coalesce(n.category, x.category),
+    x.day,
+    x.hour,
+    sum(x.quantity)::bigint
+  from lines x
+  left join latest n on n.meal_id = x.meal_id
+  group by 1, 2, 3, 4, 5
+  order by 4, 5;
+end;
+$$;
+
+revoke all on function public.sales_item_hours(date, date) from public, anon;
+grant execute on function public.sales_item_hours(date, date) to authenticated;
@@ -0,0 +1,41 @@
+-- Credit each status change to whoever made it. An update that does not set
+-- status_updated_by carries the previous actor over from the old row, so the
+-- column is only taken as given when the caller changed it; otherwise it is
+-- the signed-in user, or null for changes made by the server itself.
+
+create or replace function public.enforce_order_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if not public.order_status_transition_allowed(old.status, new.status) then
+    raise exception 'Illegal order status transition for order %: % -> %', old.id, old.status, new.status
+      using errcode = 'P0001', hint = 'ILLEGAL_TRANSITION';
+  end if;
+
+  if new.status_updated_by is not distinct from old.status_updated_by then
+    new.status_updated_by := auth.uid();
+  end if;
+
+  case new.status
+    when 'confirmed' then new.confirmed_at := coalesce(new.confirmed_at, now());
+    when 'preparing' then
+      new.preparing_at := coalesce(new.preparing_at, now());
+      new.confirmed_at := coalesce(new.confirmed_at, new.preparing_at);
+    when 'ready' then new.ready_at := coalesce(new.ready_at, now());
+    when 'completed' then new.completed_at := coalesce(new.completed_at, now());
+    when 'cancelled' then new.cancelled_at := coalesce(new.cancelled_at, now());
+    when 'voided' then new.voided_at := coalesce(new.voided_at, now());
+    else null;
+  end case;
+
+  insert into public.order_status_history (order_id, from_status, to_status, changed_by, reason)
+  values (new.id, old.status, new.status, new.status_updated_by, new.cancellation_reason);
+
+  return new;
+end;
+$$;
@@ -0,0 +1,48 @@
+-- Voiding an order releases the stock it still holds, as cancelling does. An
+-- order voided from ready was never completed, so its reservations would
+-- otherwise stay held for good.
+--
+-- Voiding a completed order leaves stock as it is: its reservations were
+-- already consumed when it completed, and the dishes were made, so nothing
+-- goes back on hand. Returned goods are recorded as a stock correction.
+
+create or replace function public.apply_order_stock_effects()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform release_order_reservations(old.id);
+    return old;
+  end if;
+
+  if new.status is distinct from old.status then
+    if new.status in ('cancelled', 'voided') then
+      -- Only held reservations are released; a completed order has none
+      perform release_order_reservations(new.id);
+    elsif new.status = 'completed' then
+      perform consume_order_reservations(new.id);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Orders already voided from ready give back what they still hold
+do $$
+declare
+  v_order_id bigint;
+begin
+  for v_order_id in
+    select distinct r.order_id
+    from public.stock_reservations r
+    join public.orders o on o.id = r.order_id
+    where r.status = 'held' and o.status = 'voided'
+  loop
+    perform public.release_order_reservations(v_order_id);
+  end loop;
+end;
+$$;
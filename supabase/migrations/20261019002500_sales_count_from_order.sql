@@ -0,0 +1,54 @@
+-- menu.sales counts the servings sold, whatever stock they came out of. The
+-- ledger clamps a movement to the quantity on hand, so a dish made from its
+-- recipe (quantity 0) recorded no sale at all; the count now comes from the
+-- quantity ordered, before the clamp.
+
+create or replace function public.apply_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quantity integer;
+  v_reserved integer;
+  v_sold integer := 0;
+begin
+  select quantity, reserved_quantity into v_quantity, v_reserved
+  from menu
+  where id = new.meal_id
+  for update;
+
+  if not found then
+    raise exception 'Menu item % not found', new.meal_id using errcode = 'P0002';
+  end if;
+
+  if new.movement_type = 'sale' then
+    v_sold := -new.quantity_delta;
+  end if;
+
+  -- Never drive a balance below zero; record what actually moved
+  new.quantity_delta := greatest(new.quantity_delta, -coalesce(v_quantity, 0));
+  new.reserved_delta := greatest(new.reserved_delta, -coalesce(v_reserved, 0));
+
+  new.performed_by := coalesce(new.performed_by, auth.uid());
+  if new.performed_by is not null and new.performed_by_name is null then
+    select coalesce(raw_user_meta_data ->> 'full_name', email) into new.performed_by_name
+    from auth.users
+    where id = new.performed_by;
+  end if;
+
+  perform set_config('app.stock_ledger', 'on', true);
+
+  update menu
+  set quantity = coalesce(quantity, 0) + new.quantity_delta,
+      reserved_quantity = reserved_quantity + new.reserved_delta,
+      sales = coalesce(sales, 0) + v_sold
+  where id = new.meal_id
+  returning quantity into new.quantity_after;
+
+  perform set_config('app.stock_ledger', 'off', true);
+
+  return new;
+end;
+$$;
@@ -0,0 +1,54 @@
+-- Opening a table session also returns its id. The customer's cart is saved
+-- per session, so the next party at the table starts with an empty cart
+-- instead of the last party's. The id is not a credential; the session key
+-- still is.
+
+create or replace function public.open_table_session(p_table_number integer, p_token text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version integer;
+  v_session table_sessions;
+begin
+  select q.token_version into v_version
+  from table_qr_tokens q
+  join tables t on t.id = q.table_number
+  where q.table_number = p_table_number and t.is_active;
+
+  if not found
+    or p_token is null
+    or p_token <> v_version || '.' || private.table_qr_signature(p_table_number, v_version) then
+    raise exception 'This table QR code is not valid. Please scan the code on your table.'
+      using errcode = '22023', hint = 'INVALID_TABLE_TOKEN';
+  end if;
+
+  -- Serialise scans per table so two phones do not open two sessions
+  perform pg_advisory_xact_lock(hashtext('table_session'), p_table_number);
+
+  update table_sessions
+  set closed_at = now(), close_reason = 'expired'
+  where table_number = p_table_number and closed_at is null and expires_at <= now();
+
+  update table_sessions
+  set last_seen_at = now(),
+      expires_at = greatest(expires_at, now() + interval '4 hours')
+  where table_number = p_table_number and closed_at is null
+  returning * into v_session;
+
+  if not found then
+    insert into table_sessions (table_number)
+    values (p_table_number)
+    returning * into v_session;
+  end if;
+
+  return jsonb_build_object(
+    'session_id', v_session.id,
+    'session_key', v_session.session_key,
+    'table_number', v_session.table_number,
+    'expires_at', v_session.expires_at
+  );
+end;
+$$;
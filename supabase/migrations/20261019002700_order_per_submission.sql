@@ -0,0 +1,334 @@
+-- Each submission places a new order. A table used to keep a single pending
+-- order that every submission replaced, so a second diner's phone wiped the
+-- first diner's items and both phones followed the same order. Retries of
+-- one submission still return its order through the idempotency key.
+
+create or replace function public.submit_order(
+  p_table_id bigint,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+  v_menu record;
+  v_line record;
+  v_group record;
+  v_slot record;
+  v_bundle bundles;
+  v_bundle_line record;
+  v_available integer;
+  v_short record;
+  v_meal_id bigint;
+  v_quantity integer;
+  v_option_ids bigint[];
+  v_modifiers jsonb;
+  v_unit_price numeric;
+  v_components jsonb;
+  v_order_bundle_id bigint;
+  v_list_total numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_bundles jsonb := '[]'::jsonb;
+  -- Every menu item the order draws on, menu lines and bundle components alike
+  v_stock_lines jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+begin
+  if p_table_id is null or p_table_id <= 0 then
+    raise exception 'A valid table is required to place an order'
+      using errcode = '22023', hint = 'INVALID_TABLE';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Your order has no items'
+      using errcode = '22023', hint = 'EMPTY_ORDER';
+  end if;
+
+  -- Serialise submissions per table so retries and double taps see each other
+  perform pg_advisory_xact_lock(hashtext('submit_order'), p_table_id::integer);
+
+  if p_idempotency_key is not null then
+    select * into v_order from orders where idempotency_key = p_idempotency_key;
+    if found then
+      return order_with_items_json(v_order.id);
+    end if;
+  end if;
+
+  -- Explode bundles into their chosen components
+  for v_line in
+    select value as data
+    from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_line.data ->> 'quantity')::integer;
+
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity in your order'
+        using errcode = '22023', hint = 'INVALID_QUANTITY';
+    end if;
+
+    if not v_line.data ? 'bundle_id' then
+      v_stock_lines := v_stock_lines || jsonb_build_array(jsonb_build_object(
+        'meal_id', (v_line.data ->> 'meal_id')::bigint,
+        'quantity', v_quantity
+      ));
+      continue;
+    end if;
+
+    select * into v_bundle
+    from bundles
+    where id = (v_line.data ->> 'bundle_id')::bigint and is_active;
+
+    if not found then
+      raise exception 'A set meal in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    v_components := '[]'::jsonb;
+
+    for v_slot in
+      select s.id, s.name, s.quantity
+      from bundle_slots s
+      where s.bundle_id = v_bundle.id
+      order by s.sort_order, s.id
+    loop
+      select (c.value ->> 'meal_id')::bigint into v_meal_id
+      from jsonb_array_elements(coalesce(v_line.data -> 'components', '[]'::jsonb)) as c
+      where (c.value ->> 'slot_id')::bigint = v_slot.id
+      limit 1;
+
+      if v_meal_id is null or v_meal_id not in (select bundle_slot_meal_ids(v_slot.id)) then
+        raise exception 'Please choose "%" for "%".', v_slot.name, v_bundle.name
+          using errcode = '22023', hint = 'BUNDLE_CHOICE_REQUIRED';
+      end if;
+
+      v_components := v_components || jsonb_build_array(jsonb_build_object(
+        'meal_id', v_meal_id,
+        'quantity', v_slot.quantity * v_quantity
+      ));
+    end loop;
+
+    if jsonb_array_length(v_components) = 0 then
+      raise exception 'A set meal in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    v_stock_lines := v_stock_lines || v_components;
+    v_total := v_total + v_bundle.price * v_quantity;
+    v_bundles := v_bundles || jsonb_build_array(jsonb_build_object(
+      'bundle_id', v_bundle.id,
+      'name', v_bundle.name,
+      'unit_price', v_bundle.price,
+      'quantity', v_quantity,
+      'components', v_components
+    ));
+  end loop;
+
+  -- Lock the ingredients this order draws on so tables sharing an
+  -- ingredient cannot both take the last of it
+  perform 1
+  from ingredients
+  where id in (
+    select ri.ingredient_id
+    from recipe_items ri
+    join jsonb_to_recordset(v_stock_lines) as r(meal_id bigint, quantity integer)
+      on r.meal_id = ri.meal_id
+  )
+  order by id
+  for update;
+
+  -- Lock menu rows in id order to avoid deadlocks between tables
+  for v_line in
+    select r.meal_id, sum(r.quantity)::integer as quantity
+    from jsonb_to_recordset(v_stock_lines) as r(meal_id bigint, quantity integer)
+    group by r.meal_id
+    order by r.meal_id
+  loop
+    select id, name, price into v_menu
+    from menu
+    where id = v_line.meal_id
+    for update;
+
+    if not found then
+      raise exception 'A menu item in your order is no longer available'
+        using errcode = 'P0002', hint = 'ITEM_NOT_FOUND';
+    end if;
+
+    select available into v_available
+    from menu_availability
+    where meal_id = v_line.meal_id;
+
+    if v_available < v_line.quantity then
+      if v_available = 0 then
+        raise exception 'Sorry, "%" just sold out. Please remove it from your order.', v_menu.name
+          using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+      end if;
+      raise exception 'Sorry, only % "%" left. Please update your order.', v_available, v_menu.name
+        using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+    end if;
+  end loop;
+
+  -- Validate and price the chosen options of every menu line
+  for v_line in
+    select value as data
+    from jsonb_array_elements(p_items)
+    where not value ? 'bundle_id'
+  loop
+    v_meal_id := (v_line.data ->> 'meal_id')::bigint;
+    v_quantity := (v_line.data ->> 'quantity')::integer;
+
+    select coalesce(array_agg(distinct x::bigint), '{}') into v_option_ids
+    from jsonb_array_elements_text(coalesce(v_line.data -> 'option_ids', '[]'::jsonb)) as x;
+
+    select id, name, price into v_menu from menu where id = v_meal_id;
+
+    if exists (
+      select 1
+      from unnest(v_option_ids) as chosen(id)
+      where not exists (
+        select 1
+        from modifier_options mo
+        join modifier_groups mg on mg.id = mo.group_id
+        where mo.id = chosen.id and mg.meal_id = v_meal_id and mo.is_available
+      )
+    ) then
+      raise exception 'Sorry, an option you picked for "%" is no longer available. Please choose again.', v_menu.name
+        using errcode = 'P0001', hint = 'OPTION_UNAVAILABLE';
+    end if;
+
+    for v_group in
+      select mg.name, mg.min_select, mg.max_select,
+        (select count(*) from modifier_options mo
+          where mo.group_id = mg.id and mo.id = any (v_option_ids)) as selected
+      from modifier_groups mg
+      where mg.meal_id = v_meal_id
+      order by mg.sort_order, mg.id
+    loop
+      if v_group.selected < v_group.min_select then
+        raise exception 'Please choose % for "%" (%).',
+          case when v_group.min_select = 1 then 'an option' else v_group.min_select || ' options' end,
+          v_group.name, v_menu.name
+          using errcode = '22023', hint = 'MODIFIER_REQUIRED';
+      end if;
+
+      if v_group.selected > v_group.max_select then
+        raise exception 'You can choose up to % for "%" (%).', v_group.max_select, v_group.name, v_menu.name
+          using errcode = '22023', hint = 'TOO_MANY_MODIFIERS';
+      end if;
+    end loop;
+
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'group_id', mg.id,
+          'group_name', mg.name,
+          'option_id', mo.id,
+          'name', mo.name,
+          'price_delta', mo.price_delta
+        )
+        order by mg.sort_order, mg.id, mo.sort_order, mo.id
+      ),
+      '[]'::jsonb
+    ) into v_modifiers
+    from modifier_options mo
+    join modifier_groups mg on mg.id = mo.group_id
+    where mo.id = any (v_option_ids);
+
+    v_unit_price := v_menu.price + coalesce((
+      select sum(mo.price_delta) from modifier_options mo where mo.id = any (v_option_ids)
+    ), 0);
+
+    v_total := v_total + v_unit_price * v_quantity;
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'meal_id', v_meal_id,
+      'quantity', v_quantity,
+      'modifiers', v_modifiers,
+      'special_instructions', left(nullif(trim(v_line.data ->> 'special_instructions'), ''), 200)
+    ));
+  end loop;
+
+  -- Every submission is an order of its own, so diners at one table each
+  -- track what they placed and never overwrite each other's items
+  insert into orders (status, total_amount, table_id, idempotency_key)
+  values ('pending', v_total, p_table_id, p_idempotency_key)
+  returning * into v_order;
+
+  insert into order_items (order_id, meal_id, quantity, modifiers, special_instructions)
+  select v_order.id, r.meal_id, r.quantity, r.modifiers, r.special_instructions
+  from jsonb_to_recordset(v_lines)
+    as r(meal_id bigint, quantity integer, modifiers jsonb, special_instructions text);
+
+  -- The bundle price is split across its components by their menu prices
+  for v_bundle_line in
+    select *
+    from jsonb_to_recordset(v_bundles)
+      as b(bundle_id bigint, name text, unit_price numeric, quantity integer, components jsonb)
+  loop
+    insert into order_bundles (order_id, bundle_id, name, unit_price, quantity)
+    values (v_order.id, v_bundle_line.bundle_id, v_bundle_line.name, v_bundle_line.unit_price, v_bundle_line.quantity)
+    returning id into v_order_bundle_id;
+
+    select coalesce(sum(m.price * c.quantity), 0) into v_list_total
+    from jsonb_to_recordset(v_bundle_line.components) as c(meal_id bigint, quantity integer)
+    join menu m on m.id = c.meal_id;
+
+    insert into order_items (order_id, meal_id, quantity, order_bundle_id, allocated_amount)
+    select
+      v_order.id,
+      c.meal_id,
+      c.quantity,
+      v_order_bundle_id,
+      round(
+        v_bundle_line.unit_price * v_bundle_line.quantity * case
+          when v_list_total > 0 then m.price * c.quantity / v_list_total
+          else 1.0 / jsonb_array_length(v_bundle_line.components)
+        end,
+        2
+      )
+    from jsonb_to_recordset(v_bundle_line.components) as c(meal_id bigint, quantity integer)
+    join menu m on m.id = c.meal_id;
+
+    -- Rounding leftovers go to the last component so the shares add up
+    update order_items
+    set allocated_amount = allocated_amount + (
+      v_bundle_line.unit_price * v_bundle_line.quantity
+      - (select sum(allocated_amount) from order_items where order_bundle_id = v_order_bundle_id)
+    )
+    where id = (select max(id) from order_items where order_bundle_id = v_order_bundle_id);
+  end loop;
+
+  insert into stock_reservations (order_id, meal_id, quantity)
+  select v_order.id, r.meal_id, sum(r.quantity)::integer
+  from jsonb_to_recordset(v_stock_lines) as r(meal_id bigint, quantity integer)
+  group by r.meal_id;
+
+  insert into stock_movements (meal_id, movement_type, reserved_delta, order_id, reason)
+  select r.meal_id, 'reservation', sum(r.quantity)::integer, v_order.id, 'Order submitted'
+  from jsonb_to_recordset(v_stock_lines) as r(meal_id bigint, quantity integer)
+  group by r.meal_id
+  order by r.meal_id;
+
+  -- Dishes in one order can share an ingredient; each passed on its own,
+  -- so make sure the ingredients cover all of them together
+  select s.name into v_short
+  from ingredient_stock s
+  where s.committed_quantity > s.quantity
+    and s.ingredient_id in (
+      select ri.ingredient_id
+      from recipe_items ri
+      join order_items oi on oi.meal_id = ri.meal_id
+      where oi.order_id = v_order.id
+    )
+  order by s.name
+  limit 1;
+
+  if found then
+    raise exception 'Sorry, we don''t have enough % for everything in your order. Please remove an item.', v_short.name
+      using errcode = 'P0001', hint = 'INSUFFICIENT_STOCK';
+  end if;
+
+  return order_with_items_json(v_order.id);
+end;
+$$;
@@ -0,0 +1,34 @@
+-- Customers leave feedback on their orders through the table session that
+-- placed them. The anonymous role lost write access to orders along with
+-- table sessions, so the direct update from the waiting page always failed.
+
+create or replace function public.submit_order_feedback(
+  p_session_key uuid,
+  p_order_id bigint,
+  p_feedback jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders;
+begin
+  if jsonb_typeof(p_feedback) is distinct from 'object' then
+    raise exception 'Feedback must be an object'
+      using errcode = '22023', hint = 'INVALID_FEEDBACK';
+  end if;
+
+  v_order := private.session_order(p_session_key, p_order_id);
+
+  update orders
+  set feedback = p_feedback || jsonb_build_object('submitted_at', now())
+  where id = v_order.id;
+
+  return order_with_items_json(v_order.id);
+end;
+$$;
+
+revoke all on function public.submit_order_feedback(uuid, bigint, jsonb) from public;
+grant execute on function public.submit_order_feedback(uuid, bigint, jsonb) to anon, authenticated;
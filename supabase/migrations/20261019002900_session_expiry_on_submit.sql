@@ -0,0 +1,47 @@
+-- Placing an order extends the table session; the submission now returns the
+-- new expiry so the customer's phone keeps the session as long as the server
+-- does instead of dropping it at the time it was opened.
+
+create or replace function public.submit_table_order(
+  p_session_key uuid,
+  p_items jsonb,
+  p_idempotency_key uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session table_sessions;
+  v_order jsonb;
+  v_expires_at timestamptz;
+begin
+  select * into v_session
+  from table_sessions
+  where session_key = p_session_key
+  for update;
+
+  if not found or v_session.closed_at is not null or v_session.expires_at <= now() then
+    raise exception 'Your table session has ended. Please scan your table QR code again.'
+      using errcode = '22023', hint = 'SESSION_EXPIRED';
+  end if;
+
+  v_order := submit_order(v_session.table_number, p_items, p_idempotency_key);
+
+  update orders
+  set table_session_id = v_session.id
+  where id = (v_order ->> 'id')::bigint and table_session_id is null;
+
+  update table_sessions
+  set last_seen_at = now(),
+      expires_at = greatest(expires_at, now() + interval '4 hours')
+  where id = v_session.id
+  returning expires_at into v_expires_at;
+
+  return v_order || jsonb_build_object(
+    'table_session_id', v_session.id,
+    'session_expires_at', v_expires_at
+  );
+end;
+$$;
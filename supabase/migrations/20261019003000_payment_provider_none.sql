@@ -0,0 +1,25 @@
+-- Online payments are off until a branch picks a real provider. The simulator
+-- was the only provider allowed and the default, and anonymous diners could
+-- call simulate_payment_result, so any customer could mark their own order as
+-- paid. The simulator is now a development provider: the app only offers it
+-- in development and test builds, and only signed-in testers can answer it.
+--
+-- Pay first needs a provider to take the payment, so it is turned off along
+-- with the simulator on branches that were using it.
+
+alter table public.payment_settings
+  drop constraint if exists payment_settings_provider_check;
+
+update public.payment_settings
+set provider = 'none', pay_first = false, updated_at = now()
+where provider = 'simulator';
+
+alter table public.payment_settings
+  alter column provider set default 'none',
+  add constraint payment_settings_provider_check
+    check (provider in ('none', 'paymongo', 'xendit', 'simulator')),
+  add constraint payment_settings_pay_first_provider_check
+    check (not pay_first or provider <> 'none');
+
+revoke all on function public.simulate_payment_result(uuid, uuid, text) from public, anon;
+grant execute on function public.simulate_payment_result(uuid, uuid, text) to authenticated;
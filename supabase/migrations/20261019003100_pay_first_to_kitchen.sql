@@ -0,0 +1,63 @@
+-- A paid pay-first order goes straight to the kitchen, as one the cashier
+-- approves does. Settling used to leave it confirmed, which neither the
+-- kitchen nor the cashier queue loads, so paid orders were never cooked.
+
+create or replace function private.settle_payment_intent(
+  p_intent_id uuid,
+  p_succeeded boolean,
+  p_provider_ref text default null,
+  p_failure_reason text default null
+)
+returns public.payment_intents
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_intent payment_intents;
+  v_order orders;
+begin
+  select * into v_intent from payment_intents where id = p_intent_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_intent_id using errcode = 'P0002';
+  end if;
+
+  -- Webhooks are retried, so settling twice is a no-op
+  if v_intent.status <> 'requires_payment' then
+    return v_intent;
+  end if;
+
+  if not p_succeeded then
+    update payment_intents
+    set status = 'failed',
+        failure_reason = coalesce(p_failure_reason, 'Payment was declined')
+    where id = p_intent_id
+    returning * into v_intent;
+    return v_intent;
+  end if;
+
+  update payment_intents
+  set status = 'succeeded',
+      confirmed_at = now(),
+      provider_ref = coalesce(p_provider_ref, provider_ref)
+  where id = p_intent_id
+  returning * into v_intent;
+
+  insert into order_payments (order_id, method, amount, tendered, reference, payment_intent_id)
+  values (v_intent.order_id, 'ewallet', v_intent.amount, v_intent.amount, v_intent.provider_ref, v_intent.id);
+
+  select * into v_order from orders where id = v_intent.order_id for update;
+  if v_order.payment_required
+    and v_order.status = 'pending'
+    and (select sum(amount) from order_payments where order_id = v_order.id) >= v_order.total_amount then
+    update orders set status = 'preparing' where id = v_order.id;
+  end if;
+
+  return v_intent;
+end;
+$$;
+
+-- Paid orders already stuck in confirmed
+update public.orders
+set status = 'preparing'
+where status = 'confirmed' and payment_required;
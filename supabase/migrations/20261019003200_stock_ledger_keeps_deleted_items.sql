@@ -0,0 +1,135 @@
+-- Deleting a menu item keeps its stock history. Movements used to cascade
+-- away with the item; they now keep the item's name as it was when they were
+-- recorded and lose only the link to the menu.
+
+alter table public.stock_movements
+  add column if not exists meal_name text;
+
+update public.stock_movements sm
+set meal_name = m.name
+from public.menu m
+where m.id = sm.meal_id and sm.meal_name is null;
+
+alter table public.stock_movements alter column meal_id drop not null;
+alter table public.stock_movements drop constraint if exists stock_movements_meal_id_fkey;
+alter table public.stock_movements
+  add constraint stock_movements_meal_id_fkey
+  foreign key (meal_id) references public.menu (id) on delete set null;
+
+-- Take the name as the movement is written
+create or replace function public.apply_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quantity integer;
+  v_reserved integer;
+  v_name text;
+  v_sold integer := 0;
+begin
+  select quantity, reserved_quantity, name into v_quantity, v_reserved, v_name
+  from menu
+  where id = new.meal_id
+  for update;
+
+  if not found then
+    raise exception 'Menu item % not found', new.meal_id using errcode = 'P0002';
+  end if;
+
+  new.meal_name := v_name;
+
+  if new.movement_type = 'sale' then
+    v_sold := -new.quantity_delta;
+  end if;
+
+  -- Never drive a balance below zero; record what actually moved
+  new.quantity_delta := greatest(new.quantity_delta, -coalesce(v_quantity, 0));
+  new.reserved_delta := greatest(new.reserved_delta, -coalesce(v_reserved, 0));
+
+  new.performed_by := coalesce(new.performed_by, auth.uid());
+  if new.performed_by is not null and new.performed_by_name is null then
+    select coalesce(raw_user_meta_data ->> 'full_name', email) into new.performed_by_name
+    from auth.users
+    where id = new.performed_by;
+  end if;
+
+  perform set_config('app.stock_ledger', 'on', true);
+
+  update menu
+  set quantity = coalesce(quantity, 0) + new.quantity_delta,
+      reserved_quantity = reserved_quantity + new.reserved_delta,
+      sales = coalesce(sales, 0) + v_sold
+  where id = new.meal_id
+  returning quantity into new.quantity_after;
+
+  perform set_config('app.stock_ledger', 'off', true);
+
+  return new;
+end;
+$$;
+
+-- Lines and holds of deleted items have no stock left to move
+create or replace function public.release_order_reservations(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with released as (
+    update stock_reservations
+    set status = 'released', resolved_at = now()
+    where order_id = p_order_id and status = 'held'
+    returning meal_id, quantity
+  )
+  insert into stock_movements (meal_id, movement_type, reserved_delta, order_id, reason)
+  select meal_id, 'reservation_release', -sum(quantity)::integer, p_order_id, 'Order cancelled'
+  from released
+  where meal_id is not null
+  group by meal_id
+  order by meal_id;
+end;
+$$;
+
+create or replace function public.consume_order_reservations(p_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with consumed as (
+    update stock_reservations
+    set status = 'consumed', resolved_at = now()
+    where order_id = p_order_id and status = 'held'
+    returning meal_id, quantity
+  ), held as (
+    select meal_id, sum(quantity)::integer as quantity
+    from consumed
+    group by meal_id
+  ), ordered as (
+    select meal_id, sum(quantity)::integer as quantity
+    from order_items
+    where order_id = p_order_id and meal_id is not null
+    group by meal_id
+  )
+  insert into stock_movements (meal_id, movement_type, quantity_delta, reserved_delta, order_id, reason)
+  select ordered.meal_id, 'sale', -ordered.quantity, -coalesce(held.quantity, 0), p_order_id, 'Order completed'
+  from ordered
+  left join held on held.meal_id = ordered.meal_id
+  order by ordered.meal_id;
+
+  update ingredients i
+  set quantity = greatest(0, i.quantity - used.quantity)
+  from (
+    select ri.ingredient_id, sum(ri.quantity * oi.quantity) as quantity
+    from order_items oi
+    join recipe_items ri on ri.meal_id = oi.meal_id
+    where oi.order_id = p_order_id
+    group by ri.ingredient_id
+  ) used
+  where i.id = used.ingredient_id;
+end;
+$$;
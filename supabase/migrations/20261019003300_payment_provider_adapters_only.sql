@@ -0,0 +1,15 @@
+-- Only providers the app has an adapter and a webhook for can be chosen.
+-- PayMongo and Xendit were allowed without either, so a branch picking one
+-- with pay first on would hold every order for a payment no one could make.
+-- Branches set to either go back to paying at the counter.
+
+alter table public.payment_settings
+  drop constraint if exists payment_settings_provider_check;
+
+update public.payment_settings
+set provider = 'none', pay_first = false, updated_at = now()
+where provider not in ('none', 'simulator');
+
+alter table public.payment_settings
+  add constraint payment_settings_provider_check
+    check (provider in ('none', 'simulator'));
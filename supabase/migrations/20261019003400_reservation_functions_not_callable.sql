@@ -0,0 +1,10 @@
+-- Reservations are released and consumed only by the order triggers and
+-- submit_order, which run as the function owner. Signed-in users could call
+-- release_order_reservations on any order and put its held stock back on
+-- sale, and consume_order_reservations was left open to everyone by the
+-- default grant; neither is callable from the API any more.
+
+revoke all on function public.release_order_reservations(bigint)
+  from public, anon, authenticated;
+revoke all on function public.consume_order_reservations(bigint)
+  from public, anon, authenticated;